@@ -0,0 +1,562 @@
+import request from 'supertest';
+import { MAX_SUGGESTION_CALLS } from './expansion/expand';
+import { LLMRoute } from './llm/types';
+import { bearer, createTestApp } from './testing/stubs';
+
+// End-to-end: the real routes, validation and AI pipelines on a stub model, in-memory storage and a fake clock
+
+const PROFILE = { currentRole: 'Junior Developer', yearsOfExperience: 1, skills: ['Java'], education: [], certifications: [] };
+
+const isMindMap = (body: any) => {
+  expect(body.nodes.length).toBeGreaterThan(0);
+  body.nodes.forEach((node: any) => expect(node).toMatchObject({
+    id: expect.any(String),
+    data: { label: expect.any(String) },
+    position: { x: expect.any(Number), y: expect.any(Number) }
+  }));
+  body.edges.forEach((edge: any) => expect(edge).toMatchObject({
+    id: expect.any(String),
+    source: expect.any(String),
+    target: expect.any(String)
+  }));
+};
+
+const isTitleList = (key: string) => (body: any) => {
+  expect(body[key].length).toBeGreaterThan(0);
+  body[key].forEach((title: unknown) => expect(title).toEqual(expect.any(String)));
+  expect(body.roles).toHaveLength(body[key].length);
+};
+
+type AIRouteCase = {
+  path: string;
+  // The model route whose replies are scripted
+  route: LLMRoute;
+  body: Record<string, unknown>;
+  invalid: Record<string, unknown>;
+  check: (body: any) => void;
+};
+
+const AI_ROUTES: AIRouteCase[] = [
+  {
+    path: '/api/generate-mindmap',
+    route: 'mindmap',
+    body: { aim: 'Backend developer', locale: 'en' },
+    invalid: { mbti: 'ABCD' },
+    check: isMindMap
+  },
+  {
+    path: '/api/suggestions',
+    route: 'suggestions',
+    body: { nodeContent: 'Backend Developer', locale: 'en' },
+    invalid: { nodeContent: '' },
+    check: isTitleList('suggestions')
+  },
+  {
+    path: '/api/career-details',
+    route: 'careerDetails',
+    body: { careerTitle: 'Backend Developer', locale: 'en' },
+    invalid: {},
+    check: body => expect(body).toMatchObject({
+      title: expect.any(String),
+      requirements: { education: expect.any(Array), certifications: expect.any(Array), experience: expect.any(Array) },
+      levels: expect.any(Array)
+    })
+  },
+  {
+    path: '/api/expand-career',
+    route: 'expandCareer',
+    body: { careerTitle: 'Backend Developer', locale: 'en' },
+    invalid: { careerTitle: 'Backend Developer', level: 9 },
+    check: isTitleList('careerPaths')
+  },
+  {
+    path: '/api/career-path',
+    route: 'careerPath',
+    body: { currentRole: 'Junior Developer', targetRole: 'Tech Lead', locale: 'en' },
+    invalid: { currentRole: 'Junior Developer' },
+    check: body => {
+      isMindMap(body);
+      expect(body).toMatchObject({ totalYears: expect.any(Number), confidence: expect.any(Number) });
+    }
+  },
+  {
+    path: '/api/skill-gap',
+    route: 'skillGap',
+    body: { careerTitle: 'Backend Developer', locale: 'en', profile: PROFILE },
+    invalid: { careerTitle: 'Backend Developer', profile: PROFILE, profileId: 'user-1' },
+    check: body => {
+      expect(body.items.length).toBeGreaterThan(0);
+      body.items.forEach((item: any) => expect(['met', 'partial', 'missing']).toContain(item.status));
+      expect(body.summary).toMatchObject({ met: expect.any(Number), partial: expect.any(Number), missing: expect.any(Number) });
+    }
+  },
+  {
+    path: '/api/expand-graph',
+    route: 'suggestions',
+    body: { nodes: [{ id: '1', data: { label: 'Backend Developer' } }], edges: [], nodeId: '1', locale: 'en' },
+    invalid: { nodes: [{ id: '1', data: { label: 'Backend Developer' } }], nodeId: '2' },
+    check: body => {
+      expect(body.parentId).toBe('1');
+      expect(body.nodes.length).toBeGreaterThan(0);
+      body.edges.forEach((edge: any) => expect(edge.source).toBe('1'));
+    }
+  }
+];
+
+const expectError = (response: request.Response, status: number, code: string) => {
+  expect(response.status).toBe(status);
+  expect(response.body).toMatchObject({ code, message: expect.any(String), requestId: expect.any(String) });
+};
+
+describe.each(AI_ROUTES)('POST $path', ({ path, route, body, invalid, check }) => {
+  it('returns the validated AI response', async () => {
+    const { app } = createTestApp();
+    const response = await request(app).post(path).set(bearer()).send(body);
+    expect(response.status).toBe(200);
+    expect(response.body.dataSource).toBe('ai-validated');
+    check(response.body);
+  });
+
+  it('re-asks once and falls back when the model keeps returning malformed output', async () => {
+    const { app, stub } = createTestApp();
+    stub.reply(route, 'Sorry, I cannot answer that.', '{"unexpected": true');
+    const response = await request(app).post(path).set(bearer()).send(body);
+    expect(response.status).toBe(200);
+    expect(response.body.dataSource).toBe('fallback');
+    check(response.body);
+    expect(stub.requests.filter(call => call.route === route)).toHaveLength(2);
+  });
+
+  it('uses the corrected answer after a re-ask', async () => {
+    const { app, stub } = createTestApp();
+    stub.reply(route, 'not json at all');
+    const response = await request(app).post(path).set(bearer()).send(body);
+    expect(response.status).toBe(200);
+    expect(response.body.dataSource).toBe('ai-repaired');
+    check(response.body);
+  });
+
+  it('falls back without retrying on an upstream error', async () => {
+    const { app, stub, clock } = createTestApp();
+    stub.reply(route, { status: 500 });
+    const response = await request(app).post(path).set(bearer()).send(body);
+    expect(response.status).toBe(200);
+    expect(response.body.dataSource).toBe('fallback');
+    check(response.body);
+    expect(clock.sleeps).toEqual([]);
+  });
+
+  it('retries 503 and 429 with exponential backoff', async () => {
+    const { app, stub, clock } = createTestApp();
+    stub.reply(route, { status: 503 }, { status: 429 });
+    const response = await request(app).post(path).set(bearer()).send(body);
+    expect(response.status).toBe(200);
+    expect(response.body.dataSource).toBe('ai-validated');
+    expect(clock.sleeps).toEqual([1000, 2000]);
+  });
+
+  it('falls back once the retries are used up', async () => {
+    const { app, stub, clock } = createTestApp();
+    stub.reply(route, { status: 503 }, { status: 503 }, { status: 503 });
+    const response = await request(app).post(path).set(bearer()).send(body);
+    expect(response.status).toBe(200);
+    expect(response.body.dataSource).toBe('fallback');
+    expect(clock.sleeps).toEqual([1000, 2000, 4000]);
+  });
+
+  it('rejects an invalid body', async () => {
+    const { app, stub } = createTestApp();
+    const response = await request(app).post(path).set(bearer()).send(invalid);
+    expectError(response, 400, 'VALIDATION_FAILED');
+    expect(response.body.details.length).toBeGreaterThan(0);
+    response.body.details.forEach((detail: any) => expect(detail).toMatchObject({
+      location: 'body',
+      path: expect.any(String),
+      message: expect.any(String)
+    }));
+    expect(stub.requests).toHaveLength(0);
+  });
+
+  it('requires a bearer token', async () => {
+    const { app } = createTestApp();
+    expectError(await request(app).post(path).send(body), 401, 'UNAUTHENTICATED');
+  });
+});
+
+describe('POST /api/generate-mindmap', () => {
+  it('returns only the center node for centerOnly, without calling the model', async () => {
+    const { app, stub } = createTestApp();
+    const response = await request(app).post('/api/generate-mindmap').set(bearer())
+      .send({ jobPath: 'Product Designer', centerOnly: true });
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      nodes: [{ id: 'root', data: { label: 'Product Designer' }, position: { x: 0, y: 0 } }],
+      edges: []
+    });
+    expect(stub.requests).toHaveLength(0);
+  });
+
+  it('falls back to the locale default label for centerOnly without a goal', async () => {
+    const { app } = createTestApp();
+    const response = await request(app).post('/api/generate-mindmap').set(bearer()).send({ centerOnly: true, locale: 'en' });
+    expect(response.status).toBe(200);
+    expect(response.body.nodes).toHaveLength(1);
+    expect(response.body.nodes[0].data.label).toEqual(expect.any(String));
+  });
+
+  it('needs at least one of aim, jobPath or hobby', async () => {
+    const { app } = createTestApp();
+    expectError(await request(app).post('/api/generate-mindmap').set(bearer()).send({ locale: 'en' }), 400, 'VALIDATION_FAILED');
+  });
+});
+
+describe('POST /api/generate-mindmap/stream', () => {
+  const events = (text: string) => text.split('\n\n').filter(Boolean).map(block => {
+    const name = /^event: (.*)$/m.exec(block)?.[1];
+    const data = /^data: (.*)$/m.exec(block)?.[1];
+    return { name, data: data ? JSON.parse(data) : undefined };
+  });
+
+  it('streams progress and node events, then the complete map', async () => {
+    const { app } = createTestApp();
+    const response = await request(app).post('/api/generate-mindmap/stream').set(bearer())
+      .send({ aim: 'Backend developer', locale: 'en' });
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toMatch(/^text\/event-stream/);
+    const received = events(response.text);
+    expect(received.map(event => event.name)).toContain('node');
+    const complete = received[received.length - 1];
+    expect(complete.name).toBe('complete');
+    expect(complete.data.dataSource).toBe('ai-validated');
+    isMindMap(complete.data);
+  });
+
+  it('completes with the fallback when the upstream fails', async () => {
+    const { app, stub } = createTestApp();
+    stub.reply('mindmap', { status: 500 });
+    const response = await request(app).post('/api/generate-mindmap/stream').set(bearer())
+      .send({ aim: 'Backend developer', locale: 'en' });
+    const received = events(response.text);
+    expect(received.map(event => event.name)).toContain('progress');
+    expect(received[received.length - 1]).toMatchObject({ name: 'complete', data: { dataSource: 'fallback' } });
+  });
+
+  it('reports retries as events', async () => {
+    const { app, stub, clock } = createTestApp();
+    stub.reply('mindmap', { status: 503 });
+    const response = await request(app).post('/api/generate-mindmap/stream').set(bearer())
+      .send({ aim: 'Backend developer', locale: 'en' });
+    expect(events(response.text).find(event => event.name === 'retry')?.data).toEqual({ attempt: 1, nextDelayMs: 1000 });
+    expect(clock.sleeps).toEqual([1000]);
+  });
+});
+
+describe('response cache', () => {
+  it('serves repeated requests from the cache but never caches fallbacks', async () => {
+    const { app, stub } = createTestApp();
+    const body = { careerTitle: 'Data Analyst', locale: 'en' };
+    stub.reply('careerDetails', { status: 500 });
+    const fallback = await request(app).post('/api/career-details').set(bearer()).send(body);
+    expect(fallback.headers['x-cache']).toBe('MISS');
+    expect(fallback.body.dataSource).toBe('fallback');
+
+    const first = await request(app).post('/api/career-details').set(bearer()).send(body);
+    const second = await request(app).post('/api/career-details').set(bearer()).send(body);
+    expect([first.headers['x-cache'], second.headers['x-cache']]).toEqual(['MISS', 'HIT']);
+    expect(second.body).toEqual(first.body);
+  });
+});
+
+describe('POST /api/skill-gap', () => {
+  it('uses the stored profile and refuses other users\' profiles', async () => {
+    const { app } = createTestApp();
+    expectError(
+      await request(app).post('/api/skill-gap').set(bearer()).send({ careerTitle: 'Backend Developer' }),
+      404,
+      'NOT_FOUND'
+    );
+    expectError(
+      await request(app).post('/api/skill-gap').set(bearer()).send({ careerTitle: 'Backend Developer', profileId: 'someone-else' }),
+      403,
+      'FORBIDDEN'
+    );
+
+    await request(app).put('/api/profile/resume').set(bearer()).set('Content-Type', 'text/plain')
+      .send('Experience\nBackend Developer at Acme (2019 - present)\nSkills\nJava, SQL');
+    const response = await request(app).post('/api/skill-gap').set(bearer()).send({ careerTitle: 'Backend Developer' });
+    expect(response.status).toBe(200);
+    expect(response.body.items.length).toBeGreaterThan(0);
+  });
+});
+
+describe('resume profile', () => {
+  const resume = 'Experience\nBackend Developer at Acme (2019 - present)\nSkills\nJava, SQL, Docker';
+
+  it('imports, returns and deletes the profile', async () => {
+    const { app } = createTestApp();
+    const saved = await request(app).put('/api/profile/resume?locale=en').set(bearer())
+      .set('Content-Type', 'text/plain').send(resume);
+    expect(saved.status).toBe(200);
+    expect(saved.body).toMatchObject({
+      uid: 'user-1',
+      resume: { currentRole: expect.any(String), skills: expect.any(Array) },
+      source: { format: 'text', dataSource: 'ai-validated' }
+    });
+
+    expect((await request(app).get('/api/profile').set(bearer())).body).toEqual(saved.body);
+    expect((await request(app).delete('/api/profile').set(bearer())).status).toBe(204);
+    expectError(await request(app).get('/api/profile').set(bearer()), 404, 'NOT_FOUND');
+  });
+
+  it('reads the resume with rules when the AI fails', async () => {
+    const { app, stub } = createTestApp();
+    stub.reply('resume', { status: 500 });
+    const saved = await request(app).put('/api/profile/resume').set(bearer()).set('Content-Type', 'text/plain').send(resume);
+    expect(saved.status).toBe(200);
+    expect(saved.body.source.dataSource).toBe('fallback');
+    expect(saved.body.resume.skills).toEqual(['Java', 'SQL', 'Docker']);
+  });
+
+  it('rejects unsupported content types', async () => {
+    const { app } = createTestApp();
+    const response = await request(app).put('/api/profile/resume').set(bearer()).set('Content-Type', 'image/png').send('png');
+    expectError(response, 415, 'UNSUPPORTED_MEDIA_TYPE');
+  });
+});
+
+describe('/api/mindmap', () => {
+  const MAP = {
+    title: 'Plan',
+    nodes: [{ id: '1', data: { label: 'Developer' } }, { id: '2', data: { label: 'Tech Lead' } }],
+    edges: [{ source: '1', target: '2' }],
+    layout: 'tree-lr'
+  };
+
+  it('creates, reads, updates, diffs, restores and deletes a map', async () => {
+    const { app } = createTestApp();
+    const created = await request(app).post('/api/mindmap').set(bearer()).send(MAP);
+    expect(created.status).toBe(200);
+    expect(created.body).toEqual({ id: expect.any(String), version: 1 });
+    const id = created.body.id;
+
+    const fetched = await request(app).get(`/api/mindmap/${id}`).set(bearer());
+    expect(fetched.body).toMatchObject({ id, title: 'Plan', version: 1, ownerId: 'user-1' });
+    isMindMap(fetched.body);
+    expect(fetched.body.edges[0].id).toBe('e1-2');
+
+    const patched = await request(app).patch(`/api/mindmap/${id}`).set(bearer()).send({ title: 'Plan B' });
+    expect(patched.body).toMatchObject({ title: 'Plan B', version: 2 });
+
+    const revisions = await request(app).get(`/api/mindmap/${id}/revisions`).set(bearer());
+    expect(revisions.body.map((revision: any) => revision.version)).toEqual([2, 1]);
+
+    const diff = await request(app).get(`/api/mindmap/${id}/diff?from=1`).set(bearer());
+    expect(diff.body).toMatchObject({ from: 1, to: 2 });
+
+    const restored = await request(app).post(`/api/mindmap/${id}/revisions/1/restore`).set(bearer());
+    expect(restored.body).toMatchObject({ title: 'Plan', version: 3 });
+
+    expect((await request(app).delete(`/api/mindmap/${id}`).set(bearer())).status).toBe(204);
+    expectError(await request(app).get(`/api/mindmap/${id}`).set(bearer()), 404, 'NOT_FOUND');
+  });
+
+  it('keeps maps private to their owner', async () => {
+    const { app } = createTestApp();
+    const { body } = await request(app).post('/api/mindmap').set(bearer()).send(MAP);
+    expectError(await request(app).get(`/api/mindmap/${body.id}`).set(bearer('user-2')), 403, 'FORBIDDEN');
+    expect((await request(app).get('/api/mindmap').set(bearer('user-2'))).body).toEqual([]);
+  });
+
+  it('pages the list with X-Next-Cursor', async () => {
+    const { app } = createTestApp();
+    for (const title of ['a', 'b', 'c']) {
+      await request(app).post('/api/mindmap').set(bearer()).send({ ...MAP, title });
+    }
+    const first = await request(app).get('/api/mindmap?limit=2').set(bearer());
+    expect(first.body).toHaveLength(2);
+    const cursor = first.headers['x-next-cursor'];
+    const second = await request(app).get(`/api/mindmap?limit=2&cursor=${cursor}`).set(bearer());
+    expect(second.body).toHaveLength(1);
+    expect(second.headers['x-next-cursor']).toBeUndefined();
+    expectError(await request(app).get('/api/mindmap?cursor=unknown').set(bearer()), 400, 'VALIDATION_FAILED');
+  });
+
+  it('attaches skill gaps to nodes and tracks progress', async () => {
+    const { app } = createTestApp();
+    const { body: map } = await request(app).post('/api/mindmap').set(bearer()).send(MAP);
+    const { body: gap } = await request(app).post('/api/skill-gap').set(bearer())
+      .send({ careerTitle: 'Tech Lead', locale: 'en', profile: PROFILE });
+
+    const attached = await request(app).put(`/api/mindmap/${map.id}/nodes/2/skill-gap`).set(bearer()).send(gap);
+    expect(attached.status).toBe(200);
+    const item = attached.body.items[0];
+    const updated = await request(app).patch(`/api/mindmap/${map.id}/nodes/2/skill-gap/items/${item.id}`).set(bearer())
+      .send({ progress: 'in-progress' });
+    expect(updated.body.items[0].progress).toBe('in-progress');
+    expectError(
+      await request(app).patch(`/api/mindmap/${map.id}/nodes/9/skill-gap/items/${item.id}`).set(bearer()).send({ progress: 'done' }),
+      404,
+      'NOT_FOUND'
+    );
+  });
+
+  it.each(['json', 'graphml', 'mermaid', 'opml', 'freemind', 'markdown'])('round-trips through %s export and import', async format => {
+    const { app } = createTestApp();
+    const { body: created } = await request(app).post('/api/mindmap').set(bearer()).send(MAP);
+    const exported = await request(app).get(`/api/mindmap/${created.id}/export?format=${format}`).set(bearer())
+      .buffer(true).parse((res, done) => {
+        let text = '';
+        res.on('data', chunk => { text += chunk; });
+        res.on('end', () => done(null, text));
+      });
+    expect(exported.status).toBe(200);
+    expect(exported.headers['content-disposition']).toMatch(/^attachment; filename="Plan\./);
+
+    const imported = await request(app).post(`/api/mindmap/import?format=${format}`).set(bearer())
+      .set('Content-Type', 'text/plain').send(exported.body);
+    expect(imported.status).toBe(200);
+    expect(imported.body.nodes.map((node: any) => [node.id, node.data.label])).toEqual([['1', 'Developer'], ['2', 'Tech Lead']]);
+    expect(imported.body.edges).toEqual([{ id: 'e1-2', source: '1', target: '2' }]);
+  });
+
+  it('rejects documents it cannot read', async () => {
+    const { app } = createTestApp();
+    const response = await request(app).post('/api/mindmap/import?format=opml').set(bearer())
+      .set('Content-Type', 'text/plain').send('<opml><body>');
+    expectError(response, 400, 'VALIDATION_FAILED');
+  });
+});
+
+describe('usage, quotas and rate limits', () => {
+  it('charges model tokens to the caller', async () => {
+    const { app } = createTestApp();
+    await request(app).post('/api/suggestions').set(bearer()).send({ nodeContent: 'Backend Developer' });
+    const usage = await request(app).get('/api/usage').set(bearer());
+    expect(usage.body.day).toMatchObject({ requests: 1, routes: { suggestions: expect.any(Number) } });
+    expect(usage.body.day.totalTokens).toBeGreaterThan(0);
+  });
+
+  it('rejects AI requests once the quota is used up', async () => {
+    const { app } = createTestApp({ usage: { limits: { day: 1, month: 0 } } });
+    await request(app).post('/api/suggestions').set(bearer()).send({ nodeContent: 'Backend Developer' });
+    const response = await request(app).post('/api/suggestions').set(bearer()).send({ nodeContent: 'Data Analyst' });
+    expectError(response, 429, 'QUOTA_EXCEEDED');
+    expect(response.headers['retry-after']).toEqual(expect.any(String));
+  });
+
+  it('caps the suggestion calls of one graph expansion and stops when the quota runs out between tiers', async () => {
+    const graph = { nodes: [{ id: '1', data: { label: 'Backend Developer' } }], edges: [], nodeId: '1', locale: 'en' };
+    const wide = createTestApp();
+    // Twelve new titles per call, so every tier is full
+    const titles = (call: number) => JSON.stringify(Array.from({ length: 12 }, (_value, index) => `Platform Engineer ${call}-${index}`));
+    wide.stub.reply('suggestions', ...Array.from({ length: 90 }, (_value, call) => titles(call)));
+    const capped = await request(wide.app).post('/api/expand-graph').set(bearer()).send({ ...graph, level: 3, breadth: 12 });
+    expect(capped.body.truncated).toBe(true);
+    expect(wide.stub.requests).toHaveLength(MAX_SUGGESTION_CALLS);
+    expect(capped.body.nodes).toHaveLength(12 + 12 * 6 + (MAX_SUGGESTION_CALLS - 13) * 6);
+
+    const { app, stub } = createTestApp({ usage: { limits: { day: 1, month: 0 } } });
+    const stopped = await request(app).post('/api/expand-graph').set(bearer()).send({ ...graph, level: 3 });
+    expect(stopped.status).toBe(200);
+    expect(stopped.body).toMatchObject({ truncated: true, edges: expect.any(Array) });
+    stopped.body.edges.forEach((edge: any) => expect(edge.source).toBe('1'));
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it('rate limits saves that re-layout the map, but not plain saves', async () => {
+    const { app } = createTestApp({
+      usage: { rateLimits: { ip: { windowSeconds: 60, max: 0 }, user: { windowSeconds: 60, max: 1 } } }
+    });
+    const nodes = [{ id: '1', data: { label: 'Developer' }, position: { x: 0, y: 0 } }];
+    const save = (body: Record<string, unknown>) => request(app).post('/api/mindmap').set(bearer()).send({ nodes, edges: [], ...body });
+    expect((await save({ layout: 'force' })).status).toBe(200);
+    expectError(await save({ layout: 'force' }), 429, 'RATE_LIMITED');
+    expect((await save({})).status).toBe(200);
+  });
+
+  it('rate limits per user', async () => {
+    const { app } = createTestApp({
+      usage: { rateLimits: { ip: { windowSeconds: 60, max: 0 }, user: { windowSeconds: 60, max: 1 } } }
+    });
+    await request(app).post('/api/suggestions').set(bearer()).send({ nodeContent: 'Backend Developer' });
+    const response = await request(app).post('/api/suggestions').set(bearer()).send({ nodeContent: 'Data Analyst' });
+    expectError(response, 429, 'RATE_LIMITED');
+    expect(response.body.details).toMatchObject({ scope: 'user', limit: 1 });
+  });
+});
+
+describe('/api/admin/taxonomy', () => {
+  const barista = {
+    names: { ko: '바리스타', en: 'Barista' },
+    aliases: ['Coffee Maker'],
+    parent: 'business',
+    salary: { en: { currency: 'USD', period: 'year', bands: [{ level: 'entry', min: 30000, max: 40000 }] } }
+  };
+
+  it('adds roles that the fallbacks use at once', async () => {
+    const { app, stub } = createTestApp();
+    const created = await request(app).put('/api/admin/taxonomy/roles/barista').set(bearer('admin')).send(barista);
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ role: { id: 'barista', next: [] }, revision: 1 });
+
+    const match = await request(app).get('/api/admin/taxonomy/match?title=coffee%20maker').set(bearer('admin'));
+    expect(match.body.match).toMatchObject({ id: 'barista', term: 'Coffee Maker', score: 1 });
+
+    stub.reply('careerDetails', { status: 500 });
+    const details = await request(app).post('/api/career-details').set(bearer())
+      .send({ careerTitle: 'Senior Barista', locale: 'en' });
+    expect(details.body).toMatchObject({ dataSource: 'fallback', salary: { bands: [{ min: 30000, max: 40000 }] } });
+
+    const updated = await request(app).put('/api/admin/taxonomy/roles/barista').set(bearer('admin')).send(barista);
+    expect(updated.status).toBe(200);
+    const taxonomy = await request(app).get('/api/admin/taxonomy').set(bearer('admin'));
+    expect(taxonomy.body).toMatchObject({ version: 2, revision: 2, updatedBy: 'admin' });
+  });
+
+  it('rejects roles that do not fit and removals that would break relations', async () => {
+    const { app } = createTestApp();
+    const unknownParent = await request(app).put('/api/admin/taxonomy/roles/barista').set(bearer('admin'))
+      .send({ ...barista, parent: 'hospitality' });
+    expectError(unknownParent, 400, 'VALIDATION_FAILED');
+    expectError(await request(app).put('/api/admin/taxonomy/roles/Barista!').set(bearer('admin')).send(barista), 400, 'VALIDATION_FAILED');
+    expectError(await request(app).put('/api/admin/taxonomy/roles/barista').set(bearer('admin'))
+      .send({ names: { en: 'Barista' } }), 400, 'VALIDATION_FAILED');
+    expectError(await request(app).delete('/api/admin/taxonomy/roles/tech-lead').set(bearer('admin')), 409, 'CONFLICT');
+    expectError(await request(app).delete('/api/admin/taxonomy/roles/barista').set(bearer('admin')), 404, 'NOT_FOUND');
+    expect((await request(app).delete('/api/admin/taxonomy/roles/motion-designer').set(bearer('admin'))).status).toBe(204);
+  });
+
+  it('is admin only', async () => {
+    const { app } = createTestApp();
+    expectError(await request(app).get('/api/admin/taxonomy').set(bearer()), 403, 'FORBIDDEN');
+  });
+});
+
+describe('errors', () => {
+  it('answers unknown routes with the error envelope', async () => {
+    const { app } = createTestApp();
+    expectError(await request(app).get('/api/unknown'), 404, 'NOT_FOUND');
+  });
+
+  it('reports malformed JSON bodies', async () => {
+    const { app } = createTestApp();
+    const response = await request(app).post('/api/suggestions').set(bearer())
+      .set('Content-Type', 'application/json').send('{"nodeContent": ');
+    expectError(response, 400, 'INVALID_JSON');
+  });
+
+  it('restricts admin routes', async () => {
+    const { app } = createTestApp();
+    expectError(await request(app).post('/api/admin/cache/invalidate').set(bearer()).send({}), 403, 'FORBIDDEN');
+    const response = await request(app).post('/api/admin/cache/invalidate').set(bearer('admin')).send({});
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ invalidated: expect.any(Number) });
+  });
+
+  it('answers the status route without authentication', async () => {
+    const { app } = createTestApp();
+    const response = await request(app).get('/');
+    expect(response.status).toBe(200);
+    expect(response.text).toBe('GrowGraph API is running');
+  });
+});
@@ -0,0 +1,298 @@
+import express from 'express';
+import cors from 'cors';
+import { LLMClient } from './llm/client';
+import { ResponseCache } from './cache';
+import { createAdminRouter } from './routes/admin';
+import { createExpansionRouter } from './routes/expansion';
+import { createHealthRouter } from './routes/health';
+import { createMindMapRouter } from './routes/mindmaps';
+import { createMindMapStreamRouter } from './routes/mindmapStream';
+import { createPersonalityRouter } from './routes/personality';
+import { choosePrompt, PromptRegistry } from './prompts/registry';
+import { generateMindMap, MindMapInput } from './careers/mindmap';
+import { fetchCareerDetails } from './careers/details';
+import { fetchCareerPaths } from './careers/paths';
+import { planCareerPath } from './careers/careerPath';
+import { analyzeSkillGap } from './careers/skillGap';
+import { TaxonomyEditor } from './careers/taxonomy';
+import { CollaborationHub } from './collaboration';
+import { fetchSuggestions } from './careers/suggestions';
+import { createRequireAdmin, createRequireAuth, currentUser } from './auth/middleware';
+import { TokenVerifier } from './auth/types';
+import { createUsageRouter } from './routes/usage';
+import { createProfileRouter, createResumeRouter } from './routes/profile';
+import { loadResume } from './profiles/store';
+import { Storage } from './storage';
+import { createEnforceQuota, createRateLimit, currentUsageUser, hasQuotaLeft, UsageSettings, usageContext } from './usage';
+import { getLocale, Locale } from './locales';
+import {
+  careerDetailsRequestSchema,
+  careerPathRequestSchema,
+  expandCareerRequestSchema,
+  GenerateMindMapRequest,
+  generateMindMapSchema,
+  skillGapRequestSchema,
+  suggestionsRequestSchema
+} from './schemas/requests';
+import { errorHandler, notFoundHandler, sendError, sendInternalError } from './http/errors';
+import { requestId } from './http/requestId';
+import { Shutdown } from './http/shutdown';
+import { validate } from './http/validate';
+import { createMetricsHandler, logger, observeRequests } from './observability';
+
+export type AppDependencies = {
+  llm: LLMClient;
+  storage: Pick<Storage, 'mindMaps' | 'profiles' | 'check'>;
+  cache: ResponseCache;
+  usage: UsageSettings;
+  // Career taxonomy behind the offline fallbacks; admins edit it through /api/admin/taxonomy
+  taxonomy: TaxonomyEditor;
+  // Prompt templates of the AI routes and the experiments between their versions; admins reload them
+  prompts: PromptRegistry;
+  // Live editing sessions (served on the HTTP server's upgrade event); REST writes to a live map get 409
+  collaboration: Pick<CollaborationHub, 'isLive' | 'dropNonMembers'>;
+  verifier: TokenVerifier;
+  adminUids: string[];
+  // Bearer token Prometheus must send to GET /metrics; without one the endpoint is open
+  metricsToken?: string;
+  // Express `trust proxy` setting; behind a proxy (e.g. Vercel) per-IP rate limits need X-Forwarded-For
+  trustProxy?: string | number;
+  // Origins allowed by CORS; empty or missing allows any
+  corsOrigins?: string[];
+  // In-flight AI requests are tracked so a stopping server can finish them; new ones get 503
+  shutdown: Shutdown;
+  // Per check behind GET /readyz
+  readinessTimeoutMs?: number;
+};
+
+// The API with every route mounted. index.ts builds the dependencies from the environment and
+// starts listening; tests pass stubs instead.
+export const createApp = ({
+  llm,
+  storage,
+  cache,
+  usage,
+  taxonomy,
+  prompts,
+  collaboration,
+  verifier,
+  adminUids,
+  metricsToken,
+  trustProxy,
+  corsOrigins,
+  shutdown,
+  readinessTimeoutMs = 3000
+}: AppDependencies) => {
+  const app = express();
+  if (trustProxy !== undefined) app.set('trust proxy', trustProxy);
+
+  // Bearer token verification for everything except the status, probe and metrics routes
+  const requireAuth = createRequireAuth(verifier);
+
+  // Middleware
+  app.use(requestId);
+  app.use(observeRequests);
+  app.use(cors({
+    origin: corsOrigins?.length ? corsOrigins : true,
+    exposedHeaders: ['X-Request-Id', 'X-Next-Cursor', 'X-Cache', 'Retry-After']
+  }));
+  app.use(express.json());
+
+  // Fallbacks are served but never cached, so the next request retries the AI.
+  // The user's prompt version is part of the input: experiment variants are cached apart
+  const isCacheable = (result: { dataSource: string }) => result.dataSource !== 'fallback';
+  const cachedSuggestions = (nodeContent: string, locale: Locale, uid?: string) => {
+    const { template } = choosePrompt('suggestions', uid);
+    return cache.wrap(
+      'suggestions',
+      { nodeContent, locale, promptVersion: template.version },
+      () => fetchSuggestions(llm, nodeContent, locale, template),
+      isCacheable
+    );
+  };
+  const cachedCareerDetails = (careerTitle: string, locale: Locale, uid?: string) => {
+    const { template } = choosePrompt('careerDetails', uid);
+    return cache.wrap(
+      'careerDetails',
+      { careerTitle, locale, promptVersion: template.version },
+      () => fetchCareerDetails(llm, careerTitle, locale, template),
+      isCacheable
+    );
+  };
+
+  // IP limits run before auth so unauthenticated floods are cut off early; during shutdown new AI requests are refused first
+  const aiRoute = [
+    shutdown.track,
+    createRateLimit('ip', usage.rateLimits.ip),
+    requireAuth,
+    createRateLimit('user', usage.rateLimits.user),
+    createEnforceQuota(usage.ledger, usage.limits),
+    usageContext
+  ];
+
+  const requireAdmin = createRequireAdmin(adminUids);
+
+  // Routes
+  app.get('/', (req, res) => {
+    res.send('GrowGraph API is running');
+  });
+
+  // Liveness and readiness probes (storage and model backends)
+  app.use(createHealthRouter({ storage, llm, shutdown, timeoutMs: readinessTimeoutMs }));
+
+  // Prometheus metrics: request and AI latency, retries, tokens, fallback and parse-failure counts
+  app.get('/metrics', createMetricsHandler(metricsToken));
+
+  // Generate mind map from user input
+  app.post('/api/generate-mindmap', aiRoute, validate({ body: generateMindMapSchema }), async (req, res) => {
+    try {
+      const request: GenerateMindMapRequest = req.body;
+      logger.debug('Generating mind map', { request });
+
+      const layoutMode = request.layout;
+
+      // 사용자가 원하는 경우 중앙 노드만 반환하거나, 전체 마인드맵 생성
+      if (request.centerOnly) {
+        res.json({
+          nodes: [
+            { 
+              id: 'root', 
+              data: { label: request.jobPath || request.aim || getLocale(request.locale).fallbacks.mindMapRoot },
+              position: { x: 0, y: 0 } 
+            }
+          ],
+          edges: []
+        });
+        return;
+      }
+
+      // The imported resume makes generated roles start from where the person is now
+      const uid = currentUser(req).uid;
+      const userData: MindMapInput = {
+        ...request,
+        resume: request.useProfile ? await loadResume(storage.profiles, uid) : undefined
+      };
+      const { template } = choosePrompt('mindmap', uid);
+      res.json(await generateMindMap(llm, userData, layoutMode, request.locale, template));
+    } catch (error) {
+      sendInternalError(res, 'Failed to generate mind map', error);
+    }
+  });
+
+  // Streaming variant of /api/generate-mindmap (Server-Sent Events)
+  app.use('/api/generate-mindmap/stream', aiRoute, createMindMapStreamRouter(llm, storage.profiles));
+
+  // Saved mind maps: CRUD, revisions, diffs and sharing
+  app.use('/api/mindmap', requireAuth, createMindMapRouter(storage.mindMaps, collaboration, createRateLimit('user', usage.rateLimits.user)));
+
+  // Get AI suggestions
+  app.post('/api/suggestions', aiRoute, validate({ body: suggestionsRequestSchema }), async (req, res) => {
+    try {
+      const { nodeContent, locale } = req.body;
+
+      const { value, status } = await cachedSuggestions(nodeContent, locale, currentUser(req).uid);
+      res.setHeader('X-Cache', status);
+      res.json(value);
+    } catch (error) {
+      sendInternalError(res, 'Failed to generate suggestions', error);
+    }
+  });
+
+  // Expand a node into a subgraph that can be merged into the client's map (usageContext knows the caller).
+  // Each tier costs AI calls, so the quota is checked again before the next one.
+  app.use('/api/expand-graph', aiRoute, createExpansionRouter(
+    (label, locale) => cachedSuggestions(label, locale, currentUsageUser()).then(({ value }) => value),
+    () => hasQuotaLeft(usage.ledger, usage.limits, currentUsageUser())
+  ));
+
+  // Get career details
+  app.post('/api/career-details', aiRoute, validate({ body: careerDetailsRequestSchema }), async (req, res) => {
+    try {
+      const { careerTitle, locale } = req.body;
+
+      const { value, status } = await cachedCareerDetails(careerTitle, locale, currentUser(req).uid);
+      res.setHeader('X-Cache', status);
+      res.json(value);
+    } catch (error) {
+      sendInternalError(res, 'Failed to generate career details', error);
+    }
+  });
+
+  // Expand career node
+  app.post('/api/expand-career', aiRoute, validate({ body: expandCareerRequestSchema }), async (req, res) => {
+    try {
+      const { careerTitle, level, locale } = req.body;
+
+      const { template } = choosePrompt('expandCareer', currentUser(req).uid);
+      const { value, status } = await cache.wrap(
+        'expandCareer',
+        { careerTitle, level, locale, promptVersion: template.version },
+        () => fetchCareerPaths(llm, careerTitle, level, locale, template),
+        isCacheable
+      );
+      res.setHeader('X-Cache', status);
+      res.json(value);
+    } catch (error) {
+      sendInternalError(res, 'Failed to expand career node', error);
+    }
+  });
+
+  // Shortest realistic route between two roles, as a mind map chain
+  app.post('/api/career-path', aiRoute, validate({ body: careerPathRequestSchema }), async (req, res) => {
+    try {
+      const { currentRole, targetRole, layout, locale } = req.body;
+
+      const { value, status } = await cache.wrap(
+        'careerPath',
+        { currentRole, targetRole, layout, locale },
+        () => planCareerPath(llm, currentRole, targetRole, layout, locale),
+        isCacheable
+      );
+      res.setHeader('X-Cache', status);
+      res.json(value);
+    } catch (error) {
+      sendInternalError(res, 'Failed to plan career path', error);
+    }
+  });
+
+  // Which requirements of a career a profile meets, with learning time and next steps per gap
+  app.post('/api/skill-gap', aiRoute, validate({ body: skillGapRequestSchema }), async (req, res) => {
+    try {
+      const { careerTitle, profile, profileId, locale } = req.body;
+      const uid = currentUser(req).uid;
+      if (profileId && profileId !== uid) {
+        sendError(res, 403, 'FORBIDDEN', 'Only your own stored profile can be used');
+        return;
+      }
+      const resume = profile ?? (await storage.profiles.get(uid))?.resume;
+      if (!resume) {
+        sendError(res, 404, 'NOT_FOUND', 'No profile was sent and none has been imported');
+        return;
+      }
+
+      const { value: details } = await cachedCareerDetails(careerTitle, locale, uid);
+      res.json(await analyzeSkillGap(llm, careerTitle, details, resume, locale));
+    } catch (error) {
+      sendInternalError(res, 'Failed to analyze skill gap', error);
+    }
+  });
+
+  // Resume import and the caller's stored profile
+  app.use('/api/profile/resume', aiRoute, createResumeRouter(storage.profiles, llm));
+  app.use('/api/profile', requireAuth, createProfileRouter(storage.profiles));
+
+  // Personality questionnaire; the scored profile feeds role-fit scores in generated mind maps
+  app.use('/api/personality', requireAuth, createPersonalityRouter());
+
+  // Token consumption and remaining quota of the caller
+  app.use('/api/usage', requireAuth, createUsageRouter(usage.ledger, usage.limits));
+
+  // Admin-only maintenance endpoints
+  app.use('/api/admin', requireAuth, requireAdmin, createAdminRouter(cache, taxonomy, prompts));
+
+  // Unknown routes and errors thrown outside handlers (e.g. malformed JSON) use the same error envelope
+  app.use(notFoundHandler);
+  app.use(errorHandler);
+
+  return app;
+};
@@ -0,0 +1,86 @@
+import crypto from 'crypto';
+import { AuthUser } from './types';
+
+export type DecodedJwt = {
+  header: Record<string, any>;
+  payload: Record<string, any>;
+  signingInput: string;
+  signature: Buffer;
+};
+
+// Allowed clock drift between us and the token issuer
+const CLOCK_SKEW_SECONDS = 60;
+
+const base64UrlJson = (segment: string) => JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+
+export const decodeJwt = (token: string): DecodedJwt => {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Malformed token');
+  }
+  try {
+    return {
+      header: base64UrlJson(parts[0]),
+      payload: base64UrlJson(parts[1]),
+      signingInput: `${parts[0]}.${parts[1]}`,
+      signature: Buffer.from(parts[2], 'base64url')
+    };
+  } catch {
+    throw new Error('Malformed token');
+  }
+};
+
+// Standard time and subject checks shared by every verifier
+export const checkClaims = (payload: Record<string, any>, now = Math.floor(Date.now() / 1000)) => {
+  if (typeof payload.sub !== 'string' || !payload.sub) {
+    throw new Error('Token has no subject');
+  }
+  if (typeof payload.exp === 'number' && payload.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new Error('Token has expired');
+  }
+  if (typeof payload.iat === 'number' && payload.iat - CLOCK_SKEW_SECONDS > now) {
+    throw new Error('Token was issued in the future');
+  }
+};
+
+export const toAuthUser = (payload: Record<string, any>): AuthUser => ({
+  uid: payload.sub,
+  email: typeof payload.email === 'string' ? payload.email : undefined,
+  name: typeof payload.name === 'string' ? payload.name : undefined,
+  claims: payload
+});
+
+const hmac = (input: string, secret: string) => crypto.createHmac('sha256', secret).update(input).digest();
+
+// HS256 signing for locally issued tokens (tests and development)
+export const signLocalToken = (
+  claims: { sub: string; [key: string]: unknown },
+  secret: string,
+  expiresInSeconds = 3600
+): string => {
+  const now = Math.floor(Date.now() / 1000);
+  const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+  const payload = Buffer.from(JSON.stringify({ iat: now, exp: now + expiresInSeconds, ...claims })).toString('base64url');
+  const signature = hmac(`${header}.${payload}`, secret).toString('base64url');
+  return `${header}.${payload}.${signature}`;
+};
+
+export const verifyHs256 = (decoded: DecodedJwt, secret: string) => {
+  if (decoded.header.alg !== 'HS256') {
+    throw new Error(`Unsupported token algorithm: ${decoded.header.alg}`);
+  }
+  const expected = hmac(decoded.signingInput, secret);
+  if (expected.length !== decoded.signature.length || !crypto.timingSafeEqual(expected, decoded.signature)) {
+    throw new Error('Invalid token signature');
+  }
+};
+
+export const verifyRs256 = (decoded: DecodedJwt, publicKeyOrCert: string) => {
+  if (decoded.header.alg !== 'RS256') {
+    throw new Error(`Unsupported token algorithm: ${decoded.header.alg}`);
+  }
+  const valid = crypto.createVerify('RSA-SHA256').update(decoded.signingInput).verify(publicKeyOrCert, decoded.signature);
+  if (!valid) {
+    throw new Error('Invalid token signature');
+  }
+};
@@ -0,0 +1,42 @@
+import { NextFunction, Request, Response } from 'express';
+import { sendError } from '../http/errors';
+import { logger } from '../observability/logger';
+import { AuthUser, TokenVerifier } from './types';
+
+const BEARER = /^Bearer\s+(.+)$/i;
+
+// Rejects requests without a valid bearer token and attaches the caller as req.user
+export const createRequireAuth = (verifier: TokenVerifier) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    const match = BEARER.exec(req.header('authorization') || '');
+    if (!match) {
+      sendError(res, 401, 'UNAUTHENTICATED', 'Missing bearer token');
+      return;
+    }
+    try {
+      req.user = await verifier(match[1].trim());
+      next();
+    } catch (error: any) {
+      logger.warn('Rejected bearer token', { error: error.message });
+      sendError(res, 401, 'UNAUTHENTICATED', 'Invalid or expired token');
+    }
+  };
+
+// For handlers mounted behind requireAuth
+export const currentUser = (req: Request): AuthUser => {
+  if (!req.user) {
+    throw new Error('currentUser() used on a route without requireAuth');
+  }
+  return req.user;
+};
+
+// Admins are listed by uid (ADMIN_UIDS) or carry an `admin: true` custom claim
+export const createRequireAdmin = (adminUids: string[]) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const user = req.user;
+    if (!user || !(user.claims.admin === true || adminUids.indexOf(user.uid) !== -1)) {
+      sendError(res, 403, 'FORBIDDEN', 'Admin access required');
+      return;
+    }
+    next();
+  };
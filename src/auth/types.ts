@@ -0,0 +1,19 @@
+// Identity attached to authenticated requests
+export type AuthUser = {
+  uid: string;
+  email?: string;
+  name?: string;
+  // Raw verified claims, for routes that need provider-specific fields
+  claims: Record<string, unknown>;
+};
+
+// Verifies a bearer token and resolves the caller, or rejects if the token is invalid
+export type TokenVerifier = (token: string) => Promise<AuthUser>;
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
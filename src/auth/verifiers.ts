@@ -0,0 +1,76 @@
+import { createEnvReader, Env } from '../config/env';
+import { checkClaims, decodeJwt, toAuthUser, verifyHs256, verifyRs256 } from './jwt';
+import { TokenVerifier } from './types';
+
+// Google publishes the X.509 certificates used to sign Firebase ID tokens here
+const FIREBASE_CERTS_URL = 'https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com';
+
+type CertCache = { certs: Record<string, string>; expiresAt: number };
+
+// Verifies Firebase Auth ID tokens without the Admin SDK
+export const createFirebaseTokenVerifier = (
+  projectId: string,
+  fetchCerts: () => Promise<Response> = () => fetch(FIREBASE_CERTS_URL)
+): TokenVerifier => {
+  let cache: CertCache | null = null;
+
+  const getCerts = async (): Promise<Record<string, string>> => {
+    if (cache && cache.expiresAt > Date.now()) return cache.certs;
+    const response = await fetchCerts();
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Firebase signing certificates (${response.status})`);
+    }
+    const maxAge = /max-age=(\d+)/.exec(response.headers.get('cache-control') || '');
+    cache = {
+      certs: await response.json(),
+      expiresAt: Date.now() + (maxAge ? parseInt(maxAge[1], 10) * 1000 : 60 * 60 * 1000)
+    };
+    return cache.certs;
+  };
+
+  return async (token: string) => {
+    const decoded = decodeJwt(token);
+    const cert = (await getCerts())[decoded.header.kid];
+    if (!cert) {
+      throw new Error('Token was signed with an unknown key');
+    }
+    verifyRs256(decoded, cert);
+    checkClaims(decoded.payload);
+    if (decoded.payload.aud !== projectId) {
+      throw new Error('Token audience does not match this project');
+    }
+    if (decoded.payload.iss !== `https://securetoken.google.com/${projectId}`) {
+      throw new Error('Token issuer does not match this project');
+    }
+    return toAuthUser(decoded.payload);
+  };
+};
+
+// Verifies HS256 tokens signed with a shared secret (see signLocalToken)
+export const createLocalTokenVerifier = (secret: string): TokenVerifier => async (token: string) => {
+  const decoded = decodeJwt(token);
+  verifyHs256(decoded, secret);
+  checkClaims(decoded.payload);
+  return toAuthUser(decoded.payload);
+};
+
+export const AUTH_VERIFIERS = ['firebase', 'local'] as const;
+
+export type AuthConfig =
+  | { verifier: 'firebase'; projectId: string }
+  | { verifier: 'local'; secret: string };
+
+// AUTH_VERIFIER=firebase (default when FIREBASE_PROJECT_ID is set) or local (needs AUTH_LOCAL_SECRET)
+export const loadAuthConfig = (env: Env = process.env): AuthConfig => {
+  const read = createEnvReader(env);
+  const verifier = read.oneOf('AUTH_VERIFIER', AUTH_VERIFIERS, env.FIREBASE_PROJECT_ID ? 'firebase' : 'local');
+  const projectId = read.optionalText('FIREBASE_PROJECT_ID');
+  const secret = read.optionalText('AUTH_LOCAL_SECRET');
+  if (verifier === 'firebase') read.require(Boolean(projectId), 'FIREBASE_PROJECT_ID is required for AUTH_VERIFIER=firebase');
+  else read.require(Boolean(secret), 'AUTH_LOCAL_SECRET is required for AUTH_VERIFIER=local');
+  read.done();
+  return verifier === 'firebase' ? { verifier, projectId: projectId as string } : { verifier, secret: secret as string };
+};
+
+export const createTokenVerifierFromConfig = (config: AuthConfig): TokenVerifier =>
+  config.verifier === 'firebase' ? createFirebaseTokenVerifier(config.projectId) : createLocalTokenVerifier(config.secret);
@@ -0,0 +1,62 @@
+import crypto from 'crypto';
+import {
+  collection,
+  deleteDoc,
+  doc,
+  Firestore,
+  getDoc,
+  getDocs,
+  query,
+  QueryConstraint,
+  setDoc,
+  where,
+  writeBatch
+} from 'firebase/firestore';
+import { LLMRoute } from '../llm/types';
+import { CacheEntry, CacheStore } from './types';
+
+const AI_CACHE = 'aiCache';
+// Firestore batches are limited to 500 writes
+const BATCH_SIZE = 500;
+
+// Keys can contain '/', which Firestore does not allow in document ids
+const docId = (key: string) => crypto.createHash('sha256').update(key).digest('hex');
+
+export const createFirestoreCacheStore = (db: Firestore): CacheStore => {
+  const ref = (key: string) => doc(db, AI_CACHE, docId(key));
+
+  const get = async (key: string) => {
+    const snapshot = await getDoc(ref(key));
+    if (!snapshot.exists()) return undefined;
+    const entry = snapshot.data() as CacheEntry & { key: string };
+    if (entry.expiresAt <= Date.now()) {
+      await deleteDoc(snapshot.ref);
+      return undefined;
+    }
+    return { route: entry.route, value: entry.value, createdAt: entry.createdAt, expiresAt: entry.expiresAt };
+  };
+
+  const set = async (key: string, entry: CacheEntry) => {
+    await setDoc(ref(key), { key, ...entry });
+  };
+
+  const remove = async (key: string) => {
+    const snapshot = await getDoc(ref(key));
+    if (!snapshot.exists()) return false;
+    await deleteDoc(snapshot.ref);
+    return true;
+  };
+
+  const clear = async (route?: LLMRoute) => {
+    const constraints: QueryConstraint[] = route ? [where('route', '==', route)] : [];
+    const snapshot = await getDocs(query(collection(db, AI_CACHE), ...constraints));
+    for (let i = 0; i < snapshot.docs.length; i += BATCH_SIZE) {
+      const batch = writeBatch(db);
+      snapshot.docs.slice(i, i + BATCH_SIZE).forEach(entry => batch.delete(entry.ref));
+      await batch.commit();
+    }
+    return snapshot.docs.length;
+  };
+
+  return { get, set, delete: remove, clear };
+};
@@ -0,0 +1,62 @@
+import { Firestore } from 'firebase/firestore';
+import { createEnvReader, Env } from '../config/env';
+import { LLM_ROUTES, ROUTE_ENV_KEYS } from '../llm/config';
+import { PROMPT_VERSIONS } from '../llm/promptVersions';
+import { LLMRoute } from '../llm/types';
+import { createFirestoreCacheStore } from './firestoreStore';
+import { createMemoryCacheStore } from './memoryStore';
+import { createResponseCache } from './responseCache';
+import { CacheStore } from './types';
+
+export { CacheStatus } from './types';
+export { ResponseCache } from './responseCache';
+
+export const CACHE_BACKENDS = ['memory', 'firestore', 'none'] as const;
+
+export type CacheConfig = {
+  backend: typeof CACHE_BACKENDS[number];
+  maxEntries: number;
+  ttlSeconds: Record<LLMRoute, number>;
+};
+
+// Mind maps, resumes and skill gaps are personal, so they are not cached by default
+const DEFAULT_TTL_SECONDS: Record<LLMRoute, number> = {
+  mindmap: 0,
+  suggestions: 6 * 60 * 60,
+  careerDetails: 24 * 60 * 60,
+  expandCareer: 6 * 60 * 60,
+  careerPath: 24 * 60 * 60,
+  resume: 0,
+  skillGap: 0
+};
+
+// CACHE_BACKEND=memory (default) | firestore | none; CACHE_MAX_ENTRIES; CACHE_TTL_<ROUTE>=seconds
+export const loadCacheConfig = (env: Env = process.env): CacheConfig => {
+  const read = createEnvReader(env);
+  const backend = read.oneOf('CACHE_BACKEND', CACHE_BACKENDS, 'memory');
+  const maxEntries = read.number('CACHE_MAX_ENTRIES', 1000, { min: 1, integer: true });
+  const ttlSeconds = {} as Record<LLMRoute, number>;
+  LLM_ROUTES.forEach(route => {
+    ttlSeconds[route] = read.number(`CACHE_TTL_${ROUTE_ENV_KEYS[route]}`, DEFAULT_TTL_SECONDS[route], { min: 0 });
+  });
+  read.done();
+  return { backend, maxEntries, ttlSeconds };
+};
+
+// The firestore backend needs the Firestore of STORAGE_BACKEND=firestore
+export const createResponseCacheFromConfig = (db: Firestore | null, { backend, maxEntries, ttlSeconds }: CacheConfig) => {
+  let store: CacheStore | null;
+  switch (backend) {
+    case 'memory':
+      store = createMemoryCacheStore(maxEntries);
+      break;
+    case 'firestore':
+      if (!db) throw new Error('CACHE_BACKEND=firestore needs STORAGE_BACKEND=firestore');
+      store = createFirestoreCacheStore(db);
+      break;
+    case 'none':
+      store = null;
+      break;
+  }
+  return createResponseCache({ store, ttlSeconds, promptVersions: PROMPT_VERSIONS });
+};
@@ -0,0 +1,39 @@
+import { LLMRoute } from '../llm/types';
+import { CacheEntry, CacheStore } from './types';
+
+// Map-backed store; insertion order doubles as LRU order
+export const createMemoryCacheStore = (maxEntries = 1000): CacheStore => {
+  const entries = new Map<string, CacheEntry>();
+
+  const get = async (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return undefined;
+    entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return undefined;
+    entries.set(key, entry);
+    return entry;
+  };
+
+  const set = async (key: string, entry: CacheEntry) => {
+    entries.delete(key);
+    entries.set(key, entry);
+    while (entries.size > maxEntries) {
+      entries.delete(entries.keys().next().value as string);
+    }
+  };
+
+  const remove = async (key: string) => entries.delete(key);
+
+  const clear = async (route?: LLMRoute) => {
+    let removed = 0;
+    Array.from(entries.entries()).forEach(([key, entry]) => {
+      if (!route || entry.route === route) {
+        entries.delete(key);
+        removed++;
+      }
+    });
+    return removed;
+  };
+
+  return { get, set, delete: remove, clear };
+};
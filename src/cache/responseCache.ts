@@ -0,0 +1,98 @@
+import { LLMRoute } from '../llm/types';
+import { logger } from '../observability/logger';
+import { CacheStatus, CacheStore } from './types';
+
+export type ResponseCacheOptions = {
+  store: CacheStore | null;
+  // Seconds per route; 0 or missing disables caching (in-flight sharing still applies)
+  ttlSeconds: Partial<Record<LLMRoute, number>>;
+  // Prompt version per route; routes without one carry the version in their input
+  promptVersions: Partial<Record<LLMRoute, string>>;
+};
+
+export type CachedResult<T> = { value: T; status: CacheStatus };
+
+export type ResponseCache = {
+  wrap: <T>(
+    route: LLMRoute,
+    input: unknown,
+    compute: () => Promise<T>,
+    // Lets callers skip storing results such as fallbacks
+    shouldStore?: (value: T) => boolean
+  ) => Promise<CachedResult<T>>;
+  invalidate: (route?: LLMRoute, input?: unknown) => Promise<number>;
+};
+
+// Case, Unicode form and whitespace differences should not produce separate entries
+const normalizeInput = (input: unknown): unknown => {
+  if (typeof input === 'string') {
+    return input.normalize('NFKC').trim().replace(/\s+/g, ' ').toLowerCase();
+  }
+  if (Array.isArray(input)) return input.map(normalizeInput);
+  if (input && typeof input === 'object') {
+    const normalized: Record<string, unknown> = {};
+    Object.keys(input).sort().forEach(key => {
+      normalized[key] = normalizeInput((input as Record<string, unknown>)[key]);
+    });
+    return normalized;
+  }
+  return input;
+};
+
+export const createResponseCache = (options: ResponseCacheOptions): ResponseCache => {
+  const { store, ttlSeconds, promptVersions } = options;
+  const inflight = new Map<string, Promise<unknown>>();
+
+  const cacheKey = (route: LLMRoute, input: unknown) =>
+    `${route}:${promptVersions[route] ? `v${promptVersions[route]}:` : ''}${JSON.stringify(normalizeInput(input))}`;
+
+  const wrap = async <T>(
+    route: LLMRoute,
+    input: unknown,
+    compute: () => Promise<T>,
+    shouldStore: (value: T) => boolean = () => true
+  ): Promise<CachedResult<T>> => {
+    const key = cacheKey(route, input);
+    const ttl = ttlSeconds[route] || 0;
+    const enabled = Boolean(store) && ttl > 0;
+
+    if (enabled) {
+      try {
+        const entry = await (store as CacheStore).get(key);
+        if (entry) return { value: entry.value as T, status: 'HIT' };
+      } catch (error) {
+        logger.error('Cache read failed, computing response', { route, error });
+      }
+    }
+
+    const pending = inflight.get(key);
+    if (pending) {
+      return { value: (await pending) as T, status: 'SHARED' };
+    }
+
+    const promise = compute();
+    inflight.set(key, promise);
+    try {
+      const value = await promise;
+      if (enabled && shouldStore(value)) {
+        const now = Date.now();
+        await (store as CacheStore)
+          .set(key, { route, value, createdAt: now, expiresAt: now + ttl * 1000 })
+          .catch(error => logger.error('Cache write failed', { route, error }));
+      }
+      return { value, status: enabled ? 'MISS' : 'BYPASS' };
+    } finally {
+      inflight.delete(key);
+    }
+  };
+
+  const invalidate = async (route?: LLMRoute, input?: unknown) => {
+    if (!store) return 0;
+    if (route && input !== undefined) {
+      return (await store.delete(cacheKey(route, input))) ? 1 : 0;
+    }
+    return store.clear(route);
+  };
+
+  return { wrap, invalidate };
+};
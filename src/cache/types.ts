@@ -0,0 +1,21 @@
+import { LLMRoute } from '../llm/types';
+
+export type CacheEntry<T = unknown> = {
+  route: LLMRoute;
+  value: T;
+  createdAt: number;
+  expiresAt: number;
+};
+
+// Storage backend for cached AI responses
+export type CacheStore = {
+  get: (key: string) => Promise<CacheEntry | undefined>;
+  set: (key: string, entry: CacheEntry) => Promise<void>;
+  delete: (key: string) => Promise<boolean>;
+  // Removes every entry for `route`, or everything when omitted; resolves to the number removed
+  clear: (route?: LLMRoute) => Promise<number>;
+};
+
+// HIT: served from cache, MISS: computed now, SHARED: joined an identical in-flight request,
+// BYPASS: caching is disabled for the route
+export type CacheStatus = 'HIT' | 'MISS' | 'SHARED' | 'BYPASS';
@@ -0,0 +1,162 @@
+import { normalizeTitle } from '../expansion/normalize';
+import { layoutMindMap, LayoutMode } from '../layout';
+import { LLMClient } from '../llm/client';
+import { PROMPT_VERSIONS } from '../llm/promptVersions';
+import { DataSource, generateStructured } from '../llm/structured';
+import { DEFAULT_LOCALE, getLocale, Locale } from '../locales';
+import { logger } from '../observability/logger';
+import { recordAIResult } from '../observability/metrics';
+import { buildMessages } from '../prompts/messages';
+import { checkLabels, checkTexts } from '../prompts/relevance';
+import { CareerRoute, careerRouteSchema } from '../schemas/responses';
+import { fallbackCareerDetails } from './fallbacks';
+import { parseRole, roleData } from './roles';
+import { findRole, progressionRoute, roleName } from './taxonomy';
+
+// Without the AI we follow the taxonomy's progression relations, or offer the direct move and say that
+// we are unsure about it
+const FALLBACK_CONFIDENCE = 0.2;
+const PROGRESSION_CONFIDENCE = 0.6;
+const FALLBACK_YEARS = 3;
+
+const routeProblems = (currentRole: string, targetRole: string) => ({ steps }: CareerRoute): string[] => {
+  const problems = [
+    ...checkLabels(steps.map(step => step.title), [currentRole, targetRole]),
+    ...checkTexts(steps.reduce<string[]>((all, { requirements }) =>
+      all.concat(requirements.education, requirements.certifications, requirements.experience), []))
+  ];
+  if (normalizeTitle(steps[steps.length - 1].title) !== normalizeTitle(targetRole)) {
+    problems.push(`the last step must be the target role "${targetRole}"`);
+  }
+  steps.forEach((step, index) => {
+    if (normalizeTitle(step.title) === normalizeTitle(currentRole)) {
+      problems.push(`step ${index} repeats the current role`);
+    }
+  });
+  return problems;
+};
+
+// Years to move up to the target, judged by the experience hints in the two titles
+const fallbackYears = (currentRole: string, targetRole: string) => {
+  const from = parseRole(currentRole).experience?.minYears ?? 0;
+  const to = parseRole(targetRole).experience?.minYears;
+  return to === undefined ? FALLBACK_YEARS : Math.max(1, to - from);
+};
+
+const fallbackRoute = (currentRole: string, targetRole: string, locale: Locale): CareerRoute => {
+  const from = findRole(currentRole);
+  const to = findRole(targetRole);
+  const progression = from && to ? progressionRoute(from.role, to.role) : null;
+  if (!progression) {
+    return {
+      steps: [{
+        title: targetRole,
+        years: fallbackYears(currentRole, targetRole),
+        requirements: fallbackCareerDetails(targetRole, locale).requirements,
+        confidence: FALLBACK_CONFIDENCE
+      }]
+    };
+  }
+  // The intermediate roles come from the taxonomy; the last step keeps the caller's title
+  return {
+    steps: progression.map((role, index) => {
+      const title = index === progression.length - 1 ? targetRole : roleName(role, locale);
+      return {
+        title,
+        years: progression.length === 1 ? fallbackYears(currentRole, targetRole) : FALLBACK_YEARS,
+        requirements: fallbackCareerDetails(title, locale).requirements,
+        confidence: PROGRESSION_CONFIDENCE
+      };
+    })
+  };
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// The route as a chain of mind map nodes: "1" is the current role, then one node per step.
+// Step nodes carry the structured role plus years, cumulative years, requirements and confidence.
+const routeGraph = (currentRole: string, route: CareerRoute, layoutMode: LayoutMode, locale: Locale) => {
+  let totalYears = 0;
+  let confidence = 1;
+  const nodes = [
+    { id: '1', data: { ...roleData(currentRole, locale), step: 0, totalYears: 0 } },
+    ...route.steps.map((step, index) => {
+      totalYears += step.years;
+      confidence *= step.confidence;
+      return {
+        id: String(index + 2),
+        data: {
+          ...roleData(step.title, locale),
+          step: index + 1,
+          years: step.years,
+          totalYears: round(totalYears),
+          requirements: step.requirements,
+          confidence: round(step.confidence)
+        }
+      };
+    })
+  ];
+  const edges = nodes.slice(1).map((node, index) => ({
+    id: `e${nodes[index].id}-${node.id}`,
+    source: nodes[index].id,
+    target: node.id
+  }));
+  return {
+    ...layoutMindMap({ nodes, edges }, { mode: layoutMode, rootId: '1' }),
+    totalYears: round(totalYears),
+    // Every step has to work out, so the route is as likely as all of its steps together
+    confidence: round(confidence)
+  };
+};
+
+// Shortest realistic route from one role to another, falling back to the direct move if the AI fails
+export const planCareerPath = async (
+  llm: LLMClient,
+  currentRole: string,
+  targetRole: string,
+  layoutMode: LayoutMode,
+  locale: Locale = DEFAULT_LOCALE
+) => {
+  const { language, prompts } = getLocale(locale);
+  const task = `Plan the shortest realistic career route from "currentRole" to "targetRole" of the user data.
+Write all text IN ${language.toUpperCase()}; titles are ${prompts.titleStyle}.
+
+Return JSON in this format:
+{
+  "steps": [
+    {
+      "title": "Intermediate role",
+      "years": 2,
+      "requirements": {
+        "education": ["Education to complete for this step"],
+        "certifications": ["Certifications/skills to acquire (keep technology names in English)"],
+        "experience": ["Experience to gain"]
+      },
+      "confidence": 0.7
+    }
+  ]
+}
+
+IMPORTANT:
+- List the roles in order, without the current role; the last step is the target role itself
+- Use as few intermediate roles as is realistic (0-4); skip them entirely if the move can be made directly
+- "years" is the typical time from the previous step to this one
+- "confidence" (0-1) is how commonly people make this move successfully
+- Return ONLY the JSON object`;
+
+  let route: CareerRoute;
+  let dataSource: DataSource;
+  try {
+    ({ data: route, dataSource } = await generateStructured(llm, 'careerPath', buildMessages({
+      system: "You are a career advisor who plans realistic career moves. Return JSON only.",
+      task,
+      data: { currentRole, targetRole }
+    }), careerRouteSchema, { check: routeProblems(currentRole, targetRole) }));
+  } catch (aiError) {
+    logger.error('AI service failed, using direct route fallback', { route: 'careerPath', error: aiError });
+    recordAIResult('careerPath', 'fallback');
+    route = fallbackRoute(currentRole, targetRole, locale);
+    dataSource = 'fallback';
+  }
+  return { ...routeGraph(currentRole, route, layoutMode, locale), dataSource, promptVersion: PROMPT_VERSIONS.careerPath };
+};
@@ -0,0 +1,87 @@
+import { LLMClient } from '../llm/client';
+import { DataSource, generateStructured } from '../llm/structured';
+import { logger } from '../observability/logger';
+import { recordAIResult } from '../observability/metrics';
+import { activeTemplate } from '../prompts/registry';
+import { checkTexts } from '../prompts/relevance';
+import { PromptTemplate, promptMessages } from '../prompts/template';
+import { CareerDetail, careerDetailSchema } from '../schemas/responses';
+import { DEFAULT_LOCALE, getLocale, Locale } from '../locales';
+import { fallbackCareerDetails } from './fallbacks';
+import { ExperienceRange, parseExperience, parseRole, RoleInfo, Seniority, seniorityOf } from './roles';
+import { parseSalary, SalaryInfo } from './salary';
+
+export type CareerLevel = { name: string; seniority: Seniority | null; experience: ExperienceRange | null };
+
+export type StructuredCareerDetail = CareerDetail & {
+  role: RoleInfo;
+  // null when averageSalary has no figures the parser understands
+  salary: SalaryInfo | null;
+  // timeToReach as structured levels, in the model's order
+  levels: CareerLevel[];
+  dataSource: DataSource;
+  // Version of the prompt template behind the response (also on fallbacks, so variants can be compared)
+  promptVersion: string;
+};
+
+// The free-text fields stay for display; the structured ones are parsed from them
+const structureDetail = (
+  detail: CareerDetail,
+  careerTitle: string,
+  currency: string,
+  dataSource: DataSource,
+  promptVersion: string
+): StructuredCareerDetail => ({
+  ...detail,
+  // The title is the caller's, never the model's
+  title: careerTitle,
+  role: parseRole(careerTitle),
+  salary: parseSalary(detail.averageSalary, currency),
+  levels: Object.keys(detail.timeToReach).map(name => ({
+    name,
+    seniority: seniorityOf(name),
+    experience: parseExperience(detail.timeToReach[name])
+  })),
+  dataSource,
+  promptVersion
+});
+
+// Every generated text field goes through the output checks
+const detailProblems = (detail: CareerDetail) => checkTexts([
+  detail.averageSalary,
+  detail.description,
+  ...detail.requirements.education,
+  ...detail.requirements.certifications,
+  ...detail.requirements.experience,
+  ...detail.relatedCompanies,
+  ...detail.roleModels,
+  ...Object.keys(detail.timeToReach),
+  ...Object.values(detail.timeToReach)
+]);
+
+// Career details for a title, falling back to generic info if the AI fails
+export const fetchCareerDetails = async (
+  llm: LLMClient,
+  careerTitle: string,
+  locale: Locale = DEFAULT_LOCALE,
+  template: PromptTemplate<'careerDetails'> = activeTemplate('careerDetails')
+): Promise<StructuredCareerDetail> => {
+  const { currency, fallbacks } = getLocale(locale);
+  const timeToReach = JSON.stringify(fallbacks.timeToReach, null, 2).replace(/\n/g, '\n  ');
+
+  try {
+    const { data: careerInfo, dataSource } = await generateStructured(
+      llm,
+      'careerDetails',
+      promptMessages(template, locale, { timeToReach }, { careerTitle }),
+      careerDetailSchema,
+      { ...template.settings, check: detailProblems }
+    );
+    logger.debug('Parsed career details', { dataSource, title: careerInfo.title });
+    return structureDetail(careerInfo, careerTitle, currency, dataSource, template.version);
+  } catch (aiError) {
+    logger.error('AI service failed, using fallback', { route: 'careerDetails', error: aiError });
+    recordAIResult('careerDetails', 'fallback');
+    return structureDetail(fallbackCareerDetails(careerTitle, locale), careerTitle, currency, 'fallback', template.version);
+  }
+};
@@ -0,0 +1,56 @@
+import { getLocale, Locale } from '../locales';
+import { CareerDetail } from '../schemas/responses';
+import { salaryText } from './salary';
+import { childrenOf, findRole, nextRolesOf, relatedRoles, roleName, topLevelRoles } from './taxonomy';
+
+// Content used when the AI service is unavailable, looked up in the career taxonomy (src/careers/taxonomy);
+// titles the taxonomy does not know get the generic text of src/locales
+
+// Fallback paths never come back shorter than this; seniority steps of the role fill the rest
+const MIN_PATHS = 3;
+const MAX_SUGGESTIONS = 8;
+
+// Fallback career paths below a title: what it divides into, then where it leads
+export const fallbackCareerPaths = (careerTitle: string, locale: Locale): string[] => {
+  const { fallbacks } = getLocale(locale);
+  const match = findRole(careerTitle);
+  if (!match) return fallbacks.genericPaths(careerTitle);
+  const paths = [...childrenOf(match.role), ...nextRolesOf(match.role)].map(role => roleName(role, locale));
+  return paths.length >= MIN_PATHS
+    ? paths
+    : paths.concat(fallbacks.genericPaths(roleName(match.role, locale)).slice(0, MIN_PATHS - paths.length));
+};
+
+// Fallback related titles for a node
+export const fallbackSuggestions = (nodeContent: string, locale: Locale): string[] => {
+  const match = findRole(nodeContent);
+  const related = match ? relatedRoles(match.role).slice(0, MAX_SUGGESTIONS) : [];
+  return related.length
+    ? related.map(role => roleName(role, locale))
+    : getLocale(locale).fallbacks.genericSuggestions(nodeContent);
+};
+
+// Fallback career details: the taxonomy's requirements, salary bands and companies, generic text for the rest
+export const fallbackCareerDetails = (careerTitle: string, locale: Locale): CareerDetail => {
+  const { fallbacks } = getLocale(locale);
+  const generic = fallbacks.genericDetails(careerTitle);
+  const match = findRole(careerTitle);
+  if (!match) return generic;
+  const { requirements, salary, description, companies } = match.role;
+  const bands = salary[locale];
+  return {
+    ...generic,
+    averageSalary: bands ? salaryText(bands, fallbacks.salaryLevels) : generic.averageSalary,
+    requirements: requirements[locale] || generic.requirements,
+    description: description[locale] || generic.description,
+    relatedCompanies: companies[locale] || generic.relatedCompanies
+  };
+};
+
+// Branches of the fallback mind map: the roles related to its root when the taxonomy knows it,
+// otherwise one per career group
+export const fallbackMindMapBranches = (root: string | undefined, locale: Locale): string[] => {
+  const match = root ? findRole(root) : null;
+  const related = match ? relatedRoles(match.role).slice(0, MAX_SUGGESTIONS) : [];
+  return (related.length ? related : topLevelRoles()).map(role => roleName(role, locale));
+};
@@ -0,0 +1,133 @@
+import { buildRootEdges, LayoutMode, layoutMindMap } from '../layout';
+import { LLMClient } from '../llm/client';
+import { DataSource, generateStructured } from '../llm/structured';
+import { ChatMessage } from '../llm/types';
+import { DEFAULT_LOCALE, getLocale, Locale } from '../locales';
+import { logger } from '../observability/logger';
+import { recordAIResult } from '../observability/metrics';
+import { describePersonality, mbtiProfile, PersonalityProfile, withRoleFit } from '../personality';
+import { activeTemplate } from '../prompts/registry';
+import { checkLabels } from '../prompts/relevance';
+import { PromptTemplate, promptMessages } from '../prompts/template';
+import { Profile } from '../schemas/requests';
+import { MindMap, mindMapSchema, ResumeProfile } from '../schemas/responses';
+import { fallbackMindMapBranches } from './fallbacks';
+import { roleData } from './roles';
+
+// Mind map repair: use the node id as label when the model omitted data.label
+export const fillMissingNodeLabels = (value: any) => {
+  if (!value || !Array.isArray(value.nodes)) return value;
+  return {
+    ...value,
+    nodes: value.nodes.map((node: any) => ({
+      ...node,
+      data: { ...node?.data, label: node?.data?.label || node?.label || String(node?.id ?? '') }
+    }))
+  };
+};
+
+// The request's profile fields plus what was extracted from the user's resume, if anything
+export type MindMapInput = Profile & { resume?: ResumeProfile };
+
+// The request's personality profile; a bare mbti type counts as one with moderate preferences
+export const personalityOf = ({ mbti, personality }: Profile): PersonalityProfile | undefined => {
+  if (!mbti || personality?.mbti) return personality;
+  return { ...personality, mbti: mbtiProfile(mbti) };
+};
+
+// Prompt for a full career mind map built from the user's profile
+export const buildMindMapMessages = (
+  userData: MindMapInput,
+  locale: Locale = DEFAULT_LOCALE,
+  template: PromptTemplate<'mindmap'> = activeTemplate('mindmap')
+): ChatMessage[] => {
+  const personality = personalityOf(userData);
+  return promptMessages(template, locale, { hasPersonality: Boolean(personality), hasResume: Boolean(userData.resume) }, {
+    careerGoal: userData.aim,
+    jobPath: userData.jobPath,
+    interests: userData.hobby,
+    mbti: personality?.mbti?.type,
+    personality: personality && describePersonality(personality),
+    targetSalary: userData.salary,
+    roleModel: userData.roleModel,
+    resume: userData.resume
+  });
+};
+
+// Output check: node labels must be safe and mostly relate to the profile
+export const mindMapProblems = (userData: MindMapInput) => (mindMap: MindMap) => checkLabels(
+  mindMap.nodes.map(node => node.data.label),
+  [userData.aim, userData.jobPath, userData.hobby, userData.resume?.currentRole ?? undefined]
+);
+
+// Adds the structured title/experience/seniority to each node and re-derives its label from them
+export const withRoleData = <N extends { data: { label: string } }>(nodes: N[], locale: Locale): N[] =>
+  nodes.map(node => ({ ...node, data: { ...node.data, ...roleData(node.data.label, locale) } }));
+
+// The model's edges and coordinates are unreliable: connect the root to every job and lay out here.
+// With a personality profile each job also gets its role-fit score.
+export const finalizeMindMap = (
+  mindMap: MindMap,
+  layoutMode: LayoutMode,
+  locale: Locale = DEFAULT_LOCALE,
+  personality?: PersonalityProfile
+) => {
+  const rootId = mindMap.nodes.some(node => node.id === '1') ? '1' : mindMap.nodes[0].id;
+  const nodes = withRoleFit(withRoleData(mindMap.nodes, locale), rootId, personality, locale);
+  return layoutMindMap(
+    { nodes, edges: buildRootEdges(nodes, rootId) },
+    { mode: layoutMode, rootId }
+  );
+};
+
+// Used when the AI service fails
+export const buildFallbackMindMap = (userData: MindMapInput, layoutMode: LayoutMode, locale: Locale = DEFAULT_LOCALE) => {
+  const root = userData.aim || userData.resume?.currentRole || undefined;
+  const branches = fallbackMindMapBranches(root, locale);
+  const fallbackMindMap = {
+    nodes: [
+      {
+        id: "1",
+        data: { label: root || getLocale(locale).fallbacks.mindMapRoot },
+        position: { x: 0, y: 0 }
+      },
+      // Positions are placeholders; the layout places the branches
+      ...branches.map((label, index) => ({ id: String(index + 2), data: { label }, position: { x: 0, y: 0 } }))
+    ],
+    edges: branches.map((_label, index) => ({ id: `e1-${index + 2}`, source: "1", target: String(index + 2) }))
+  };
+  return layoutMindMap(
+    { ...fallbackMindMap, nodes: withRoleFit(withRoleData(fallbackMindMap.nodes, locale), '1', personalityOf(userData), locale) },
+    { mode: layoutMode, rootId: '1' }
+  );
+};
+
+// Laid-out mind map for a profile, falling back to the generic map if the AI fails
+export const generateMindMap = async (
+  llm: LLMClient,
+  userData: MindMapInput,
+  layoutMode: LayoutMode,
+  locale: Locale = DEFAULT_LOCALE,
+  template: PromptTemplate<'mindmap'> = activeTemplate('mindmap')
+) => {
+  const promptVersion = template.version;
+  try {
+    const { data: mindMap, dataSource } = await generateStructured(
+      llm,
+      'mindmap',
+      buildMindMapMessages(userData, locale, template),
+      mindMapSchema,
+      { ...template.settings, repair: fillMissingNodeLabels, check: mindMapProblems(userData) }
+    );
+    logger.debug('Parsed mind map', { dataSource, nodes: mindMap.nodes.length });
+    return {
+      ...finalizeMindMap(mindMap, layoutMode, locale, personalityOf(userData)),
+      dataSource: dataSource as DataSource,
+      promptVersion
+    };
+  } catch (aiError) {
+    logger.error('AI service failed, using fallback', { route: 'mindmap', error: aiError });
+    recordAIResult('mindmap', 'fallback');
+    return { ...buildFallbackMindMap(userData, layoutMode, locale), dataSource: 'fallback' as DataSource, promptVersion };
+  }
+};
@@ -0,0 +1,40 @@
+import { LLMClient } from '../llm/client';
+import { DataSource, generateStructured } from '../llm/structured';
+import { logger } from '../observability/logger';
+import { recordAIResult } from '../observability/metrics';
+import { activeTemplate } from '../prompts/registry';
+import { checkLabels } from '../prompts/relevance';
+import { PromptTemplate, promptMessages } from '../prompts/template';
+import { careerPathsSchema } from '../schemas/responses';
+import { DEFAULT_LOCALE, Locale } from '../locales';
+import { fallbackCareerPaths } from './fallbacks';
+import { RoleInfo, structureTitles } from './roles';
+
+// Career paths below a title, falling back to the static table if the AI fails
+export const fetchCareerPaths = async (
+  llm: LLMClient,
+  careerTitle: string,
+  level: number,
+  locale: Locale = DEFAULT_LOCALE,
+  template: PromptTemplate<'expandCareer'> = activeTemplate('expandCareer')
+): Promise<{ careerPaths: string[]; roles: RoleInfo[]; dataSource: DataSource; promptVersion: string }> => {
+  const promptVersion = template.version;
+  try {
+    const { data: careerPaths, dataSource } = await generateStructured(
+      llm,
+      'expandCareer',
+      promptMessages(template, locale, { topLevel: level === 1 }, { careerTitle }),
+      careerPathsSchema,
+      { ...template.settings, check: labels => checkLabels(labels, [careerTitle]) }
+    );
+    logger.debug('Parsed career paths', { dataSource, count: careerPaths.length });
+    const { labels, roles } = structureTitles(careerPaths, locale);
+    return { careerPaths: labels, roles, dataSource, promptVersion };
+  } catch (aiError) {
+    logger.error('AI service failed, using fallback', { route: 'expandCareer', error: aiError });
+    recordAIResult('expandCareer', 'fallback');
+    // Use fallback career paths
+    const { labels, roles } = structureTitles(fallbackCareerPaths(careerTitle, locale), locale);
+    return { careerPaths: labels, roles, dataSource: 'fallback', promptVersion };
+  }
+};
@@ -0,0 +1,95 @@
+import { getLocale, Locale } from '../locales';
+
+// Structured view of a job title such as "시니어 Product Manager (경력 5년+)"
+
+export const SENIORITY_LEVELS = ['intern', 'entry', 'junior', 'mid', 'senior', 'lead', 'executive'] as const;
+export type Seniority = typeof SENIORITY_LEVELS[number];
+
+// Years of experience; maxYears is null for open ranges ("5년+", "5+ yrs")
+export type ExperienceRange = { minYears: number; maxYears: number | null };
+
+export type RoleInfo = {
+  // Title without the experience suffix, whitespace and Unicode form normalized
+  title: string;
+  experience: ExperienceRange | null;
+  seniority: Seniority | null;
+};
+
+const SUFFIX = /\s*[(（]([^()（）]*)[)）]\s*$/;
+const YEARS = '(?:년|years?|yrs?)';
+const NUMBER = '(\\d+(?:\\.\\d+)?)';
+const ENTRY = /신입|entry|new grad|경력\s*무관/i;
+const RANGE = new RegExp(`${NUMBER}\\s*${YEARS}?\\s*[-~–]\\s*${NUMBER}\\s*${YEARS}`, 'i');
+const OPEN = new RegExp(`${NUMBER}\\s*(?:\\+\\s*${YEARS}|${YEARS}\\s*(?:\\+|이상|or more|plus))`, 'i');
+const EXACT = new RegExp(`${NUMBER}\\s*${YEARS}`, 'i');
+
+// Experience range from text such as "경력 2-3년", "5년+", "3년 이상", "Entry level", "3-5 years", "5+ yrs"
+export const parseExperience = (text: string): ExperienceRange | null => {
+  if (ENTRY.test(text)) return { minYears: 0, maxYears: 0 };
+  const range = RANGE.exec(text);
+  if (range) return { minYears: Number(range[1]), maxYears: Number(range[2]) };
+  const open = OPEN.exec(text);
+  if (open) return { minYears: Number(open[1]), maxYears: null };
+  const exact = EXACT.exec(text);
+  if (exact) return { minYears: Number(exact[1]), maxYears: Number(exact[1]) };
+  return null;
+};
+
+// Checked in order; the first match wins
+const SENIORITY_KEYWORDS: [Seniority, RegExp][] = [
+  ['executive', /\b(cto|ceo|cfo|coo|cpo|vp|vice president|chief|head of|executive)\b|임원|이사|본부장|최고/i],
+  ['lead', /\b(lead|principal|staff)\b|리드|팀장|수석|책임/i],
+  ['senior', /\b(senior|sr\.?)(?![a-z])|시니어|선임/i],
+  ['junior', /\b(junior|jr\.?)(?![a-z])|주니어/i],
+  ['intern', /\bintern(ship)?\b|인턴/i],
+  ['entry', /\bentry\b|new grad|신입/i],
+  ['mid', /\bmid(-level)?\b|중급/i]
+];
+
+// Seniority named in a title or level name ("시니어", "Tech Lead", "Entry"), if any
+export const seniorityOf = (text: string): Seniority | null =>
+  SENIORITY_KEYWORDS.find(([, pattern]) => pattern.test(text))?.[0] ?? null;
+
+// Typical seniority for an experience range
+export const seniorityForExperience = ({ minYears }: ExperienceRange): Seniority => {
+  if (minYears < 1) return 'entry';
+  if (minYears < 3) return 'junior';
+  if (minYears < 5) return 'mid';
+  if (minYears < 8) return 'senior';
+  return 'lead';
+};
+
+const normalizeText = (text: string) => text.normalize('NFKC').replace(/\s+/g, ' ').trim();
+
+// Splits a display label into title, experience and seniority. A trailing parenthetical that is not
+// an experience hint (e.g. "(Remote)") stays part of the title.
+export const parseRole = (label: string): RoleInfo => {
+  const text = normalizeText(String(label || ''));
+  const suffix = SUFFIX.exec(text);
+  const experience = suffix ? parseExperience(suffix[1]) : null;
+  const title = experience && suffix ? text.substring(0, suffix.index).trim() : text;
+  return {
+    title,
+    experience,
+    seniority: seniorityOf(title) ?? (experience && seniorityForExperience(experience))
+  };
+};
+
+// Display label derived from the structured fields, in the locale's format
+export const roleLabel = (role: RoleInfo, locale: Locale): string => {
+  if (!role.experience) return role.title;
+  const { minYears, maxYears } = role.experience;
+  return `${role.title} ${getLocale(locale).experienceLabel(minYears, maxYears ?? undefined)}`;
+};
+
+// Node data with the structured fields and a label derived from them
+export const roleData = (label: string, locale: Locale) => {
+  const role = parseRole(label);
+  return { label: roleLabel(role, locale), ...role };
+};
+
+// Free-text titles from the model (or a fallback list) parsed into roles, with labels derived from them
+export const structureTitles = (titles: string[], locale: Locale) => {
+  const roles = titles.map(parseRole);
+  return { labels: roles.map(role => roleLabel(role, locale)), roles };
+};
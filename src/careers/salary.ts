@@ -0,0 +1,126 @@
+import { Seniority, seniorityOf } from './roles';
+
+// Structured salary data parsed from text such as
+// "한국 기준 연봉 (신입: 3500만원, 경력: 5500만원, 시니어: 8000만원)" or "$50K-80K entry, $80K-150K+ senior"
+
+export type SalaryPeriod = 'year' | 'month' | 'hour';
+
+export type SalaryBand = {
+  // null when the text does not say which level a figure is for
+  level: Seniority | null;
+  min: number | null;
+  max: number | null;
+};
+
+export type SalaryInfo = {
+  // ISO 4217 code
+  currency: string;
+  period: SalaryPeriod;
+  bands: SalaryBand[];
+};
+
+const CURRENCIES: [string, RegExp][] = [
+  ['USD', /\$|\busd\b|달러/i],
+  ['KRW', /₩|원|\bkrw\b|[0-9]\s*(만|억)/i],
+  ['EUR', /€|\beur\b|유로/i],
+  ['GBP', /£|\bgbp\b/i],
+  ['JPY', /¥|\bjpy\b|엔/i]
+];
+
+const PERIODS: [SalaryPeriod, RegExp][] = [
+  ['hour', /시급|hourly|per hour|\/\s*h(ou)?r/i],
+  ['month', /월급|월\s*\d|monthly|per month|\/\s*mo(nth)?\b/i]
+];
+
+const MULTIPLIERS: Record<string, number> = {
+  '': 1,
+  k: 1e3,
+  m: 1e6,
+  천: 1e3,
+  만: 1e4,
+  천만: 1e7,
+  억: 1e8
+};
+
+// Amount with an optional unit, including compound Korean figures like "1억 2,000만"
+const AMOUNT = /(\d[\d,]*(?:\.\d+)?)\s*(천만|억|만|천|k(?![a-z])|m(?![a-z]))?(?:\s*(\d[\d,]*)\s*(천만|만))?(?!\s*(?:\d|년|years?|yrs?|%))/gi;
+const OPEN_ENDED = /^\s*(?:원|won)?\s*(\+|이상|or more)/i;
+
+type Amount = { value: number; hasUnit: boolean; multiplier: number; openEnded: boolean };
+
+const toNumber = (digits: string) => Number(digits.replace(/,/g, ''));
+
+const readAmounts = (segment: string): Amount[] => {
+  const amounts: Amount[] = [];
+  AMOUNT.lastIndex = 0;
+  for (let match = AMOUNT.exec(segment); match; match = AMOUNT.exec(segment)) {
+    const unit = (match[2] || '').toLowerCase();
+    const multiplier = MULTIPLIERS[unit];
+    let value = toNumber(match[1]) * multiplier;
+    if (match[3]) value += toNumber(match[3]) * MULTIPLIERS[match[4]];
+    amounts.push({
+      value,
+      hasUnit: unit !== '',
+      multiplier,
+      openEnded: OPEN_ENDED.test(segment.substring(match.index + match[0].length))
+    });
+  }
+  return amounts;
+};
+
+// "3,000-4,000만원" and "50-80K" put the unit on the upper bound only
+const band = (level: Seniority | null, amounts: Amount[]): SalaryBand => {
+  const [low, high] = amounts;
+  if (!high) {
+    return { level, min: low.value, max: low.openEnded ? null : low.value };
+  }
+  const min = !low.hasUnit && high.hasUnit ? low.value * high.multiplier : low.value;
+  return { level, min, max: high.value };
+};
+
+// "경력" (experienced) in Korean salary text means a mid-level figure
+const levelOf = (segment: string): Seniority | null =>
+  seniorityOf(segment) ?? (/경력|experienced|\bmid\b|중급/i.test(segment) ? 'mid' : null);
+
+// Splits on separators between figures, but not on thousands separators ("3,500")
+const SEGMENT_SEPARATOR = /,(?!\d{3})|;|\n|·/;
+
+export const parseSalary = (text: string, defaultCurrency: string): SalaryInfo | null => {
+  const bands = text
+    .replace(/[()（）]/g, ' ')
+    .split(SEGMENT_SEPARATOR)
+    .map(segment => ({ segment, amounts: readAmounts(segment) }))
+    .filter(({ amounts }) => amounts.length)
+    .map(({ segment, amounts }) => band(levelOf(segment), amounts));
+  if (!bands.length) return null;
+  return {
+    currency: CURRENCIES.find(([, pattern]) => pattern.test(text))?.[0] ?? defaultCurrency,
+    period: PERIODS.find(([, pattern]) => pattern.test(text))?.[0] ?? 'year',
+    bands
+  };
+};
+
+const withCommas = (value: number) => String(Math.round(value)).replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+
+// Figures the way people write them: "3,500-4,500만원", "$80K-110K", otherwise "50,000-70,000 EUR"
+const amountText = (currency: string, min: number | null, max: number | null) => {
+  const range = (scale: number, format: (figure: string) => string = figure => figure) => {
+    const [low, high] = [min, max].map(value => (value === null ? null : format(withCommas(value / scale))));
+    if (low === null) return high === null ? '' : high;
+    return high === null ? `${low}+` : low === high ? low : `${low}-${high}`;
+  };
+  switch (currency) {
+    case 'KRW':
+      return `${range(1e4)}만원`.replace(/\+만원$/, '만원+');
+    case 'USD':
+      return range(1e3, figure => `$${figure}K`);
+    default:
+      return `${range(1)} ${currency}`;
+  }
+};
+
+// Salary text in the locale's words, e.g. "신입 3,500-4,500만원, 시니어 7,000-10,000만원"; parseSalary reads it back
+export const salaryText = ({ currency, period, bands }: SalaryInfo, levelNames: Record<Seniority, string>): string =>
+  bands
+    .map(({ level, min, max }) => `${level ? `${levelNames[level]} ` : ''}${amountText(currency, min, max)}`)
+    .join(', ') + (period === 'year' ? '' : ` (per ${period})`);
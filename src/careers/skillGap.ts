@@ -0,0 +1,191 @@
+import { LLMClient } from '../llm/client';
+import { PROMPT_VERSIONS } from '../llm/promptVersions';
+import { DataSource, generateStructured } from '../llm/structured';
+import { DEFAULT_LOCALE, getLocale, Locale, RequirementCategory } from '../locales';
+import { logger } from '../observability/logger';
+import { recordAIResult } from '../observability/metrics';
+import { buildMessages } from '../prompts/messages';
+import { checkTexts } from '../prompts/relevance';
+import {
+  CareerDetail,
+  GapStatus,
+  ResumeProfile,
+  SkillGapAssessment,
+  skillGapAssessmentSchema
+} from '../schemas/responses';
+import { parseExperience, parseRole, RoleInfo } from './roles';
+
+export type SkillGapItem = {
+  // Stable within one career's requirements, e.g. "certifications-1"
+  id: string;
+  category: RequirementCategory;
+  requirement: string;
+  status: GapStatus;
+  evidence: string | null;
+  // Estimated time to close the gap; 0 when the requirement is met
+  learningWeeks: number;
+  nextSteps: string[];
+};
+
+export type SkillGapAnalysis = {
+  careerTitle: string;
+  role: RoleInfo;
+  items: SkillGapItem[];
+  summary: Record<GapStatus, number> & { learningWeeks: number };
+  dataSource: DataSource;
+  promptVersion: string;
+};
+
+const CATEGORIES: RequirementCategory[] = ['education', 'certifications', 'experience'];
+
+type Requirement = Pick<SkillGapItem, 'id' | 'category' | 'requirement'>;
+
+const requirementsOf = (details: CareerDetail): Requirement[] =>
+  CATEGORIES.reduce<Requirement[]>((all, category) => all.concat(
+    details.requirements[category].map((requirement, index) => ({ id: `${category}-${index}`, category, requirement }))
+  ), []);
+
+// Rule-based verdicts, used when the AI fails: years are compared for experience requirements,
+// everything else by the words it shares with the profile
+
+const WEEKS_PER_YEAR = 52;
+const FALLBACK_WEEKS: Record<RequirementCategory, number> = { education: 104, certifications: 8, experience: 26 };
+const MET_SHARE = 0.8;
+
+const tokens = (text: string) =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(token => token.length >= 2);
+
+const profileEntries = (profile: ResumeProfile) => [
+  ...(profile.currentRole ? [profile.currentRole] : []),
+  ...profile.skills,
+  ...profile.education,
+  ...profile.certifications
+];
+
+const assessByRules = (
+  { id, category, requirement }: Requirement,
+  profile: ResumeProfile,
+  locale: Locale
+): SkillGapItem => {
+  const verdict = (status: GapStatus, evidence: string | null, learningWeeks: number): SkillGapItem => ({
+    id,
+    category,
+    requirement,
+    status,
+    evidence,
+    learningWeeks: status === 'met' ? 0 : learningWeeks,
+    nextSteps: status === 'met' ? [] : getLocale(locale).fallbacks.nextSteps[category](requirement)
+  });
+
+  const needed = category === 'experience' ? parseExperience(requirement) : null;
+  if (needed) {
+    const missingYears = needed.minYears - profile.yearsOfExperience;
+    const status = missingYears <= 0 ? 'met' : profile.yearsOfExperience > 0 ? 'partial' : 'missing';
+    const years = profile.yearsOfExperience;
+    const evidence = years > 0 ? getLocale(locale).experienceLabel(years, years) : null;
+    return verdict(status, evidence, Math.round(Math.max(0, missingYears) * WEEKS_PER_YEAR));
+  }
+
+  // The profile entry that covers most of the requirement's words
+  const wanted = tokens(requirement);
+  const best = profileEntries(profile)
+    .map(entry => ({ entry, matched: wanted.filter(token => tokens(entry).indexOf(token) !== -1).length }))
+    .reduce<{ entry: string | null; matched: number }>(
+      (top, candidate) => (candidate.matched > top.matched ? candidate : top),
+      { entry: null, matched: 0 }
+    );
+  if (wanted.length && best.matched / wanted.length >= MET_SHARE) return verdict('met', best.entry, 0);
+  if (best.matched) return verdict('partial', best.entry, Math.round(FALLBACK_WEEKS[category] / 2));
+  return verdict('missing', null, FALLBACK_WEEKS[category]);
+};
+
+// The model has to judge every requirement it was given, and nothing else
+const assessmentProblems = (requirements: Requirement[]) => ({ items }: SkillGapAssessment): string[] => {
+  const expected = requirements.map(({ id }) => id);
+  const ids = items.map(({ id }) => id);
+  const problems = [
+    ...expected.filter(id => ids.indexOf(id) === -1).map(id => `requirement "${id}" is missing`),
+    ...ids.filter((id, index) => expected.indexOf(id) === -1 || ids.indexOf(id) !== index)
+      .map(id => `"${id}" is not a requirement id or appears twice`)
+  ];
+  return problems.concat(checkTexts(items.reduce<string[]>(
+    (all, item) => all.concat(item.evidence ? [item.evidence] : [], item.nextSteps), []
+  )));
+};
+
+const summarize = (items: SkillGapItem[]): SkillGapAnalysis['summary'] => ({
+  met: items.filter(item => item.status === 'met').length,
+  partial: items.filter(item => item.status === 'partial').length,
+  missing: items.filter(item => item.status === 'missing').length,
+  learningWeeks: items.reduce((total, item) => total + item.learningWeeks, 0)
+});
+
+// Which requirements of a career the profile meets, partially meets or misses, with the time and
+// steps to close each gap. Falls back to the rule-based comparison if the AI fails.
+export const analyzeSkillGap = async (
+  llm: LLMClient,
+  careerTitle: string,
+  details: CareerDetail,
+  profile: ResumeProfile,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<SkillGapAnalysis> => {
+  const { language } = getLocale(locale);
+  const promptVersion = PROMPT_VERSIONS.skillGap;
+  const requirements = requirementsOf(details);
+  if (!requirements.length) {
+    // Nothing to compare, so the model is not asked
+    return { careerTitle, role: parseRole(careerTitle), items: [], summary: summarize([]), dataSource: 'fallback', promptVersion };
+  }
+  const task = `Compare the person's profile with each requirement for the career in "careerTitle" of the user data.
+
+Return JSON in this format:
+{
+  "items": [
+    {
+      "id": "certifications-0",
+      "status": "met | partial | missing",
+      "evidence": "What in the profile shows this, or null",
+      "learningWeeks": 8,
+      "nextSteps": ["Concrete next step"]
+    }
+  ]
+}
+
+IMPORTANT:
+- Return exactly one item per requirement, using the requirement's "id"
+- "partial" means related skills or experience that do not fully satisfy the requirement
+- "learningWeeks" is a realistic part-time estimate to close the gap; 0 when met
+- Give 1-3 concrete next steps (a course, a certification, a project) for every gap, none when met
+- Write evidence and next steps IN ${language.toUpperCase()}; keep certification and technology names as written
+- Return ONLY the JSON object`;
+
+  let items: SkillGapItem[];
+  let dataSource: DataSource;
+  try {
+    const result = await generateStructured(llm, 'skillGap', buildMessages({
+      system: "You assess skill gaps between a person's profile and a career's requirements. Return JSON only.",
+      task,
+      data: { careerTitle, requirements, profile }
+    }), skillGapAssessmentSchema, { check: assessmentProblems(requirements) });
+    const verdicts = result.data.items;
+    items = requirements.map(requirement => {
+      const verdict = verdicts.find(item => item.id === requirement.id) as SkillGapAssessment['items'][number];
+      const met = verdict.status === 'met';
+      return {
+        ...requirement,
+        status: verdict.status,
+        evidence: verdict.evidence,
+        learningWeeks: met ? 0 : Math.round(verdict.learningWeeks),
+        nextSteps: met ? [] : verdict.nextSteps
+      };
+    });
+    dataSource = result.dataSource;
+  } catch (aiError) {
+    logger.error('AI service failed, comparing requirements with rules', { route: 'skillGap', error: aiError });
+    recordAIResult('skillGap', 'fallback');
+    items = requirements.map(requirement => assessByRules(requirement, profile, locale));
+    dataSource = 'fallback';
+  }
+
+  return { careerTitle, role: parseRole(careerTitle), items, summary: summarize(items), dataSource, promptVersion };
+};
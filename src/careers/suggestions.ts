@@ -0,0 +1,37 @@
+import { LLMClient } from '../llm/client';
+import { DEFAULT_LOCALE, Locale } from '../locales';
+import { DataSource, generateStructured } from '../llm/structured';
+import { logger } from '../observability/logger';
+import { recordAIResult } from '../observability/metrics';
+import { activeTemplate } from '../prompts/registry';
+import { checkLabels } from '../prompts/relevance';
+import { PromptTemplate, promptMessages } from '../prompts/template';
+import { suggestionsSchema } from '../schemas/responses';
+import { fallbackSuggestions } from './fallbacks';
+import { RoleInfo, structureTitles } from './roles';
+
+// Related job titles for a node, falling back to the taxonomy's related roles if the AI fails
+export const fetchSuggestions = async (
+  llm: LLMClient,
+  nodeContent: string,
+  locale: Locale = DEFAULT_LOCALE,
+  template: PromptTemplate<'suggestions'> = activeTemplate('suggestions')
+): Promise<{ suggestions: string[]; roles: RoleInfo[]; dataSource: DataSource; promptVersion: string }> => {
+  const promptVersion = template.version;
+  try {
+    const { data, dataSource } = await generateStructured(
+      llm,
+      'suggestions',
+      promptMessages(template, locale, {}, { nodeContent }),
+      suggestionsSchema,
+      { ...template.settings, check: labels => checkLabels(labels, [nodeContent]) }
+    );
+    const { labels, roles } = structureTitles(data, locale);
+    return { suggestions: labels, roles, dataSource, promptVersion };
+  } catch (aiError) {
+    logger.error('AI service failed, using related roles from the taxonomy', { route: 'suggestions', error: aiError });
+    recordAIResult('suggestions', 'fallback');
+    const { labels, roles } = structureTitles(fallbackSuggestions(nodeContent, locale), locale);
+    return { suggestions: labels, roles, dataSource: 'fallback', promptVersion };
+  }
+};
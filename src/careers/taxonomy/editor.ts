@@ -0,0 +1,106 @@
+import { logger } from '../../observability/logger';
+import { activeTaxonomy, useTaxonomy } from './queries';
+import { CareerRole, CareerTaxonomy, taxonomyProblems } from './schema';
+import { TaxonomyOverlay, TaxonomyStore } from './store';
+
+// Runtime changes to the taxonomy (admin API): stored as an overlay on the curated file and applied at once.
+// Other server instances pick the changes up when they restart.
+
+export type TaxonomyState = CareerTaxonomy & {
+  revision: number;
+  updatedAt: string | null;
+  updatedBy: string | null;
+};
+
+export type TaxonomyEditor = {
+  // Applies the stored changes; call once at startup
+  load: () => Promise<void>;
+  state: () => TaxonomyState;
+  // problems is non-empty (and nothing is saved) when the change would break a relation
+  upsert: (role: CareerRole, uid: string) => Promise<{ created: boolean; problems: string[] }>;
+  remove: (id: string, uid: string) => Promise<{ found: boolean; problems: string[] }>;
+};
+
+const applyOverlay = (base: CareerTaxonomy, overlay: TaxonomyOverlay | null): CareerTaxonomy => {
+  if (!overlay) return base;
+  const curated = base.roles
+    .filter(role => overlay.removed.indexOf(role.id) === -1)
+    .map(role => overlay.roles[role.id] || role);
+  const added = Object.keys(overlay.roles)
+    .filter(id => !base.roles.some(role => role.id === id))
+    .map(id => overlay.roles[id]);
+  return { version: base.version, roles: curated.concat(added) };
+};
+
+export const createTaxonomyEditor = (base: CareerTaxonomy, store: TaxonomyStore): TaxonomyEditor => {
+  let overlay: TaxonomyOverlay | null = null;
+  useTaxonomy(base);
+
+  // Edits run one at a time so none is lost to a concurrent one
+  let pending: Promise<unknown> = Promise.resolve();
+  const serialized = <T>(edit: () => Promise<T>): Promise<T> => {
+    const result = pending.then(edit);
+    pending = result.catch(() => undefined);
+    return result;
+  };
+
+  const load = async () => {
+    const stored = await store.get();
+    const taxonomy = applyOverlay(base, stored);
+    const problems = taxonomyProblems(taxonomy);
+    if (problems.length) {
+      // e.g. a new careers.json removed a role the changes point at
+      logger.error('Stored taxonomy changes do not fit the curated taxonomy, ignoring them', { problems });
+      return;
+    }
+    overlay = stored;
+    useTaxonomy(taxonomy);
+  };
+
+  const state = (): TaxonomyState => ({
+    ...activeTaxonomy(),
+    revision: overlay ? overlay.revision : 0,
+    updatedAt: overlay ? overlay.updatedAt : null,
+    updatedBy: overlay ? overlay.updatedBy : null
+  });
+
+  // Saves the next overlay if the taxonomy it produces is consistent
+  const commit = async (change: (next: TaxonomyOverlay) => void, uid: string) => {
+    const next: TaxonomyOverlay = {
+      baseVersion: base.version,
+      revision: (overlay ? overlay.revision : 0) + 1,
+      roles: { ...(overlay ? overlay.roles : {}) },
+      removed: overlay ? overlay.removed.slice() : [],
+      updatedAt: new Date().toISOString(),
+      updatedBy: uid
+    };
+    change(next);
+    const taxonomy = applyOverlay(base, next);
+    const problems = taxonomyProblems(taxonomy);
+    if (problems.length) return problems;
+    await store.save(next);
+    overlay = next;
+    useTaxonomy(taxonomy);
+    return [];
+  };
+
+  const upsert = (role: CareerRole, uid: string) => serialized(async () => {
+    const created = !activeTaxonomy().roles.some(existing => existing.id === role.id);
+    const problems = await commit(next => {
+      next.roles[role.id] = role;
+      next.removed = next.removed.filter(id => id !== role.id);
+    }, uid);
+    return { created, problems };
+  });
+
+  const remove = (id: string, uid: string) => serialized(async () => {
+    if (!activeTaxonomy().roles.some(role => role.id === id)) return { found: false, problems: [] };
+    const problems = await commit(next => {
+      delete next.roles[id];
+      if (base.roles.some(role => role.id === id)) next.removed.push(id);
+    }, uid);
+    return { found: true, problems };
+  });
+
+  return { load, state, upsert, remove };
+};
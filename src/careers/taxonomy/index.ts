@@ -0,0 +1,33 @@
+import { readFileSync } from 'fs';
+import { CareerTaxonomy, parseTaxonomy } from './schema';
+
+export { createTaxonomyEditor, TaxonomyEditor, TaxonomyState } from './editor';
+export { MATCH_THRESHOLD, RoleMatch } from './matcher';
+export {
+  activeTaxonomy,
+  BUNDLED_TAXONOMY,
+  childrenOf,
+  findRole,
+  nextRolesOf,
+  progressionRoute,
+  relatedRoles,
+  roleById,
+  roleName,
+  topLevelRoles
+} from './queries';
+export { CareerRole, careerRoleSchema, CareerTaxonomy, parseTaxonomy, taxonomyProblems } from './schema';
+export { createFirestoreTaxonomyStore, createMemoryTaxonomyStore, TaxonomyOverlay, TaxonomyStore } from './store';
+
+// The curated career taxonomy every offline fallback reads: roles with names and aliases, parent/child
+// and progression relations, requirements and salary bands. careers.json ships with the server;
+// TAXONOMY_FILE replaces it and admins extend it at runtime (see editor.ts).
+
+export const loadTaxonomyFile = (path: string): CareerTaxonomy => {
+  let contents: unknown;
+  try {
+    contents = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`TAXONOMY_FILE ${path} could not be read: ${error.message}`);
+  }
+  return parseTaxonomy(contents, path);
+};
@@ -0,0 +1,110 @@
+import { normalizeTitle } from '../../expansion/normalize';
+import { CareerRole } from './schema';
+
+// Fuzzy lookup of free-text job titles ("Sr. Backend Engineer @ Toss", "백엔드개발자 (경력 3년)") in the taxonomy.
+// Every name and alias of a role is a term; a title is scored against each term and the best role wins.
+
+export type RoleMatch = {
+  role: CareerRole;
+  // The name or alias that matched
+  term: string;
+  // 1 for an exact match, lower the further apart title and term are
+  score: number;
+};
+
+type Term = { role: CareerRole; term: string; words: string[]; compact: string };
+
+// Seniority and filler words that do not change which role a title is
+const IGNORED_WORDS = [
+  'senior', 'sr', 'junior', 'jr', 'entry', 'level', 'mid', 'intern', 'associate', 'new', 'grad',
+  '시니어', '주니어', '신입', '인턴', '경력', '중급', '선임', '수석', '책임'
+];
+
+// Below this a title is treated as unknown rather than forced onto the nearest role
+export const MATCH_THRESHOLD = 0.6;
+
+// A term found word for word inside a longer title ("backend developer" in "senior backend developer at toss")
+const CONTAINED_SCORE = 0.7;
+
+const wordsOf = (title: string) => normalizeTitle(title).split(' ').filter(Boolean);
+
+const meaningful = (words: string[]) => {
+  const kept = words.filter(word => IGNORED_WORDS.indexOf(word) === -1);
+  return kept.length ? kept : words;
+};
+
+const bigrams = (text: string) => {
+  const pairs: string[] = [];
+  for (let index = 0; index < text.length - 1; index++) pairs.push(text.substring(index, index + 2));
+  return pairs;
+};
+
+// Dice coefficient over character pairs; works for Korean titles written with or without spaces
+const similarity = (a: string, b: string) => {
+  if (a === b) return 1;
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (!left.length || !right.length) return 0;
+  const remaining = right.slice();
+  let shared = 0;
+  left.forEach(pair => {
+    const index = remaining.indexOf(pair);
+    if (index !== -1) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  });
+  return (2 * shared) / (left.length + right.length);
+};
+
+const HANGUL = /[\uac00-\ud7af]/;
+
+// Whether title and term have a word in common. Korean compounds are often written without spaces
+// ("백엔드개발"), so a Korean word may also appear inside the other side's text.
+const sharesWord = (words: string[], compact: string, term: Term) =>
+  words.some(word => term.words.indexOf(word) !== -1 || (HANGUL.test(word) && term.compact.indexOf(word) !== -1)) ||
+  term.words.some(word => HANGUL.test(word) && compact.indexOf(word) !== -1);
+
+const containsRun = (words: string[], run: string[]) => {
+  for (let start = 0; start + run.length <= words.length; start++) {
+    if (run.every((word, offset) => words[start + offset] === word)) return true;
+  }
+  return false;
+};
+
+const scoreTerm = (words: string[], compact: string, term: Term) => {
+  if (compact === term.compact) return 1;
+  // Longer terms cover more of the title, so "data engineer" beats "engineer" in "big data engineer"
+  const contained = containsRun(words, term.words)
+    ? CONTAINED_SCORE + (1 - CONTAINED_SCORE) * (term.compact.length / compact.length)
+    : 0;
+  // Spelling alone is not enough: "accountant" is close to "account manager" but a different job
+  const similar = sharesWord(words, compact, term) ? similarity(compact, term.compact) : 0;
+  return Math.max(contained, similar);
+};
+
+export const createRoleMatcher = (roles: CareerRole[]) => {
+  const terms: Term[] = roles.reduce<Term[]>((all, role) => all.concat(
+    [...Object.values(role.names), ...role.aliases]
+      .filter((term): term is string => Boolean(term))
+      .map(term => {
+        const words = meaningful(wordsOf(term));
+        return { role, term, words, compact: words.join('') };
+      })
+  ), []).filter(term => term.compact);
+
+  // The best matching role for a title, or null when nothing reaches the threshold
+  return (title: string): RoleMatch | null => {
+    const words = meaningful(wordsOf(title));
+    const compact = words.join('');
+    if (!compact) return null;
+    let best: RoleMatch | null = null;
+    terms.forEach(term => {
+      const score = scoreTerm(words, compact, term);
+      if (score >= MATCH_THRESHOLD && (!best || score > best.score)) {
+        best = { role: term.role, term: term.term, score: Math.round(score * 1000) / 1000 };
+      }
+    });
+    return best;
+  };
+};
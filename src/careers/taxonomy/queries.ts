@@ -0,0 +1,72 @@
+import { Locale } from '../../locales';
+import bundled from './careers.json';
+import { createRoleMatcher, RoleMatch } from './matcher';
+import { CareerRole, CareerTaxonomy, parseTaxonomy } from './schema';
+
+// The taxonomy in use and the lookups the offline fallbacks make in it
+
+export const BUNDLED_TAXONOMY: CareerTaxonomy = parseTaxonomy(bundled, 'careers.json');
+
+const indexTaxonomy = (taxonomy: CareerTaxonomy) => ({
+  taxonomy,
+  byId: taxonomy.roles.reduce<Record<string, CareerRole>>((all, role) => ({ ...all, [role.id]: role }), {}),
+  match: createRoleMatcher(taxonomy.roles)
+});
+
+let active = indexTaxonomy(BUNDLED_TAXONOMY);
+
+// Replaces the taxonomy the queries below read; called at startup and after every admin edit
+export const useTaxonomy = (taxonomy: CareerTaxonomy) => {
+  active = indexTaxonomy(taxonomy);
+};
+
+export const activeTaxonomy = (): CareerTaxonomy => active.taxonomy;
+
+// The role a free-text title refers to, if the taxonomy knows it
+export const findRole = (title: string): RoleMatch | null => active.match(title);
+
+export const roleById = (id: string): CareerRole | undefined => active.byId[id];
+
+export const roleName = (role: CareerRole, locale: Locale): string => role.names[locale] as string;
+
+const known = (roles: (CareerRole | undefined)[]) => roles.filter((role): role is CareerRole => Boolean(role));
+
+const unique = (roles: CareerRole[]) => roles.filter((role, index) => roles.indexOf(role) === index);
+
+// Career groups: the roles without a parent
+export const topLevelRoles = (): CareerRole[] => active.taxonomy.roles.filter(role => role.parent === null);
+
+export const childrenOf = (role: CareerRole): CareerRole[] =>
+  active.taxonomy.roles.filter(candidate => candidate.parent === role.id);
+
+export const nextRolesOf = (role: CareerRole): CareerRole[] => known(role.next.map(roleById));
+
+// Roles worth suggesting from a role: where it leads, what it divides into, then the other roles of its group.
+// Groups are not suggested from each other.
+export const relatedRoles = (role: CareerRole): CareerRole[] => {
+  const parent = role.parent !== null ? roleById(role.parent) : undefined;
+  const siblings = parent ? childrenOf(parent) : [];
+  return unique([...nextRolesOf(role), ...childrenOf(role), ...siblings]).filter(candidate => candidate !== role);
+};
+
+// Shortest chain of progression steps from one role to another, without the starting role;
+// null when the taxonomy has no such chain
+export const progressionRoute = (from: CareerRole, to: CareerRole): CareerRole[] | null => {
+  if (from === to) return null;
+  const previous: Record<string, CareerRole> = {};
+  const queue = [from];
+  while (queue.length) {
+    const current = queue.shift() as CareerRole;
+    for (const next of nextRolesOf(current)) {
+      if (next === from || previous[next.id]) continue;
+      previous[next.id] = current;
+      if (next === to) {
+        const route = [to];
+        for (let step = current; step !== from; step = previous[step.id]) route.unshift(step);
+        return route;
+      }
+      queue.push(next);
+    }
+  }
+  return null;
+};
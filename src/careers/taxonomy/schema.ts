@@ -0,0 +1,108 @@
+import { z } from 'zod';
+import { Locale, SUPPORTED_LOCALES } from '../../locales';
+import { RIASEC_TYPES } from '../../personality/model';
+import { SENIORITY_LEVELS } from '../roles';
+
+// Shape of the career taxonomy file (careers.json) and of roles added through the admin API
+
+const localeSchema = z.enum(SUPPORTED_LOCALES as [Locale, ...Locale[]]);
+const text = (max: number) => z.string().trim().min(1).max(max);
+const texts = (max: number) => z.array(text(max)).max(10);
+
+export const roleIdSchema = z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'must be lowercase words joined by hyphens').max(60);
+
+// Up to three distinct RIASEC letters, most characteristic first, e.g. "IRC"
+export const hollandCodeSchema = z.string().trim().toUpperCase().refine(
+  code => code.length >= 1 && code.length <= 3 && code.split('').every((letter, index) =>
+    (RIASEC_TYPES as readonly string[]).indexOf(letter) !== -1 && code.indexOf(letter) === index),
+  { message: `must be one to three distinct letters of ${RIASEC_TYPES.join('')}, e.g. IRC` }
+);
+
+const salarySchema = z.object({
+  currency: z.string().regex(/^[A-Z]{3}$/, 'must be an ISO 4217 code'),
+  period: z.enum(['year', 'month', 'hour']),
+  bands: z.array(z.object({
+    level: z.enum(SENIORITY_LEVELS).nullable(),
+    min: z.number().nonnegative().nullable(),
+    max: z.number().nonnegative().nullable()
+  })).min(1).max(7)
+});
+
+const requirementsSchema = z.object({
+  education: texts(200),
+  certifications: texts(200),
+  experience: texts(200)
+});
+
+export const careerRoleSchema = z.object({
+  id: roleIdSchema,
+  // The display name in every supported locale
+  names: z.record(localeSchema, text(80)).refine(
+    names => SUPPORTED_LOCALES.every(locale => names[locale]),
+    { message: `needs a name for every locale (${SUPPORTED_LOCALES.join(', ')})` }
+  ),
+  // Other titles for the same role, in any language; the matcher treats them like the names
+  aliases: z.array(text(80)).max(30).default([]),
+  // The broader role or career group this one belongs to
+  parent: roleIdSchema.nullable().default(null),
+  // Roles people commonly move on to from this one
+  next: z.array(roleIdSchema).max(10).default([]),
+  // Holland interest code for role-fit scores; roles without one use their parent's
+  hollandCode: hollandCodeSchema.nullable().default(null),
+  // Per-locale details; a locale without them gets the generic fallback text
+  description: z.record(localeSchema, text(500)).default({}),
+  requirements: z.record(localeSchema, requirementsSchema).default({}),
+  salary: z.record(localeSchema, salarySchema).default({}),
+  companies: z.record(localeSchema, texts(80)).default({})
+});
+
+export type CareerRole = z.infer<typeof careerRoleSchema>;
+
+export const careerTaxonomySchema = z.object({
+  // Bumped whenever the curated file changes
+  version: z.number().int().positive(),
+  roles: z.array(careerRoleSchema)
+});
+
+export type CareerTaxonomy = z.infer<typeof careerTaxonomySchema>;
+
+// Checks the schema cannot express: unique ids, relations that point at existing roles, no parent cycles
+export const taxonomyProblems = ({ roles }: CareerTaxonomy): string[] => {
+  const ids = roles.map(role => role.id);
+  const problems = ids
+    .filter((id, index) => ids.indexOf(id) !== index)
+    .map(id => `role "${id}" appears twice`);
+  roles.forEach(role => {
+    if (role.parent !== null && ids.indexOf(role.parent) === -1) {
+      problems.push(`role "${role.id}" has unknown parent "${role.parent}"`);
+    }
+    role.next
+      .filter(id => id === role.id || ids.indexOf(id) === -1)
+      .forEach(id => problems.push(`role "${role.id}" lists "${id}" as a next role, which is ${id === role.id ? 'itself' : 'unknown'}`));
+  });
+  roles.forEach(role => {
+    const seen = [role.id];
+    for (let parent = role.parent; parent !== null;) {
+      if (seen.indexOf(parent) !== -1) {
+        problems.push(`role "${role.id}" is its own ancestor`);
+        break;
+      }
+      seen.push(parent);
+      const next = roles.find(candidate => candidate.id === parent);
+      parent = next ? next.parent : null;
+    }
+  });
+  return problems;
+};
+
+// A validated taxonomy, or an error listing everything wrong with it
+export const parseTaxonomy = (value: unknown, source: string): CareerTaxonomy => {
+  const parsed = careerTaxonomySchema.safeParse(value);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Career taxonomy ${source} is invalid: ${issues.join('; ')}`);
+  }
+  const problems = taxonomyProblems(parsed.data);
+  if (problems.length) throw new Error(`Career taxonomy ${source} is invalid: ${problems.join('; ')}`);
+  return parsed.data;
+};
@@ -0,0 +1,52 @@
+import { doc, Firestore, getDoc, setDoc } from 'firebase/firestore';
+import { CareerRole } from './schema';
+
+// Admin changes are kept apart from the curated file, so a new careers.json still applies underneath them
+export type TaxonomyOverlay = {
+  // The careers.json version the changes were made against
+  baseVersion: number;
+  // Counts the admin changes
+  revision: number;
+  // Added or replaced roles, keyed by id
+  roles: Record<string, CareerRole>;
+  // Ids of curated roles that were removed
+  removed: string[];
+  updatedAt: string;
+  updatedBy: string;
+};
+
+export type TaxonomyStore = {
+  get: () => Promise<TaxonomyOverlay | null>;
+  save: (overlay: TaxonomyOverlay) => Promise<void>;
+};
+
+// One document: taxonomy/overlay
+export const createFirestoreTaxonomyStore = (db: Firestore): TaxonomyStore => {
+  const ref = doc(db, 'taxonomy', 'overlay');
+
+  const get = async () => {
+    const snapshot = await getDoc(ref);
+    return snapshot.exists() ? (snapshot.data() as TaxonomyOverlay) : null;
+  };
+
+  const save = (overlay: TaxonomyOverlay) => setDoc(ref, overlay);
+
+  return { get, save };
+};
+
+// Process-local overlay for development and tests; `onChange` runs after every write (used by the file backend)
+export const createMemoryTaxonomyStore = (
+  initial: TaxonomyOverlay | null = null,
+  onChange: (overlay: TaxonomyOverlay) => void = () => undefined
+): TaxonomyStore => {
+  let stored: TaxonomyOverlay | null = initial && JSON.parse(JSON.stringify(initial));
+
+  const get = async () => (stored ? JSON.parse(JSON.stringify(stored)) : null);
+
+  const save = async (overlay: TaxonomyOverlay) => {
+    stored = JSON.parse(JSON.stringify(overlay));
+    onChange(stored as TaxonomyOverlay);
+  };
+
+  return { get, save };
+};
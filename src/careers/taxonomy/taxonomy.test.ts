@@ -0,0 +1,128 @@
+import { fallbackCareerDetails, fallbackCareerPaths, fallbackSuggestions } from '../fallbacks';
+import { parseSalary } from '../salary';
+import {
+  BUNDLED_TAXONOMY,
+  CareerRole,
+  createMemoryTaxonomyStore,
+  createTaxonomyEditor,
+  findRole,
+  parseTaxonomy,
+  progressionRoute,
+  roleById
+} from '.';
+
+const role = (id: string, extra: Partial<CareerRole> = {}): CareerRole => ({
+  id,
+  names: { ko: id, en: id },
+  aliases: [],
+  parent: null,
+  next: [],
+  hollandCode: null,
+  description: {},
+  requirements: {},
+  salary: {},
+  companies: {},
+  ...extra
+});
+
+describe('findRole', () => {
+  it.each([
+    ['database administrator', 'database-administrator'],
+    ['UX designer', 'ux-designer'],
+    ['Senior Backend Developer at Toss', 'backend-developer'],
+    ['백엔드개발자 (경력 3년)', 'backend-developer'],
+    ['시니어 프론트엔드 엔지니어', 'frontend-developer'],
+    ['Big Data Engineer', 'data-engineer'],
+    ['디자인', 'design'],
+    ['AI 엔지니어', 'ml-engineer'],
+    ['Backend Develper', 'backend-developer'],
+    ['데이터엔지니아', 'data-engineer']
+  ])('matches "%s" to %s', (title, id) => {
+    expect(findRole(title)?.role.id).toBe(id);
+  });
+
+  it('does not force unknown titles onto a role', () => {
+    expect(findRole('Barista')).toBeNull();
+    expect(findRole("Children's book author")).toBeNull();
+  });
+
+  it.each(['Accountant', 'Nurse', 'Chef', '간호사', '요리사'])('does not match "%s" on spelling alone', title => {
+    expect(findRole(title)).toBeNull();
+  });
+});
+
+describe('relations', () => {
+  it('finds the shortest progression route', () => {
+    const route = progressionRoute(roleById('qa-engineer') as CareerRole, roleById('engineering-manager') as CareerRole);
+    expect(route?.map(step => step.id)).toEqual(['backend-developer', 'tech-lead', 'engineering-manager']);
+    expect(progressionRoute(roleById('engineering-manager') as CareerRole, roleById('qa-engineer') as CareerRole)).toBeNull();
+  });
+});
+
+describe('parseTaxonomy', () => {
+  it('rejects unknown relations, duplicates and parent cycles', () => {
+    const roles = [
+      role('a', { parent: 'b', next: ['missing'] }),
+      role('b', { parent: 'a' }),
+      role('b')
+    ];
+    expect(() => parseTaxonomy({ version: 1, roles }, 'test')).toThrow(
+      /"b" appears twice.*unknown.*"a" is its own ancestor/
+    );
+  });
+
+  it('requires a name in every locale', () => {
+    expect(() => parseTaxonomy({ version: 1, roles: [{ id: 'a', names: { en: 'A' } }] }, 'test')).toThrow(/names/);
+  });
+});
+
+describe('fallbacks', () => {
+  it('builds career details from the role, with salary text that parses back to its bands', () => {
+    const details = fallbackCareerDetails('Backend Engineer', 'en');
+    const backend = roleById('backend-developer') as CareerRole;
+    expect(details.requirements).toEqual(backend.requirements.en);
+    expect(parseSalary(details.averageSalary, 'USD')).toEqual(backend.salary.en);
+    expect(parseSalary(fallbackCareerDetails('백엔드 개발자', 'ko').averageSalary, 'KRW')).toEqual(backend.salary.ko);
+  });
+
+  it('suggests related roles in the requested locale and generic titles for unknown ones', () => {
+    expect(fallbackSuggestions('UX designer', 'ko')).toEqual(expect.arrayContaining(['프로덕트 디자이너', 'UX 리서처']));
+    expect(fallbackSuggestions('Database Administrator', 'en')).not.toContain('Data Analyst');
+    expect(fallbackSuggestions('Barista', 'en')).toContain('Senior Barista');
+  });
+
+  it('lists a group\'s roles as its paths and pads short ones with seniority steps', () => {
+    expect(fallbackCareerPaths('Data Science', 'en')).toContain('Data Analyst');
+    expect(fallbackCareerPaths('Frontend Developer', 'en')).toEqual(['Full Stack Developer', 'Tech Lead', 'Senior Frontend Developer']);
+  });
+});
+
+describe('createTaxonomyEditor', () => {
+  afterAll(() => createTaxonomyEditor(BUNDLED_TAXONOMY, createMemoryTaxonomyStore()));
+
+  it('applies changes at once and again after a restart', async () => {
+    const store = createMemoryTaxonomyStore();
+    const editor = createTaxonomyEditor(BUNDLED_TAXONOMY, store);
+    const barista = role('barista', { names: { ko: '바리스타', en: 'Barista' }, next: ['operations-manager'] });
+    expect(await editor.upsert(barista, 'admin')).toEqual({ created: true, problems: [] });
+    expect(await editor.remove('motion-designer', 'admin')).toEqual({ found: true, problems: [] });
+    expect(findRole('바리스타')?.role.id).toBe('barista');
+
+    createTaxonomyEditor(BUNDLED_TAXONOMY, createMemoryTaxonomyStore());
+    expect(findRole('Barista')).toBeNull();
+
+    const restarted = createTaxonomyEditor(BUNDLED_TAXONOMY, store);
+    await restarted.load();
+    expect(findRole('Barista')?.role.id).toBe('barista');
+    expect(roleById('motion-designer')).toBeUndefined();
+    expect(restarted.state()).toMatchObject({ version: BUNDLED_TAXONOMY.version, revision: 2, updatedBy: 'admin' });
+  });
+
+  it('refuses changes that break relations', async () => {
+    const editor = createTaxonomyEditor(BUNDLED_TAXONOMY, createMemoryTaxonomyStore());
+    expect((await editor.upsert(role('x', { parent: 'nowhere' }), 'admin')).problems).toHaveLength(1);
+    expect((await editor.remove('tech-lead', 'admin')).problems.length).toBeGreaterThan(0);
+    expect(roleById('tech-lead')).toBeDefined();
+    expect(editor.state().revision).toBe(0);
+  });
+});
@@ -0,0 +1,176 @@
+import { AddressInfo } from 'net';
+import { createServer, Server } from 'http';
+import request from 'supertest';
+import WebSocket from 'ws';
+import { bearer, createTestApp } from '../testing/stubs';
+import { createLiveDocument } from '.';
+
+const MAP = {
+  title: 'Plan',
+  nodes: [
+    { id: '1', data: { label: 'Developer' }, position: { x: 0, y: 0 } },
+    { id: '2', data: { label: 'Tech Lead' }, position: { x: 200, y: 0 } }
+  ],
+  edges: [{ id: 'e1-2', source: '1', target: '2' }]
+};
+
+describe('createLiveDocument', () => {
+  it('applies edits in order and flags edits made without seeing a newer change', () => {
+    const document = createLiveDocument(MAP);
+    const first = document.apply({ kind: 'moveNode', id: '1', position: { x: 10, y: 10 } }, 0, 'a');
+    const second = document.apply({ kind: 'moveNode', id: '1', position: { x: 50, y: 50 } }, 0, 'b');
+    const label = document.apply({ kind: 'updateNode', id: '1', data: { label: 'Engineer' } }, 0, 'b');
+    expect(first).toMatchObject({ ok: true, applied: { seq: 1, conflict: false } });
+    expect(second).toMatchObject({ ok: true, applied: { seq: 2, conflict: true } });
+    // Another field of the same node is no conflict
+    expect(label).toMatchObject({ ok: true, applied: { seq: 3, conflict: false } });
+    expect(document.content().nodes[0]).toEqual({ id: '1', data: { label: 'Engineer' }, position: { x: 50, y: 50 } });
+  });
+
+  it('lets deletes win over concurrent edits', () => {
+    const document = createLiveDocument(MAP);
+    const removed = document.apply({ kind: 'removeNode', id: '2' }, 0, 'a');
+    expect(removed).toMatchObject({ ok: true, applied: { removedEdges: ['e1-2'] } });
+    expect(document.apply({ kind: 'updateNode', id: '2', data: { label: 'Lead' } }, 0, 'b')).toMatchObject({ ok: false, reason: 'deleted' });
+    expect(document.apply({ kind: 'addEdge', edge: { id: 'e2-1', source: '2', target: '1' } }, 0, 'b'))
+      .toMatchObject({ ok: false, reason: 'deleted' });
+    expect(document.apply({ kind: 'removeEdge', id: 'e1-2' }, 0, 'b')).toMatchObject({ ok: false, reason: 'deleted' });
+    expect(document.content().edges).toEqual([]);
+    expect(document.seq()).toBe(1);
+  });
+});
+
+// A socket that keeps every message so tests can wait for the next one of a type
+const connect = (server: Server, path: string, uid: string) => new Promise<any>((resolve, reject) => {
+  const { port } = server.address() as AddressInfo;
+  const socket = new WebSocket(`ws://127.0.0.1:${port}${path}`, { headers: bearer(uid) });
+  const received: any[] = [];
+  const waiting: Array<{ type: string; resolve: (message: any) => void }> = [];
+  socket.on('message', raw => {
+    const message = JSON.parse(raw.toString());
+    const index = waiting.findIndex(waiter => waiter.type === message.type);
+    if (index === -1) received.push(message);
+    else waiting.splice(index, 1)[0].resolve(message);
+  });
+  socket.on('unexpected-response', (_req, res) => reject(Object.assign(new Error('Upgrade refused'), { status: res.statusCode })));
+  socket.on('error', reject);
+  socket.on('open', () => resolve({
+    send: (message: object) => socket.send(JSON.stringify(message)),
+    next: (type: string) => new Promise<any>(done => {
+      const index = received.findIndex(message => message.type === type);
+      if (index !== -1) done(received.splice(index, 1)[0]);
+      else waiting.push({ type, resolve: done });
+    }),
+    closed: new Promise<number>(done => socket.once('close', code => done(code))),
+    close: () => new Promise<void>(done => {
+      socket.once('close', () => done());
+      socket.close();
+    })
+  }));
+});
+
+describe('live editing', () => {
+  let server: Server;
+  let context: ReturnType<typeof createTestApp>;
+  let mapId: string;
+
+  beforeEach(async () => {
+    context = createTestApp();
+    server = createServer(context.app);
+    server.on('upgrade', context.collaboration.handleUpgrade);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    mapId = (await request(context.app).post('/api/mindmap').set(bearer()).send(MAP)).body.id;
+    await request(context.app).put(`/api/mindmap/${mapId}/collaborators`).set(bearer()).send({ uids: ['user-2'] });
+  });
+
+  afterEach(async () => {
+    await context.collaboration.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('shares edits, presence and the current state with late joiners, and saves them as a revision', async () => {
+    const owner = await connect(server, `/api/mindmap/${mapId}/live`, 'user-1');
+    const snapshot = await owner.next('snapshot');
+    expect(snapshot).toMatchObject({ seq: 0, version: 1, peers: [], map: { title: 'Plan' } });
+
+    owner.send({ type: 'op', opId: 'o1', baseSeq: 0, op: { kind: 'updateNode', id: '2', data: { label: 'Staff Engineer' } } });
+    expect(await owner.next('op')).toMatchObject({ seq: 1, opId: 'o1', uid: 'user-1', conflict: false });
+
+    const guest = await connect(server, `/api/mindmap/${mapId}/live`, 'user-2');
+    const late = await guest.next('snapshot');
+    expect(late.seq).toBe(1);
+    expect(late.map.nodes[1].data.label).toBe('Staff Engineer');
+    expect(late.peers).toEqual([expect.objectContaining({ uid: 'user-1', clientId: snapshot.clientId })]);
+    expect((await owner.next('joined')).peer).toMatchObject({ uid: 'user-2', clientId: late.clientId });
+
+    guest.send({ type: 'cursor', cursor: { x: 5, y: 8, nodeId: '1' } });
+    expect(await owner.next('cursor')).toEqual({ type: 'cursor', clientId: late.clientId, cursor: { x: 5, y: 8, nodeId: '1' } });
+
+    // Both move node 1 knowing only seq 1: the later one wins and is flagged
+    owner.send({ type: 'op', opId: 'o2', baseSeq: 1, op: { kind: 'moveNode', id: '1', position: { x: 10, y: 0 } } });
+    guest.send({ type: 'op', opId: 'g1', baseSeq: 1, op: { kind: 'moveNode', id: '1', position: { x: 20, y: 0 } } });
+    expect(await guest.next('op')).toMatchObject({ seq: 2, opId: 'o2', conflict: false });
+    expect(await guest.next('op')).toMatchObject({ seq: 3, opId: 'g1', conflict: true });
+
+    owner.send({ type: 'op', opId: 'o3', baseSeq: 3, op: { kind: 'removeNode', id: '2' } });
+    expect(await guest.next('op')).toMatchObject({ seq: 4, removedEdges: ['e1-2'] });
+    guest.send({ type: 'op', opId: 'g2', baseSeq: 3, op: { kind: 'updateNode', id: '2', data: { label: 'Lead' } } });
+    expect(await guest.next('rejected')).toMatchObject({ opId: 'g2', reason: 'deleted' });
+
+    await context.collaboration.flush();
+    expect(await owner.next('saved')).toEqual({ type: 'saved', version: 2, seq: 4 });
+    const stored = await context.storage.mindMaps.get(mapId);
+    expect(stored).toMatchObject({ version: 2, nodes: [{ id: '1', position: { x: 20, y: 0 } }], edges: [] });
+
+    await guest.close();
+    expect(await owner.next('left')).toEqual({ type: 'left', clientId: late.clientId });
+    await owner.close();
+  });
+
+  it('saves when the last client leaves and then accepts REST writes again', async () => {
+    const owner = await connect(server, `/api/mindmap/${mapId}/live`, 'user-1');
+    await owner.next('snapshot');
+    const patch = () => request(context.app).patch(`/api/mindmap/${mapId}`).set(bearer()).send({ title: 'Plan B' });
+    const conflict = await patch();
+    expect(conflict.status).toBe(409);
+    expect(conflict.body.code).toBe('CONFLICT');
+
+    owner.send({ type: 'op', opId: 'o1', baseSeq: 0, op: { kind: 'setTitle', title: 'Shared plan' } });
+    await owner.next('op');
+    await owner.close();
+    while (context.collaboration.isLive(mapId)) await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect((await context.storage.mindMaps.get(mapId))?.title).toBe('Shared plan');
+    expect((await patch()).body).toMatchObject({ title: 'Plan B', version: 3 });
+  });
+
+  it('answers malformed messages with an error', async () => {
+    const owner = await connect(server, `/api/mindmap/${mapId}/live`, 'user-1');
+    owner.send({ type: 'op', opId: 'o1', baseSeq: 0, op: { kind: 'moveNode', id: '1' } });
+    expect(await owner.next('error')).toMatchObject({ code: 'VALIDATION_FAILED', details: [{ path: 'op.position' }] });
+    await owner.close();
+  });
+
+  it('disconnects collaborators the owner removes', async () => {
+    const owner = await connect(server, `/api/mindmap/${mapId}/live`, 'user-1');
+    await owner.next('snapshot');
+    const guest = await connect(server, `/api/mindmap/${mapId}/live`, 'user-2');
+    const { clientId } = await guest.next('snapshot');
+
+    await request(context.app).put(`/api/mindmap/${mapId}/collaborators`).set(bearer()).send({ uids: [] });
+    expect(await guest.next('error')).toMatchObject({ code: 'FORBIDDEN' });
+    expect(await guest.closed).toBe(4403);
+    expect(await owner.next('left')).toEqual({ type: 'left', clientId });
+    await expect(connect(server, `/api/mindmap/${mapId}/live`, 'user-2')).rejects.toMatchObject({ status: 403 });
+    await owner.close();
+  });
+
+  it('lets only the owner and collaborators join', async () => {
+    await expect(connect(server, `/api/mindmap/${mapId}/live`, 'user-3')).rejects.toMatchObject({ status: 403 });
+    await expect(connect(server, '/api/mindmap/unknown/live', 'user-1')).rejects.toMatchObject({ status: 404 });
+    expect((await request(context.app).get(`/api/mindmap/${mapId}`).set(bearer('user-2'))).status).toBe(200);
+    expect((await request(context.app).patch(`/api/mindmap/${mapId}`).set(bearer('user-2')).send({ title: 'x' })).status).toBe(403);
+    expect((await request(context.app).put(`/api/mindmap/${mapId}/collaborators`).set(bearer('user-2')).send({ uids: [] })).status)
+      .toBe(403);
+  });
+});
@@ -0,0 +1,136 @@
+import { MindMapContent } from '../mindmaps/repository';
+import { LiveOperation, MAX_GRAPH_EDGES, MAX_GRAPH_NODES } from '../schemas/requests';
+
+// The shared state of a map being edited live. The server orders every edit (each gets the next
+// sequence number) and applies it in that order, so all clients converge on the same map:
+// - moves, title changes and data changes are last-writer-wins per node field;
+// - an edit made without knowing of a newer change to the same field is still applied, but flagged
+//   as a conflict so clients can point it out;
+// - deletes win: a removed node or edge stays removed, and later edits to it are rejected.
+
+export type RejectReason = 'not-found' | 'deleted' | 'exists' | 'limit';
+
+export type AppliedOperation = {
+  seq: number;
+  op: LiveOperation;
+  // Set when another client changed the same field after the edit's baseSeq
+  conflict: boolean;
+  // Edges removed together with a node
+  removedEdges?: string[];
+};
+
+export type ApplyResult =
+  | { ok: true; applied: AppliedOperation }
+  | { ok: false; reason: RejectReason; message: string };
+
+type FieldChange = { seq: number; clientId: string };
+
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export const createLiveDocument = (content: MindMapContent) => {
+  let title = content.title;
+  const nodes: any[] = copy(content.nodes || []);
+  const edges: any[] = copy(content.edges || []);
+  let seq = 0;
+  const deleted: Record<string, true> = {};
+  // Last change per field: "title", "node:<id>:position", "node:<id>:data.<key>"
+  const changes: Record<string, FieldChange> = {};
+
+  const nodeIndex = (id: string) => nodes.findIndex(node => String(node.id) === id);
+  const edgeIndex = (id: string) => edges.findIndex(edge => String(edge.id) === id);
+
+  const reject = (reason: RejectReason, message: string): ApplyResult => ({ ok: false, reason, message });
+
+  // Records the change to each field and reports whether any had changed since baseSeq by someone else
+  const touch = (fields: string[], baseSeq: number, clientId: string) => {
+    const conflict = fields.some(field => {
+      const last = changes[field];
+      return last !== undefined && last.seq > baseSeq && last.clientId !== clientId;
+    });
+    fields.forEach(field => {
+      changes[field] = { seq: seq + 1, clientId };
+    });
+    return conflict;
+  };
+
+  const missing = (kind: 'node' | 'edge', id: string) => (deleted[`${kind}:${id}`]
+    ? reject('deleted', `${kind === 'node' ? 'Node' : 'Edge'} ${id} was deleted`)
+    : reject('not-found', `${kind === 'node' ? 'Node' : 'Edge'} ${id} does not exist`));
+
+  const apply = (op: LiveOperation, baseSeq: number, clientId: string): ApplyResult => {
+    let conflict = false;
+    let removedEdges: string[] | undefined;
+
+    switch (op.kind) {
+      case 'addNode': {
+        const id = String(op.node.id);
+        if (deleted[`node:${id}`]) return reject('deleted', `Node ${id} was deleted; add it under a new id`);
+        if (nodeIndex(id) !== -1) return reject('exists', `Node ${id} already exists`);
+        if (nodes.length >= MAX_GRAPH_NODES) return reject('limit', `A map has at most ${MAX_GRAPH_NODES} nodes`);
+        nodes.push(copy(op.node));
+        break;
+      }
+      case 'moveNode': {
+        const index = nodeIndex(op.id);
+        if (index === -1) return missing('node', op.id);
+        conflict = touch([`node:${op.id}:position`], baseSeq, clientId);
+        nodes[index] = { ...nodes[index], position: op.position };
+        break;
+      }
+      case 'updateNode': {
+        const index = nodeIndex(op.id);
+        if (index === -1) return missing('node', op.id);
+        conflict = touch(Object.keys(op.data).map(key => `node:${op.id}:data.${key}`), baseSeq, clientId);
+        nodes[index] = { ...nodes[index], data: { ...nodes[index].data, ...copy(op.data) } };
+        break;
+      }
+      case 'removeNode': {
+        const index = nodeIndex(op.id);
+        if (index === -1) return missing('node', op.id);
+        nodes.splice(index, 1);
+        deleted[`node:${op.id}`] = true;
+        removedEdges = edges
+          .filter(edge => String(edge.source) === op.id || String(edge.target) === op.id)
+          .map(edge => String(edge.id));
+        removedEdges.forEach(id => {
+          edges.splice(edgeIndex(id), 1);
+          deleted[`edge:${id}`] = true;
+        });
+        break;
+      }
+      case 'addEdge': {
+        const { id, source, target } = op.edge;
+        if (deleted[`edge:${id}`]) return reject('deleted', `Edge ${id} was deleted; add it under a new id`);
+        if (edgeIndex(id) !== -1) return reject('exists', `Edge ${id} already exists`);
+        const end = [source, target].find(nodeId => nodeIndex(nodeId) === -1);
+        if (end !== undefined) return missing('node', end);
+        if (edges.length >= MAX_GRAPH_EDGES) return reject('limit', `A map has at most ${MAX_GRAPH_EDGES} edges`);
+        edges.push(copy(op.edge));
+        break;
+      }
+      case 'removeEdge': {
+        const index = edgeIndex(op.id);
+        if (index === -1) return missing('edge', op.id);
+        edges.splice(index, 1);
+        deleted[`edge:${op.id}`] = true;
+        break;
+      }
+      case 'setTitle':
+        conflict = touch(['title'], baseSeq, clientId);
+        title = op.title;
+        break;
+    }
+
+    seq++;
+    return { ok: true, applied: { seq, op, conflict, ...(removedEdges && { removedEdges }) } };
+  };
+
+  return {
+    apply,
+    // Sequence number of the last applied edit
+    seq: () => seq,
+    content: (): MindMapContent => copy({ title, nodes, edges })
+  };
+};
+
+export type LiveDocument = ReturnType<typeof createLiveDocument>;
@@ -0,0 +1,268 @@
+import { randomUUID } from 'crypto';
+import { IncomingMessage, STATUS_CODES } from 'http';
+import { Duplex } from 'stream';
+import WebSocket, { WebSocketServer } from 'ws';
+import { TokenVerifier } from '../auth/types';
+import { ErrorCode } from '../http/errors';
+import { isMember, MindMapRepository, StoredMindMap } from '../mindmaps/repository';
+import { logger } from '../observability/logger';
+import { liveClientMessageSchema } from '../schemas/requests';
+import { createLiveDocument, LiveDocument } from './document';
+
+// Live editing of saved mind maps over WebSocket: GET /api/mindmap/:id/live with a bearer token in the
+// Authorization header or, for browsers, in ?token=. The owner and the map's collaborators can join.
+//
+// Server -> client
+//   snapshot { clientId, seq, version, map, peers }   first message: the current state
+//   op       { seq, clientId, uid, opId, op, conflict, removedEdges? }   every applied edit, the sender's too
+//   rejected { opId, reason, message }               an edit that could not be applied (sender only)
+//   joined   { peer } / left { clientId }            presence
+//   cursor   { clientId, cursor }                    another client's pointer, or null
+//   saved    { version, seq }                        the state up to seq was stored as a revision
+//   error    { code, message, details? }             a message the server could not read, or FORBIDDEN before
+//                                                    the socket is closed (4403) for a user removed from the map
+// Client -> server: { type: "op", opId, baseSeq, op } and { type: "cursor", cursor } (src/schemas/requests.ts)
+
+const LIVE_PATH = /^\/api\/mindmap\/([^/]+)\/live\/?$/;
+const BEARER = /^Bearer\s+(.+)$/i;
+const MAX_MESSAGE_BYTES = 256 * 1024;
+const COLORS = ['#e6194b', '#3cb44b', '#4363d8', '#f58231', '#911eb4', '#42d4f4', '#f032e6', '#9a6324'];
+
+export type CollaborationOptions = {
+  mindMaps: MindMapRepository;
+  verifier: TokenVerifier;
+  // Live edits are stored as a new revision this often, and when the last client leaves; 0 turns the timer off
+  saveIntervalMs?: number;
+};
+
+type Peer = { clientId: string; uid: string; color: string; cursor: unknown };
+
+type Session = {
+  mapId: string;
+  ownerId: string;
+  document: LiveDocument;
+  clients: Map<WebSocket, Peer>;
+  // Map version and edit sequence number of the last save
+  version: number;
+  savedSeq: number;
+  saving: Promise<void>;
+};
+
+// Answers an upgrade request with a plain HTTP error in the usual envelope
+const rejectUpgrade = (socket: Duplex, status: number, code: ErrorCode, message: string) => {
+  const body = JSON.stringify({ code, message });
+  socket.end(
+    `HTTP/1.1 ${status} ${STATUS_CODES[status]}\r\n` +
+    'Content-Type: application/json; charset=utf-8\r\n' +
+    `Content-Length: ${Buffer.byteLength(body)}\r\n` +
+    'Connection: close\r\n\r\n' +
+    body
+  );
+};
+
+const send = (socket: WebSocket, message: object) => {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+export const createCollaborationHub = ({ mindMaps, verifier, saveIntervalMs = 10000 }: CollaborationOptions) => {
+  const server = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+  const sessions = new Map<string, Session>();
+  // Sessions being loaded, so clients joining at the same moment share one
+  const opening = new Map<string, Promise<Session>>();
+
+  const broadcast = (session: Session, message: object, except?: WebSocket) => {
+    session.clients.forEach((_peer, socket) => {
+      if (socket !== except) send(socket, message);
+    });
+  };
+
+  // Stores the edits since the last save as a new revision; saves of one session never overlap
+  const save = (session: Session) => {
+    session.saving = session.saving.then(async () => {
+      const seq = session.document.seq();
+      if (seq === session.savedSeq) return;
+      try {
+        const saved = await mindMaps.saveRevision(session.mapId, session.ownerId, session.document.content());
+        session.version = saved.version;
+        session.savedSeq = seq;
+        broadcast(session, { type: 'saved', version: saved.version, seq });
+      } catch (error: any) {
+        // Kept in memory; the next save tries again
+        logger.error('Failed to save live edits', { mapId: session.mapId, error: error.message });
+      }
+    });
+    return session.saving;
+  };
+
+  const openSession = async (mapId: string): Promise<Session> => {
+    const live = sessions.get(mapId);
+    if (live) return live;
+    const pending = opening.get(mapId);
+    if (pending) return pending;
+    const loading = mindMaps.get(mapId).then(map => {
+      if (!map) throw new Error(`Mind map ${mapId} does not exist`);
+      const session: Session = {
+        mapId,
+        ownerId: map.ownerId,
+        document: createLiveDocument(map),
+        clients: new Map(),
+        version: map.version,
+        savedSeq: 0,
+        saving: Promise.resolve()
+      };
+      sessions.set(mapId, session);
+      return session;
+    });
+    opening.set(mapId, loading);
+    try {
+      return await loading;
+    } finally {
+      opening.delete(mapId);
+    }
+  };
+
+  const leave = async (session: Session, socket: WebSocket) => {
+    const peer = session.clients.get(socket);
+    if (!peer) return;
+    session.clients.delete(socket);
+    broadcast(session, { type: 'left', clientId: peer.clientId });
+    if (session.clients.size) return;
+    await save(session);
+    // Someone may have joined while the save ran
+    if (!session.clients.size && sessions.get(session.mapId) === session) sessions.delete(session.mapId);
+  };
+
+  const join = (session: Session, socket: WebSocket, uid: string) => {
+    const peer: Peer = { clientId: randomUUID(), uid, color: COLORS[session.clients.size % COLORS.length], cursor: null };
+    const publicPeer = ({ clientId, uid: peerUid, color, cursor }: Peer) => ({ clientId, uid: peerUid, color, cursor });
+
+    send(socket, {
+      type: 'snapshot',
+      clientId: peer.clientId,
+      seq: session.document.seq(),
+      version: session.version,
+      map: session.document.content(),
+      peers: Array.from(session.clients.values()).map(publicPeer)
+    });
+    broadcast(session, { type: 'joined', peer: publicPeer(peer) });
+    session.clients.set(socket, peer);
+
+    socket.on('message', raw => {
+      // Removed from the map, waiting for the close handshake
+      if (!session.clients.has(socket)) return;
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(raw.toString());
+      } catch {
+        send(socket, { type: 'error', code: 'INVALID_JSON', message: 'Messages must be JSON' });
+        return;
+      }
+      const result = liveClientMessageSchema.safeParse(parsed);
+      if (!result.success) {
+        send(socket, {
+          type: 'error',
+          code: 'VALIDATION_FAILED',
+          message: 'Message validation failed',
+          details: result.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }))
+        });
+        return;
+      }
+      const message = result.data;
+      if (message.type === 'cursor') {
+        peer.cursor = message.cursor;
+        broadcast(session, { type: 'cursor', clientId: peer.clientId, cursor: message.cursor }, socket);
+        return;
+      }
+      const outcome = session.document.apply(message.op, message.baseSeq, peer.clientId);
+      if (!outcome.ok) {
+        send(socket, { type: 'rejected', opId: message.opId, reason: outcome.reason, message: outcome.message });
+        return;
+      }
+      broadcast(session, { type: 'op', clientId: peer.clientId, uid, opId: message.opId, ...outcome.applied });
+    });
+    socket.on('close', () => {
+      leave(session, socket).catch(error => logger.error('Failed to close live session', { mapId: session.mapId, error: error.message }));
+    });
+  };
+
+  // For the HTTP server's 'upgrade' event; other paths are refused
+  const handleUpgrade = async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const path = LIVE_PATH.exec(url.pathname);
+    if (!path) {
+      rejectUpgrade(socket, 404, 'NOT_FOUND', `No WebSocket endpoint at ${url.pathname}`);
+      return;
+    }
+    const token = BEARER.exec(req.headers.authorization || '')?.[1] || url.searchParams.get('token');
+    if (!token) {
+      rejectUpgrade(socket, 401, 'UNAUTHENTICATED', 'Missing bearer token');
+      return;
+    }
+    let uid: string;
+    try {
+      uid = (await verifier(token.trim())).uid;
+    } catch (error: any) {
+      logger.warn('Rejected bearer token', { error: error.message });
+      rejectUpgrade(socket, 401, 'UNAUTHENTICATED', 'Invalid or expired token');
+      return;
+    }
+    try {
+      const mapId = decodeURIComponent(path[1]);
+      const map = await mindMaps.get(mapId);
+      if (!map) {
+        rejectUpgrade(socket, 404, 'NOT_FOUND', 'Mind map not found');
+        return;
+      }
+      if (!isMember(map, uid)) {
+        rejectUpgrade(socket, 403, 'FORBIDDEN', 'You do not have access to this mind map');
+        return;
+      }
+      const session = await openSession(mapId);
+      server.handleUpgrade(req, socket, head, websocket => join(session, websocket, uid));
+    } catch (error: any) {
+      logger.error('Failed to open live session', { error: error.message });
+      rejectUpgrade(socket, 500, 'INTERNAL_ERROR', 'Failed to open live session');
+    }
+  };
+
+  // Disconnects the clients of a live map who are neither its owner nor a collaborator any more
+  const dropNonMembers = (map: StoredMindMap) => {
+    const session = sessions.get(map.id);
+    if (!session) return;
+    session.clients.forEach((peer, socket) => {
+      if (isMember(map, peer.uid)) return;
+      send(socket, { type: 'error', code: 'FORBIDDEN', message: 'You no longer have access to this mind map' });
+      leave(session, socket).catch(error => logger.error('Failed to close live session', { mapId: session.mapId, error: error.message }));
+      socket.close(4403, 'Access revoked');
+    });
+  };
+
+  // Saves every session with unsaved edits
+  const flush = async () => {
+    await Promise.all(Array.from(sessions.values()).map(save));
+  };
+
+  const timer = saveIntervalMs > 0 ? setInterval(() => {
+    flush().catch(error => logger.error('Failed to save live sessions', { error: error.message }));
+  }, saveIntervalMs) : null;
+  if (timer) timer.unref();
+
+  // Saves everything and disconnects the clients (going away)
+  const close = async () => {
+    if (timer) clearInterval(timer);
+    await flush();
+    sessions.forEach(session => session.clients.forEach((_peer, socket) => socket.close(1001, 'Server shutting down')));
+    server.close();
+  };
+
+  return {
+    handleUpgrade,
+    // Whether the map is open for live editing; REST writes are refused meanwhile
+    isLive: (mapId: string) => sessions.has(mapId),
+    dropNonMembers,
+    flush,
+    close
+  };
+};
+
+export type CollaborationHub = ReturnType<typeof createCollaborationHub>;
@@ -0,0 +1,2 @@
+export { AppliedOperation, ApplyResult, createLiveDocument, LiveDocument, RejectReason } from './document';
+export { CollaborationHub, CollaborationOptions, createCollaborationHub } from './hub';
@@ -0,0 +1,73 @@
+import { loadConfig } from '.';
+
+const minimal = { AUTH_LOCAL_SECRET: 'secret' };
+
+describe('loadConfig', () => {
+  it('fills in defaults', () => {
+    const config = loadConfig(minimal);
+    expect(config).toMatchObject({
+      port: 5002,
+      portFallbacks: 10,
+      corsOrigins: [],
+      logLevel: 'info',
+      shutdownTimeoutMs: 30000,
+      auth: { verifier: 'local', secret: 'secret' },
+      storage: { backend: 'memory' },
+      cache: { backend: 'memory' },
+      usage: { backend: 'memory' }
+    });
+    expect(config.llm.routes.careerDetails).toMatchObject({ provider: 'mock', model: 'gpt-4o', timeoutMs: 60000 });
+  });
+
+  it('reads server settings and per-route model settings', () => {
+    const config = loadConfig({
+      ...minimal,
+      PORT: '8080',
+      CORS_ORIGINS: 'https://growgraph.app, https://staging.growgraph.app',
+      TRUST_PROXY: '1',
+      LLM_MODEL: 'gpt-4o-mini',
+      LLM_CAREER_DETAILS_MODEL: 'gpt-4o',
+      LLM_CAREER_DETAILS_TIMEOUT_MS: '20000',
+      LLM_RETRY_MAX: '3'
+    });
+    expect(config).toMatchObject({ port: 8080, corsOrigins: ['https://growgraph.app', 'https://staging.growgraph.app'], trustProxy: 1 });
+    expect(config.llm.routes.careerDetails).toMatchObject({ model: 'gpt-4o', timeoutMs: 20000, retry: { maxRetries: 3 } });
+    expect(config.llm.routes.suggestions).toMatchObject({ model: 'gpt-4o-mini', timeoutMs: 60000 });
+  });
+
+  it('reports every problem in every section at once', () => {
+    let problems: string[] = [];
+    try {
+      loadConfig({
+        PORT: 'eighty',
+        LOG_LEVEL: 'loud',
+        STORAGE_BACKEND: 'postgres',
+        LLM_TEMPERATURE: '3',
+        LLM_PROVIDER: 'openai',
+        CACHE_MAX_ENTRIES: '0'
+      });
+    } catch (error: any) {
+      expect(error.message).toMatch(/^Invalid configuration:\n- /);
+      problems = error.problems;
+    }
+    expect(problems).toEqual(expect.arrayContaining([
+      'PORT must be an integer between 0 and 65535 (got "eighty")',
+      'LOG_LEVEL must be one of debug, info, warn, error, silent (got "loud")',
+      'AUTH_LOCAL_SECRET is required for AUTH_VERIFIER=local',
+      'STORAGE_BACKEND must be one of firestore, memory, file (got "postgres")',
+      'CACHE_MAX_ENTRIES must be an integer >= 1 (got "0")',
+      'LLM_TEMPERATURE must be a number between 0 and 2 (got "3")',
+      expect.stringMatching(/OPENAI_API_KEY/)
+    ]));
+  });
+
+  it('requires Firestore storage for Firestore-backed caches and ledgers', () => {
+    expect(() => loadConfig({ ...minimal, STORAGE_BACKEND: 'file', CACHE_BACKEND: 'firestore', USAGE_BACKEND: 'firestore' }))
+      .toThrow(expect.objectContaining({
+        problems: [
+          'CACHE_BACKEND=firestore needs STORAGE_BACKEND=firestore',
+          'USAGE_BACKEND=firestore needs STORAGE_BACKEND=firestore'
+        ]
+      }));
+  });
+});
@@ -0,0 +1,61 @@
+export type Env = Record<string, string | undefined>;
+
+// Reads environment variables and collects every problem instead of stopping at the first, so a
+// misconfigured deployment learns about all of its mistakes at once. Readers return the fallback
+// for a value they reject.
+export const createEnvReader = (env: Env) => {
+  const problems: string[] = [];
+  const raw = (name: string) => {
+    const value = env[name];
+    return value === undefined || value.trim() === '' ? undefined : value.trim();
+  };
+
+  const text = (name: string, fallback: string) => raw(name) ?? fallback;
+
+  const optionalText = (name: string) => raw(name);
+
+  const number = (name: string, fallback: number, { min = -Infinity, max = Infinity, integer = false } = {}) => {
+    const value = raw(name);
+    if (value === undefined) return fallback;
+    const parsed = Number(value);
+    if (Number.isNaN(parsed) || (integer && !Number.isInteger(parsed)) || parsed < min || parsed > max) {
+      const kind = integer ? 'an integer' : 'a number';
+      const range = min > -Infinity && max < Infinity ? ` between ${min} and ${max}` : min > -Infinity ? ` >= ${min}` : '';
+      problems.push(`${name} must be ${kind}${range} (got "${value}")`);
+      return fallback;
+    }
+    return parsed;
+  };
+
+  const oneOf = <T extends string>(name: string, values: readonly T[], fallback: T): T => {
+    const value = raw(name);
+    if (value === undefined) return fallback;
+    if (values.indexOf(value.toLowerCase() as T) === -1) {
+      problems.push(`${name} must be one of ${values.join(', ')} (got "${value}")`);
+      return fallback;
+    }
+    return value.toLowerCase() as T;
+  };
+
+  // Comma-separated, blanks dropped
+  const list = (name: string) => (raw(name) || '').split(',').map(item => item.trim()).filter(Boolean);
+
+  const require = (condition: boolean, problem: string) => {
+    if (!condition) problems.push(problem);
+  };
+
+  // Throws one error listing every problem found so far
+  const done = () => {
+    if (problems.length) throw configError(problems);
+  };
+
+  return { text, optionalText, number, oneOf, list, require, done, problems };
+};
+
+export type EnvReader = ReturnType<typeof createEnvReader>;
+
+export const configError = (problems: string[]) =>
+  Object.assign(new Error(`Invalid configuration:\n${problems.map(problem => `- ${problem}`).join('\n')}`), { problems });
+
+// The problems behind an error thrown by a config loader
+export const problemsOf = (error: any): string[] => (Array.isArray(error?.problems) ? error.problems : [error.message]);
@@ -0,0 +1,82 @@
+import { AuthConfig, loadAuthConfig } from '../auth/verifiers';
+import { CacheConfig, loadCacheConfig } from '../cache';
+import { loadLLMConfig } from '../llm/config';
+import { LLMConfig } from '../llm/types';
+import { LOG_LEVELS, LogLevel } from '../observability/logger';
+import { loadStorageConfig, StorageConfig } from '../storage';
+import { loadUsageConfig, UsageConfig } from '../usage';
+import { configError, createEnvReader, Env, problemsOf } from './env';
+
+export { configError, createEnvReader, Env, EnvReader, problemsOf } from './env';
+
+// Everything the server reads from the environment, validated at startup (see README "Configuration")
+export type Config = {
+  port: number;
+  // How many of the following ports are tried when `port` is taken
+  portFallbacks: number;
+  // Origins allowed by CORS; empty allows any
+  corsOrigins: string[];
+  // Express `trust proxy` setting
+  trustProxy?: string | number;
+  adminUids: string[];
+  metricsToken?: string;
+  logLevel: LogLevel;
+  // Replaces the bundled career taxonomy
+  taxonomyFile?: string;
+  // Prompt template versions and experiments on top of the bundled templates
+  promptDir?: string;
+  liveSaveIntervalMs: number;
+  // How long a shutdown waits for in-flight AI requests
+  shutdownTimeoutMs: number;
+  // Per readiness check (storage, model backends)
+  readinessTimeoutMs: number;
+  auth: AuthConfig;
+  storage: StorageConfig;
+  cache: CacheConfig;
+  usage: UsageConfig;
+  llm: LLMConfig;
+};
+
+// Throws one error listing every problem in every section
+export const loadConfig = (env: Env = process.env): Config => {
+  const read = createEnvReader(env);
+  const problems = read.problems;
+
+  const trustProxy = read.optionalText('TRUST_PROXY');
+  const server = {
+    port: read.number('PORT', 5002, { min: 0, max: 65535, integer: true }),
+    portFallbacks: read.number('PORT_FALLBACKS', 10, { min: 0, max: 100, integer: true }),
+    corsOrigins: read.list('CORS_ORIGINS').filter(origin => origin !== '*'),
+    trustProxy: trustProxy && /^\d+$/.test(trustProxy) ? parseInt(trustProxy, 10) : trustProxy,
+    adminUids: read.list('ADMIN_UIDS'),
+    metricsToken: read.optionalText('METRICS_TOKEN'),
+    logLevel: read.oneOf('LOG_LEVEL', LOG_LEVELS, 'info'),
+    taxonomyFile: read.optionalText('TAXONOMY_FILE'),
+    promptDir: read.optionalText('PROMPT_DIR'),
+    liveSaveIntervalMs: read.number('LIVE_SAVE_INTERVAL_MS', 10000, { min: 0, integer: true }),
+    shutdownTimeoutMs: read.number('SHUTDOWN_TIMEOUT_MS', 30000, { min: 0, integer: true }),
+    readinessTimeoutMs: read.number('READINESS_TIMEOUT_MS', 3000, { min: 1, integer: true })
+  };
+
+  const section = <T>(load: (env: Env) => T): T | undefined => {
+    try {
+      return load(env);
+    } catch (error) {
+      problems.push(...problemsOf(error));
+      return undefined;
+    }
+  };
+  const auth = section(loadAuthConfig);
+  const storage = section(loadStorageConfig);
+  const cache = section(loadCacheConfig);
+  const usage = section(loadUsageConfig);
+  const llm = section(loadLLMConfig);
+
+  if (storage && storage.backend !== 'firestore') {
+    if (cache?.backend === 'firestore') problems.push('CACHE_BACKEND=firestore needs STORAGE_BACKEND=firestore');
+    if (usage?.backend === 'firestore') problems.push('USAGE_BACKEND=firestore needs STORAGE_BACKEND=firestore');
+  }
+  if (problems.length) throw configError(problems);
+
+  return { ...server, auth, storage, cache, usage, llm } as Config;
+};
@@ -0,0 +1,167 @@
+import { estimateNodeSize, LayoutEdge, LayoutNode } from '../layout';
+import { resolveCollisions } from '../layout/collisions';
+import { Point, Size } from '../layout/types';
+import { roleData } from '../careers/roles';
+import { DataSource } from '../llm/structured';
+import { Locale } from '../locales';
+import { hashString } from '../utils/hash';
+import { normalizeTitle } from './normalize';
+
+export type ExpansionOptions = {
+  // Number of tiers to add below the target node
+  level: number;
+  // Children per node on the first tier; deeper tiers get half as many
+  breadth: number;
+  // Language of the suggested titles
+  locale: Locale;
+};
+
+export type SuggestTitles = (label: string, locale: Locale) => Promise<{ suggestions: string[]; dataSource: DataSource }>;
+
+// Asked before each tier after the first; false stops the expansion (e.g. the caller's quota ran out)
+export type CanContinue = () => Promise<boolean>;
+
+export type ExpansionResult = {
+  parentId: string;
+  nodes: (LayoutNode & { position: Point })[];
+  edges: LayoutEdge[];
+  dataSource: DataSource;
+  // Some nodes were not expanded because of MAX_SUGGESTION_CALLS or CanContinue
+  truncated: boolean;
+};
+
+// Suggestion calls per expansion, whatever level and breadth ask for (level 3 at breadth 12 would be 85).
+// Nodes past the limit are added without children of their own.
+export const MAX_SUGGESTION_CALLS = 20;
+
+const SPACING = 24;
+const MIN_RADIUS = 200;
+
+// The least trustworthy source across all tiers wins
+const DATA_SOURCE_RANK: DataSource[] = ['ai-validated', 'ai-repaired', 'fallback'];
+const worstSource = (a: DataSource, b: DataSource) =>
+  DATA_SOURCE_RANK.indexOf(a) > DATA_SOURCE_RANK.indexOf(b) ? a : b;
+
+const centreOf = (node: LayoutNode, size: Size): Point => ({
+  x: (node.position?.x ?? 0) + size.width / 2,
+  y: (node.position?.y ?? 0) + size.height / 2
+});
+
+// Children fan out on an arc facing away from the parent's own parent (full circle for the root)
+const placeAround = (parent: Point, awayFrom: Point | null, parentSize: Size, childSizes: Size[]): Point[] => {
+  const count = childSizes.length;
+  if (count === 0) return [];
+  const widest = Math.max(...childSizes.map(size => size.width));
+  let radius = Math.max(MIN_RADIUS, (parentSize.width + widest) / 2 + SPACING * 3);
+
+  const outward = awayFrom && (awayFrom.x !== parent.x || awayFrom.y !== parent.y)
+    ? Math.atan2(parent.y - awayFrom.y, parent.x - awayFrom.x)
+    : null;
+  const sweep = outward === null ? Math.PI * 2 : Math.PI;
+  const step = outward === null ? sweep / count : count > 1 ? sweep / (count - 1) : 0;
+  if (step > 0) {
+    radius = Math.max(radius, (widest + SPACING) / step);
+  }
+  const start = outward === null ? -Math.PI / 2 : count > 1 ? outward - sweep / 2 : outward;
+
+  return childSizes.map((_, idx) => {
+    const angle = start + step * idx;
+    return { x: parent.x + Math.cos(angle) * radius, y: parent.y + Math.sin(angle) * radius };
+  });
+};
+
+// Adds `level` tiers of suggested roles below `targetId`, skipping titles already on the map
+export const expandGraph = async (
+  graph: { nodes: LayoutNode[]; edges: LayoutEdge[] },
+  targetId: string,
+  options: ExpansionOptions,
+  suggest: SuggestTitles,
+  canContinue: CanContinue = async () => true
+): Promise<ExpansionResult> => {
+  const nodes = new Map(graph.nodes.map(node => [node.id, node]));
+  const sizes = new Map<string, Size>(graph.nodes.map(node => [node.id, estimateNodeSize(node.data?.label)]));
+  const centres = new Map<string, Point>(graph.nodes.map(node => [node.id, centreOf(node, sizes.get(node.id) as Size)]));
+  const parentOf = new Map<string, string>();
+  graph.edges.forEach(edge => parentOf.set(edge.target, edge.source));
+
+  const seen = new Set(graph.nodes.map(node => normalizeTitle(node.data?.label)));
+  const pinned = new Set(nodes.keys());
+  const added: LayoutNode[] = [];
+  const addedEdges: LayoutEdge[] = [];
+  let dataSource: DataSource = 'ai-validated';
+  let truncated = false;
+  let calls = 0;
+
+  const uniqueId = (parentId: string, key: string) => {
+    const base = `${parentId}-${hashString(key).toString(36)}`;
+    let id = base;
+    for (let n = 2; nodes.has(id); n++) id = `${base}-${n}`;
+    return id;
+  };
+
+  let frontier = [targetId];
+  for (let tier = 1; tier <= options.level && frontier.length; tier++) {
+    if (tier > 1 && !(await canContinue())) {
+      truncated = true;
+      break;
+    }
+    if (frontier.length > MAX_SUGGESTION_CALLS - calls) {
+      frontier = frontier.slice(0, MAX_SUGGESTION_CALLS - calls);
+      truncated = true;
+      if (!frontier.length) break;
+    }
+    calls += frontier.length;
+    const breadth = tier === 1 ? options.breadth : Math.max(1, Math.ceil(options.breadth / 2));
+    const results = await Promise.all(frontier.map(id => suggest((nodes.get(id) as LayoutNode).data.label, options.locale)));
+
+    const next: string[] = [];
+    frontier.forEach((parentId, idx) => {
+      dataSource = worstSource(dataSource, results[idx].dataSource);
+      const children: LayoutNode[] = [];
+      results[idx].suggestions.forEach(title => {
+        const key = normalizeTitle(title);
+        if (!key || seen.has(key) || children.length >= breadth) return;
+        seen.add(key);
+        const child = { id: uniqueId(parentId, key), data: roleData(title, options.locale) };
+        nodes.set(child.id, child);
+        sizes.set(child.id, estimateNodeSize(child.data.label));
+        children.push(child);
+      });
+
+      const grandparent = parentOf.get(parentId);
+      const points = placeAround(
+        centres.get(parentId) as Point,
+        grandparent ? (centres.get(grandparent) as Point) : null,
+        sizes.get(parentId) as Size,
+        children.map(child => sizes.get(child.id) as Size)
+      );
+      children.forEach((child, childIdx) => {
+        centres.set(child.id, points[childIdx]);
+        parentOf.set(child.id, parentId);
+        added.push(child);
+        addedEdges.push({ id: `e${parentId}-${child.id}`, source: parentId, target: child.id });
+        next.push(child.id);
+      });
+    });
+
+    // Existing nodes never move; new ones are nudged until nothing overlaps
+    resolveCollisions(centres, sizes, SPACING, pinned);
+    next.forEach(id => pinned.add(id));
+    frontier = next;
+  }
+
+  return {
+    parentId: targetId,
+    nodes: added.map(node => {
+      const centre = centres.get(node.id) as Point;
+      const size = sizes.get(node.id) as Size;
+      return {
+        ...node,
+        position: { x: Math.round(centre.x - size.width / 2), y: Math.round(centre.y - size.height / 2) }
+      };
+    }),
+    edges: addedEdges,
+    dataSource,
+    truncated
+  };
+};
@@ -0,0 +1,11 @@
+// Experience hints appended to titles: "(신입)", "(경력 5년+)", "(Entry level)", "(3-5 yrs)"
+const EXPERIENCE_SUFFIX = /\s*[(（](?:신입|entry(?: level)?|경력[^)）]*|[^)）]*\d+\s*\+?\s*(?:년|years?|yrs?)[^)）]*)[)）]\s*$/i;
+
+export const stripExperienceSuffix = (title: string): string => title.replace(EXPERIENCE_SUFFIX, '').trim();
+
+// Key used to detect duplicate roles: case, punctuation, spacing and the experience suffix are ignored
+export const normalizeTitle = (title: string): string =>
+  stripExperienceSuffix(String(title || '').normalize('NFKC'))
+    .toLowerCase()
+    .replace(/[^a-z0-9\u1100-\u11ff\u3130-\u318f\uac00-\ud7af]+/g, ' ')
+    .trim();
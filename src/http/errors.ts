@@ -0,0 +1,58 @@
+import { ErrorRequestHandler, RequestHandler, Response } from 'express';
+import { logger } from '../observability/logger';
+
+export type ErrorCode =
+  | 'VALIDATION_FAILED'
+  | 'INVALID_JSON'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'UNSUPPORTED_MEDIA_TYPE'
+  | 'UNAUTHENTICATED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'RATE_LIMITED'
+  | 'QUOTA_EXCEEDED'
+  | 'SERVICE_UNAVAILABLE'
+  | 'INTERNAL_ERROR';
+
+// Every error response has the same shape:
+// { code, message, details?, requestId }
+export const sendError = (res: Response, status: number, code: ErrorCode, message: string, details?: unknown) => {
+  res.status(status).json({
+    code,
+    message,
+    ...(details !== undefined && { details }),
+    requestId: res.locals.requestId
+  });
+};
+
+// For unexpected failures inside a handler; logs the cause and answers 500
+export const sendInternalError = (res: Response, message: string, error: any) => {
+  logger.error(message, { error });
+  sendError(res, 500, 'INTERNAL_ERROR', message, {
+    cause: error?.message,
+    ...(error?.status !== undefined && { upstreamStatus: error.status })
+  });
+};
+
+// Fallback for paths no router handled
+export const notFoundHandler: RequestHandler = (req, res) => {
+  sendError(res, 404, 'NOT_FOUND', `No route for ${req.method} ${req.path}`);
+};
+
+// Errors thrown by middleware (body parsing) or passed to next(error)
+export const errorHandler: ErrorRequestHandler = (error, req, res, next) => {
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+  if (error?.type === 'entity.parse.failed') {
+    sendError(res, 400, 'INVALID_JSON', 'Request body is not valid JSON', { cause: error.message });
+    return;
+  }
+  if (error?.type === 'entity.too.large') {
+    sendError(res, 413, 'PAYLOAD_TOO_LARGE', 'Request body is too large', { limit: error.limit });
+    return;
+  }
+  sendInternalError(res, 'Unexpected server error', error);
+};
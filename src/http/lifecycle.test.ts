@@ -0,0 +1,121 @@
+import http from 'http';
+import request from 'supertest';
+import { bearer, createTestApp } from '../testing/stubs';
+import { listenWithFallback } from './listen';
+
+const SUGGESTIONS = { nodeContent: 'Backend Developer', locale: 'en' };
+
+// Holds every model call of the test app until release() is called
+const holdModel = (stub: ReturnType<typeof createTestApp>['stub']) => {
+  let release!: () => void;
+  const gate = new Promise<void>(resolve => {
+    release = resolve;
+  });
+  const complete = stub.provider.complete;
+  stub.provider.complete = async request => {
+    await gate;
+    return complete(request);
+  };
+  return release;
+};
+
+const until = async (condition: () => boolean) => {
+  while (!condition()) await new Promise(resolve => setTimeout(resolve, 5));
+};
+
+describe('health probes', () => {
+  it('answers /healthz and /readyz without authentication', async () => {
+    const { app } = createTestApp();
+    expect((await request(app).get('/healthz')).body).toEqual({ status: 'ok', uptimeSeconds: expect.any(Number) });
+    const response = await request(app).get('/readyz');
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      status: 'ready',
+      checks: {
+        storage: { status: 'ok', latencyMs: expect.any(Number) },
+        llm: { status: 'ok', latencyMs: expect.any(Number) }
+      }
+    });
+  });
+
+  it('is not ready while a backend check fails', async () => {
+    const { app, storage } = createTestApp();
+    storage.check = async () => {
+      throw new Error('Storage directory is not writable');
+    };
+    const response = await request(app).get('/readyz');
+    expect(response.status).toBe(503);
+    expect(response.body).toMatchObject({
+      status: 'not-ready',
+      checks: { storage: { status: 'failed', error: 'Storage directory is not writable' }, llm: { status: 'ok' } }
+    });
+    expect((await request(app).get('/healthz')).status).toBe(200);
+  });
+});
+
+describe('graceful shutdown', () => {
+  it('refuses new AI requests and waits for the running ones', async () => {
+    const { app, stub, shutdown } = createTestApp();
+    const release = holdModel(stub);
+    const running = request(app).post('/api/suggestions').set(bearer()).send(SUGGESTIONS).then(response => response);
+    await until(() => shutdown.inFlight() === 1);
+
+    shutdown.begin();
+    const drained = shutdown.drain(5000);
+    const refused = await request(app).post('/api/suggestions').set(bearer()).send(SUGGESTIONS);
+    expect(refused.status).toBe(503);
+    expect(refused.body.code).toBe('SERVICE_UNAVAILABLE');
+    expect((await request(app).get('/readyz')).body).toMatchObject({ status: 'not-ready', shuttingDown: true });
+    // Non-AI routes keep working until the server stops accepting connections
+    expect((await request(app).get('/api/mindmap').set(bearer())).status).toBe(200);
+
+    release();
+    expect((await running).status).toBe(200);
+    await expect(drained).resolves.toBe(true);
+  });
+
+  it('gives up draining after the timeout', async () => {
+    const { app, stub, shutdown } = createTestApp();
+    const release = holdModel(stub);
+    const running = request(app).post('/api/suggestions').set(bearer()).send(SUGGESTIONS).then(response => response);
+    await until(() => shutdown.inFlight() === 1);
+
+    shutdown.begin();
+    await expect(shutdown.drain(20)).resolves.toBe(false);
+    release();
+    await running;
+  });
+});
+
+describe('AI request timeouts', () => {
+  it('abandons a model call that takes longer than LLM_TIMEOUT_MS and serves the fallback', async () => {
+    const { app, stub } = createTestApp({ env: { LLM_TIMEOUT_MS: '20' } });
+    const release = holdModel(stub);
+    const response = await request(app).post('/api/suggestions').set(bearer()).send(SUGGESTIONS);
+    release();
+    expect(response.status).toBe(200);
+    expect(response.body.dataSource).toBe('fallback');
+  });
+});
+
+describe('listenWithFallback', () => {
+  const servers: http.Server[] = [];
+  const newServer = () => {
+    const server = http.createServer((req, res) => res.end());
+    servers.push(server);
+    return server;
+  };
+  afterEach(() => Promise.all(servers.splice(0).map(server => new Promise(resolve => server.close(resolve)))));
+
+  it('moves on to the next port when the first is taken', async () => {
+    const taken = await listenWithFallback(newServer(), 0, 0);
+    const port = await listenWithFallback(newServer(), taken, 5);
+    expect(port).toBeGreaterThan(taken);
+    expect(port).toBeLessThanOrEqual(taken + 5);
+  });
+
+  it('fails once the fallbacks are used up', async () => {
+    const taken = await listenWithFallback(newServer(), 0, 0);
+    await expect(listenWithFallback(newServer(), taken, 0)).rejects.toMatchObject({ code: 'EADDRINUSE' });
+  });
+});
@@ -0,0 +1,28 @@
+import { Server } from 'http';
+import { logger } from '../observability/logger';
+
+// Listens on `port`, moving on to the next port while the current one is taken, at most `fallbacks` times.
+// Resolves with the port in use. server.listen reports a busy port through the 'error' event, not by throwing.
+export const listenWithFallback = (server: Server, port: number, fallbacks: number): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const attempt = (current: number) => {
+      const onError = (error: NodeJS.ErrnoException) => {
+        server.off('listening', onListening);
+        if (error.code === 'EADDRINUSE' && current < port + fallbacks) {
+          logger.warn('Port is busy, trying the next one', { port: current, next: current + 1 });
+          attempt(current + 1);
+        } else {
+          reject(error);
+        }
+      };
+      const onListening = () => {
+        server.off('error', onError);
+        const address = server.address();
+        resolve(address && typeof address === 'object' ? address.port : current);
+      };
+      server.once('error', onError);
+      server.once('listening', onListening);
+      server.listen(current);
+    };
+    attempt(port);
+  });
@@ -0,0 +1,15 @@
+import { randomUUID } from 'crypto';
+import { RequestHandler } from 'express';
+import { runWithRequestId } from '../observability/context';
+
+const REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+// Reuses a well-formed X-Request-Id from the caller (e.g. a proxy) or assigns a new one,
+// echoes it back and exposes it to error responses via res.locals.requestId and to log lines via the request context
+export const requestId: RequestHandler = (req, res, next) => {
+  const incoming = req.header('x-request-id');
+  const id = incoming && REQUEST_ID.test(incoming) ? incoming : randomUUID();
+  res.locals.requestId = id;
+  res.setHeader('X-Request-Id', id);
+  runWithRequestId(id, next);
+};
@@ -0,0 +1,66 @@
+import { RequestHandler } from 'express';
+import { sendError } from './errors';
+
+export type Shutdown = {
+  // Counts the request until its response is finished or the client goes away; answers 503 once shutdown has begun
+  track: RequestHandler;
+  begin: () => void;
+  isShuttingDown: () => boolean;
+  inFlight: () => number;
+  // Resolves true once every tracked request is done, false when timeoutMs passes first
+  drain: (timeoutMs: number) => Promise<boolean>;
+};
+
+// Lets a stopping server finish the AI requests it has started (they can take a minute) while refusing new ones
+export const createShutdown = (): Shutdown => {
+  let shuttingDown = false;
+  let active = 0;
+  let waiters: (() => void)[] = [];
+
+  const release = () => {
+    active--;
+    if (active === 0) {
+      waiters.forEach(resolve => resolve());
+      waiters = [];
+    }
+  };
+
+  const track: RequestHandler = (req, res, next) => {
+    if (shuttingDown) {
+      res.setHeader('Connection', 'close');
+      sendError(res, 503, 'SERVICE_UNAVAILABLE', 'The server is shutting down, retry shortly');
+      return;
+    }
+    active++;
+    let released = false;
+    const done = () => {
+      if (released) return;
+      released = true;
+      release();
+    };
+    res.on('finish', done);
+    res.on('close', done);
+    next();
+  };
+
+  const drain = (timeoutMs: number) => {
+    if (active === 0) return Promise.resolve(true);
+    return new Promise<boolean>(resolve => {
+      const timer = setTimeout(() => resolve(false), timeoutMs);
+      waiters.push(() => {
+        clearTimeout(timer);
+        resolve(true);
+      });
+    });
+  };
+
+  return {
+    track,
+    begin: () => {
+      shuttingDown = true;
+    },
+    isShuttingDown: () => shuttingDown,
+    inFlight: () => active,
+    drain
+  };
+};
@@ -0,0 +1,42 @@
+import { RequestHandler } from 'express';
+import { z } from 'zod';
+import { sendError } from './errors';
+
+type RequestSchemas = {
+  body?: z.ZodTypeAny;
+  query?: z.ZodTypeAny;
+  params?: z.ZodTypeAny;
+};
+
+const LOCATIONS: (keyof RequestSchemas)[] = ['params', 'query', 'body'];
+
+// Parses the request against the given schemas and replaces body/query/params with the
+// coerced result, so handlers only ever see validated input. Answers 400 otherwise.
+export const validate = (schemas: RequestSchemas): RequestHandler => (req, res, next) => {
+  const issues: { location: string; path: string; message: string }[] = [];
+  const parsed: Partial<Record<keyof RequestSchemas, unknown>> = {};
+
+  LOCATIONS.forEach(location => {
+    const schema = schemas[location];
+    if (!schema) return;
+    const result = schema.safeParse(req[location] ?? {});
+    if (result.success) {
+      parsed[location] = result.data;
+    } else {
+      result.error.issues.forEach(issue => issues.push({
+        location,
+        path: issue.path.join('.'),
+        message: issue.message
+      }));
+    }
+  });
+
+  if (issues.length) {
+    sendError(res, 400, 'VALIDATION_FAILED', 'Request validation failed', issues);
+    return;
+  }
+  LOCATIONS.forEach(location => {
+    if (location in parsed) (req as any)[location] = parsed[location];
+  });
+  next();
+};
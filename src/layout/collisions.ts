@@ -0,0 +1,76 @@
+import { Point, Size } from './types';
+
+const MAX_PASSES = 100;
+
+// Push apart overlapping node boxes (centre coordinates) along the axis of least overlap.
+// Pinned nodes never move; the other node takes the whole push instead.
+// Each pass only compares nodes in neighbouring grid cells, so it costs about O(n) rather than O(n²),
+// and the passes stop as soon as one moves nothing.
+export const resolveCollisions = (
+  positions: Map<string, Point>,
+  sizes: Map<string, Size>,
+  spacing: number,
+  pinned: Set<string>
+): Map<string, Point> => {
+  const ids = Array.from(positions.keys());
+  // Two boxes can only overlap when their centres are less than one cell apart on both axes
+  const cellWidth = Math.max(1, ...ids.map(id => (sizes.get(id) as Size).width)) + spacing;
+  const cellHeight = Math.max(1, ...ids.map(id => (sizes.get(id) as Size).height)) + spacing;
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    const grid = new Map<string, number[]>();
+    const cellOf = (point: Point) => [Math.floor(point.x / cellWidth), Math.floor(point.y / cellHeight)];
+    ids.forEach((id, index) => {
+      const [column, row] = cellOf(positions.get(id) as Point);
+      const key = `${column}:${row}`;
+      const cell = grid.get(key);
+      if (cell) cell.push(index);
+      else grid.set(key, [index]);
+    });
+
+    let moved = false;
+    for (let i = 0; i < ids.length; i++) {
+      const [column, row] = cellOf(positions.get(ids[i]) as Point);
+      const neighbours: number[] = [];
+      for (let dx = -1; dx <= 1; dx++) {
+        for (let dy = -1; dy <= 1; dy++) {
+          (grid.get(`${column + dx}:${row + dy}`) || []).forEach(j => {
+            if (j > i) neighbours.push(j);
+          });
+        }
+      }
+      // Pairs in the order a full comparison would take them
+      neighbours.sort((left, right) => left - right);
+
+      neighbours.forEach(j => {
+        const a = positions.get(ids[i]) as Point;
+        const b = positions.get(ids[j]) as Point;
+        const sizeA = sizes.get(ids[i]) as Size;
+        const sizeB = sizes.get(ids[j]) as Size;
+        const overlapX = (sizeA.width + sizeB.width) / 2 + spacing - Math.abs(a.x - b.x);
+        const overlapY = (sizeA.height + sizeB.height) / 2 + spacing - Math.abs(a.y - b.y);
+        if (overlapX <= 0 || overlapY <= 0) return;
+
+        const pinA = pinned.has(ids[i]);
+        const pinB = pinned.has(ids[j]);
+        if (pinA && pinB) return;
+        const shareA = pinA ? 0 : pinB ? 1 : 0.5;
+        const shareB = 1 - shareA;
+
+        if (overlapX < overlapY) {
+          const sign = a.x === b.x ? (i % 2 === 0 ? -1 : 1) : Math.sign(a.x - b.x);
+          a.x += sign * overlapX * shareA;
+          b.x -= sign * overlapX * shareB;
+        } else {
+          const sign = a.y === b.y ? (i % 2 === 0 ? -1 : 1) : Math.sign(a.y - b.y);
+          a.y += sign * overlapY * shareA;
+          b.y -= sign * overlapY * shareB;
+        }
+        moved = true;
+      });
+    }
+    if (!moved) break;
+  }
+
+  return positions;
+};
@@ -0,0 +1,87 @@
+import { LayoutEdge, Point, Size } from './types';
+
+const ITERATIONS = 300;
+const MIN_ITERATIONS = 30;
+// Node pairs compared per layout, across all iterations. Each iteration compares every pair, so large maps
+// get fewer iterations (and cool faster) to keep the request handler from blocking for seconds.
+const PAIR_BUDGET = 1500000;
+const FINAL_COOLING = Math.pow(0.97, ITERATIONS);
+
+// Larger maps keep the radial layout the simulation would start from
+export const MAX_FORCE_NODES = 200;
+
+// Fruchterman-Reingold style simulation. Deterministic: it starts from the given
+// positions (the radial layout) and uses no randomness. The root stays pinned.
+export const forceLayout = (
+  initial: Map<string, Point>,
+  edges: LayoutEdge[],
+  sizes: Map<string, Size>,
+  rootId: string,
+  spacing: number
+): Map<string, Point> => {
+  const ids = Array.from(initial.keys());
+  const positions = new Map<string, Point>();
+  initial.forEach((point, id) => positions.set(id, { ...point }));
+
+  const averageWidth = ids.reduce((sum, id) => sum + (sizes.get(id) as Size).width, 0) / Math.max(ids.length, 1);
+  const ideal = averageWidth + spacing * 2;
+  const pairs = (ids.length * (ids.length - 1)) / 2;
+  const iterations = Math.max(MIN_ITERATIONS, Math.min(ITERATIONS, Math.floor(PAIR_BUDGET / Math.max(pairs, 1))));
+  const cooling = Math.pow(FINAL_COOLING, 1 / iterations);
+  let temperature = ideal;
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const moves = new Map<string, Point>(ids.map(id => [id, { x: 0, y: 0 }]));
+
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const a = positions.get(ids[i]) as Point;
+        const b = positions.get(ids[j]) as Point;
+        let dx = a.x - b.x;
+        let dy = a.y - b.y;
+        if (dx === 0 && dy === 0) {
+          // Coincident nodes: separate along a direction derived from their index
+          dx = Math.cos(i + j);
+          dy = Math.sin(i + j);
+        }
+        const distance = Math.max(Math.sqrt(dx * dx + dy * dy), 1);
+        const force = (ideal * ideal) / distance;
+        const moveA = moves.get(ids[i]) as Point;
+        const moveB = moves.get(ids[j]) as Point;
+        moveA.x += (dx / distance) * force;
+        moveA.y += (dy / distance) * force;
+        moveB.x -= (dx / distance) * force;
+        moveB.y -= (dy / distance) * force;
+      }
+    }
+
+    edges.forEach(edge => {
+      const a = positions.get(edge.source);
+      const b = positions.get(edge.target);
+      if (!a || !b) return;
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const distance = Math.max(Math.sqrt(dx * dx + dy * dy), 1);
+      const force = (distance * distance) / ideal;
+      const moveA = moves.get(edge.source) as Point;
+      const moveB = moves.get(edge.target) as Point;
+      moveA.x -= (dx / distance) * force;
+      moveA.y -= (dy / distance) * force;
+      moveB.x += (dx / distance) * force;
+      moveB.y += (dy / distance) * force;
+    });
+
+    moves.forEach((move, id) => {
+      if (id === rootId) return;
+      const length = Math.max(Math.sqrt(move.x * move.x + move.y * move.y), 1);
+      const step = Math.min(length, temperature);
+      const point = positions.get(id) as Point;
+      point.x += (move.x / length) * step;
+      point.y += (move.y / length) * step;
+    });
+
+    temperature *= cooling;
+  }
+
+  return positions;
+};
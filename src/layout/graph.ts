@@ -0,0 +1,77 @@
+import { LayoutEdge, LayoutNode, LayoutTree, Size } from './types';
+
+const NODE_HEIGHT = 40;
+const NODE_PADDING = 32;
+
+// Hangul/CJK glyphs render roughly twice as wide as Latin ones
+const WIDE_CHAR = /[\u1100-\u11ff\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/;
+const charWidth = (char: string) => (WIDE_CHAR.test(char) ? 14 : 8);
+
+export const estimateNodeSize = (label: string): Size => {
+  let width = NODE_PADDING;
+  for (const char of Array.from(label || '')) {
+    width += charWidth(char);
+  }
+  return { width: Math.max(width, 80), height: NODE_HEIGHT };
+};
+
+export const pickRootId = (nodes: LayoutNode[], edges: LayoutEdge[], rootId?: string): string | undefined => {
+  if (rootId && nodes.some(node => node.id === rootId)) return rootId;
+  const targets = new Set(edges.map(edge => edge.target));
+  const source = nodes.find(node => !targets.has(node.id) && edges.some(edge => edge.source === node.id));
+  return (source || nodes[0])?.id;
+};
+
+// Edges from the root to every other node (used when the model's edges are unusable)
+export const buildRootEdges = (nodes: LayoutNode[], rootId: string): LayoutEdge[] =>
+  nodes
+    .filter(node => node.id !== rootId)
+    .map(node => ({ id: `e${rootId}-${node.id}`, source: rootId, target: node.id }));
+
+// BFS spanning tree; nodes unreachable from the root are hung off the root
+export const buildLayoutTree = (nodes: LayoutNode[], edges: LayoutEdge[], rootId: string): LayoutTree => {
+  const ids = new Set(nodes.map(node => node.id));
+  const adjacency = new Map<string, string[]>();
+  edges.forEach(edge => {
+    if (!ids.has(edge.source) || !ids.has(edge.target)) return;
+    adjacency.set(edge.source, [...(adjacency.get(edge.source) || []), edge.target]);
+    adjacency.set(edge.target, [...(adjacency.get(edge.target) || []), edge.source]);
+  });
+
+  const children = new Map<string, string[]>();
+  const depth = new Map<string, number>([[rootId, 0]]);
+  const queue = [rootId];
+  while (queue.length) {
+    const current = queue.shift() as string;
+    const kids: string[] = [];
+    (adjacency.get(current) || []).forEach(next => {
+      if (depth.has(next)) return;
+      depth.set(next, (depth.get(current) as number) + 1);
+      kids.push(next);
+      queue.push(next);
+    });
+    children.set(current, kids);
+  }
+
+  nodes.forEach(node => {
+    if (depth.has(node.id)) return;
+    depth.set(node.id, 1);
+    children.set(node.id, []);
+    children.get(rootId)?.push(node.id);
+  });
+
+  return { rootId, children, depth };
+};
+
+// Number of leaves below each node, used to share out angle/breadth
+export const countLeaves = (tree: LayoutTree): Map<string, number> => {
+  const leaves = new Map<string, number>();
+  const visit = (id: string): number => {
+    const kids = tree.children.get(id) || [];
+    const count = kids.length === 0 ? 1 : kids.reduce((sum, kid) => sum + visit(kid), 0);
+    leaves.set(id, count);
+    return count;
+  };
+  visit(tree.rootId);
+  return leaves;
+};
@@ -0,0 +1,62 @@
+import { resolveCollisions } from './collisions';
+import { forceLayout, MAX_FORCE_NODES } from './force';
+import { buildLayoutTree, estimateNodeSize, pickRootId } from './graph';
+import { radialLayout } from './radial';
+import { treeLayout } from './tree';
+import { LAYOUT_MODES, LayoutEdge, LayoutMode, LayoutNode, LayoutOptions, Point, Size } from './types';
+
+export { buildRootEdges, estimateNodeSize, pickRootId } from './graph';
+export { LAYOUT_MODES, LayoutEdge, LayoutMode, LayoutNode, LayoutOptions } from './types';
+
+const DEFAULT_SPACING = 24;
+
+export const isLayoutMode = (value: unknown): value is LayoutMode =>
+  typeof value === 'string' && LAYOUT_MODES.indexOf(value as LayoutMode) !== -1;
+
+// Compute positions for every node. Returned positions are React Flow style
+// top-left corners, with the root node centred on (0, 0).
+export const layoutMindMap = <N extends LayoutNode, E extends LayoutEdge>(
+  graph: { nodes: N[]; edges: E[] },
+  options: LayoutOptions
+): { nodes: (N & { position: Point })[]; edges: E[] } => {
+  const { nodes, edges } = graph;
+  const rootId = pickRootId(nodes, edges, options.rootId);
+  if (!rootId) return { nodes: [], edges };
+
+  const spacing = options.spacing ?? DEFAULT_SPACING;
+  const sizes = new Map<string, Size>(nodes.map(node => [node.id, estimateNodeSize(node.data?.label)]));
+  const tree = buildLayoutTree(nodes, edges, rootId);
+
+  let centres: Map<string, Point>;
+  switch (options.mode) {
+    case 'tree-lr':
+      centres = treeLayout(tree, sizes, spacing, 'lr');
+      break;
+    case 'tree-td':
+      centres = treeLayout(tree, sizes, spacing, 'td');
+      break;
+    case 'force':
+      centres = nodes.length > MAX_FORCE_NODES
+        ? radialLayout(tree, sizes, spacing)
+        : forceLayout(radialLayout(tree, sizes, spacing), edges, sizes, rootId, spacing);
+      break;
+    default:
+      centres = radialLayout(tree, sizes, spacing);
+  }
+  resolveCollisions(centres, sizes, spacing, new Set([rootId]));
+
+  return {
+    nodes: nodes.map(node => {
+      const centre = centres.get(node.id) as Point;
+      const size = sizes.get(node.id) as Size;
+      return {
+        ...node,
+        position: {
+          x: Math.round(centre.x - size.width / 2),
+          y: Math.round(centre.y - size.height / 2)
+        }
+      };
+    }),
+    edges
+  };
+};
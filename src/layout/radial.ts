@@ -0,0 +1,51 @@
+import { countLeaves } from './graph';
+import { LayoutTree, Point, Size } from './types';
+
+const MIN_RING_GAP = 120;
+
+// Root in the centre, each depth on its own ring, angle shared out by subtree size
+export const radialLayout = (tree: LayoutTree, sizes: Map<string, Size>, spacing: number): Map<string, Point> => {
+  const leaves = countLeaves(tree);
+  const wedges = new Map<string, { start: number; sweep: number }>();
+  const assign = (id: string, start: number, sweep: number) => {
+    wedges.set(id, { start, sweep });
+    const kids = tree.children.get(id) || [];
+    const total = kids.reduce((sum, kid) => sum + (leaves.get(kid) || 1), 0);
+    let cursor = start;
+    kids.forEach(kid => {
+      const share = (sweep * (leaves.get(kid) || 1)) / total;
+      assign(kid, cursor, share);
+      cursor += share;
+    });
+  };
+  assign(tree.rootId, -Math.PI / 2, Math.PI * 2);
+
+  // Ring radius must leave room between neighbours (arc length) and between rings
+  const maxDepth = Math.max(...Array.from(tree.depth.values()));
+  const radii = [0];
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    const ids = Array.from(tree.depth.keys()).filter(id => tree.depth.get(id) === depth);
+    const ringWidth = Math.max(...ids.map(id => (sizes.get(id) as Size).width));
+    const innerWidth = Math.max(
+      ...Array.from(tree.depth.keys())
+        .filter(id => tree.depth.get(id) === depth - 1)
+        .map(id => (sizes.get(id) as Size).width)
+    );
+    const minSweep = Math.min(...ids.map(id => (wedges.get(id) as { sweep: number }).sweep));
+    const byArc = ids.length > 1 ? (ringWidth + spacing) / minSweep : 0;
+    const byRing = radii[depth - 1] + Math.max(MIN_RING_GAP, (innerWidth + ringWidth) / 2 + spacing);
+    radii.push(Math.max(byArc, byRing));
+  }
+
+  const positions = new Map<string, Point>();
+  tree.depth.forEach((depth, id) => {
+    if (depth === 0) {
+      positions.set(id, { x: 0, y: 0 });
+      return;
+    }
+    const wedge = wedges.get(id) as { start: number; sweep: number };
+    const angle = wedge.start + wedge.sweep / 2;
+    positions.set(id, { x: Math.cos(angle) * radii[depth], y: Math.sin(angle) * radii[depth] });
+  });
+  return positions;
+};
@@ -0,0 +1,64 @@
+import { LayoutTree, Point, Size } from './types';
+
+// Layered tree: depth runs along the main axis, leaves are stacked on the cross axis
+// and every parent is centred on its children.
+export const treeLayout = (
+  tree: LayoutTree,
+  sizes: Map<string, Size>,
+  spacing: number,
+  direction: 'lr' | 'td'
+): Map<string, Point> => {
+  const mainSize = (id: string) => {
+    const size = sizes.get(id) as Size;
+    return direction === 'lr' ? size.width : size.height;
+  };
+  const crossSize = (id: string) => {
+    const size = sizes.get(id) as Size;
+    return direction === 'lr' ? size.height : size.width;
+  };
+
+  // Main-axis offset of each depth, wide enough for the widest node in the previous layer
+  const layerExtent: number[] = [];
+  tree.depth.forEach((depth, id) => {
+    layerExtent[depth] = Math.max(layerExtent[depth] || 0, mainSize(id));
+  });
+  const layerOffset = [0];
+  for (let depth = 1; depth < layerExtent.length; depth++) {
+    layerOffset[depth] = layerOffset[depth - 1] + (layerExtent[depth - 1] + layerExtent[depth]) / 2 + spacing * 2;
+  }
+
+  const cross = new Map<string, number>();
+  let cursor = 0;
+  const shift = (id: string, delta: number) => {
+    cross.set(id, (cross.get(id) as number) + delta);
+    (tree.children.get(id) || []).forEach(kid => shift(kid, delta));
+  };
+  const place = (id: string) => {
+    const kids = tree.children.get(id) || [];
+    const extent = crossSize(id);
+    if (kids.length === 0) {
+      cross.set(id, cursor + extent / 2);
+      cursor += extent + spacing;
+      return;
+    }
+    const start = cursor;
+    kids.forEach(place);
+    // A parent wider than its children's span reserves the extra room itself
+    const span = cursor - spacing - start;
+    if (extent > span) {
+      kids.forEach(kid => shift(kid, (extent - span) / 2));
+      cursor = start + extent + spacing;
+    }
+    cross.set(id, ((cross.get(kids[0]) as number) + (cross.get(kids[kids.length - 1]) as number)) / 2);
+  };
+  place(tree.rootId);
+
+  const rootCross = cross.get(tree.rootId) as number;
+  const positions = new Map<string, Point>();
+  tree.depth.forEach((depth, id) => {
+    const main = layerOffset[depth];
+    const offset = (cross.get(id) as number) - rootCross;
+    positions.set(id, direction === 'lr' ? { x: main, y: offset } : { x: offset, y: main });
+  });
+  return positions;
+};
@@ -0,0 +1,34 @@
+export type Point = { x: number; y: number };
+
+export type LayoutMode = 'radial' | 'tree-lr' | 'tree-td' | 'force';
+
+export const LAYOUT_MODES: LayoutMode[] = ['radial', 'tree-lr', 'tree-td', 'force'];
+
+// Minimal node/edge shape the layout engine needs; extra fields are preserved
+export type LayoutNode = {
+  id: string;
+  data: { label: string };
+  position?: Point;
+};
+
+export type LayoutEdge = {
+  id: string;
+  source: string;
+  target: string;
+};
+
+export type LayoutOptions = {
+  mode: LayoutMode;
+  rootId?: string;
+  // Gap kept between node boxes, in px
+  spacing?: number;
+};
+
+export type Size = { width: number; height: number };
+
+// Parent/child view of the graph rooted at `rootId`
+export type LayoutTree = {
+  rootId: string;
+  children: Map<string, string[]>;
+  depth: Map<string, number>;
+};
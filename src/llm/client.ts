@@ -0,0 +1,166 @@
+import { aiRequestDuration, aiRetries, aiTokens } from '../observability/metrics';
+import { createMockProvider } from './mockProvider';
+import { createLocalProvider, createOpenAIProvider } from './openaiProvider';
+import { retryWithBackoff } from './retry';
+import {
+  ChatMessage,
+  CompletionRequest,
+  CompletionResult,
+  LLMConfig,
+  LLMProvider,
+  LLMRoute,
+  ProviderKind,
+  RouteConfig,
+  StreamingCompletion,
+  TokenUsage
+} from './types';
+
+export type CallOptions = {
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, delay: number, error: any) => void;
+  // A prompt template's sampling settings; the route's configuration applies otherwise
+  temperature?: number;
+  maxTokens?: number;
+};
+
+export type LLMClient = {
+  complete: (route: LLMRoute, messages: ChatMessage[], options?: CallOptions) => Promise<CompletionResult>;
+  // Retries only cover opening the stream; a stream that fails midway is not replayed
+  stream: (route: LLMRoute, messages: ChatMessage[], options?: CallOptions) => Promise<StreamingCompletion>;
+  routeConfig: (route: LLMRoute) => RouteConfig;
+  // Resolves when every provider in use is reachable; otherwise rejects naming the ones that are not
+  check: (signal?: AbortSignal) => Promise<void>;
+};
+
+export type ClientHooks = {
+  // Called with the token usage of every completion and of every stream once it has been consumed
+  onUsage?: (route: LLMRoute, usage: TokenUsage) => void;
+  // Replaces the real timer between retries (a fake clock in tests)
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+};
+
+const buildProvider = (kind: ProviderKind, config: LLMConfig): LLMProvider => {
+  switch (kind) {
+    case 'openai':
+      if (!config.openaiApiKey) {
+        throw new Error('OpenAI API Key is missing in environment variables');
+      }
+      return createOpenAIProvider({ apiKey: config.openaiApiKey });
+    case 'local':
+      return createLocalProvider(config.localBaseUrl, config.localApiKey);
+    case 'mock':
+      return createMockProvider();
+  }
+};
+
+// Runs one upstream attempt with its own abort signal, which follows the caller's and fires after timeoutMs.
+// A timed-out attempt fails with status 504 even if the provider ignores the signal.
+const withTimeout = <T>(timeoutMs: number, callerSignal: AbortSignal | undefined, run: (signal?: AbortSignal) => Promise<T>) => {
+  if (!timeoutMs) return run(callerSignal);
+  const controller = new AbortController();
+  if (callerSignal?.aborted) controller.abort();
+  // Not removed afterwards: an open stream keeps listening for the caller's abort
+  else callerSignal?.addEventListener('abort', () => controller.abort(), { once: true });
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(Object.assign(new Error(`AI request timed out after ${timeoutMs}ms`), { status: 504 }));
+    }, timeoutMs);
+  });
+  return Promise.race([run(controller.signal), timeout]).finally(() => clearTimeout(timer));
+};
+
+// Providers can be injected (e.g. stubs in tests); missing ones are built from config
+export const createLLMClient = (
+  config: LLMConfig,
+  overrides: Partial<Record<ProviderKind, LLMProvider>> = {},
+  hooks: ClientHooks = {}
+): LLMClient => {
+  const providers: Partial<Record<ProviderKind, LLMProvider>> = { ...overrides };
+  Object.keys(config.routes).forEach(route => {
+    const kind = config.routes[route as LLMRoute].provider;
+    if (!providers[kind]) {
+      providers[kind] = buildProvider(kind, config);
+    }
+  });
+
+  const routeConfig = (route: LLMRoute) => config.routes[route];
+
+  const call = <T>(
+    route: LLMRoute,
+    messages: ChatMessage[],
+    options: CallOptions,
+    operation: (provider: LLMProvider, request: CompletionRequest) => Promise<T>
+  ) => {
+    const settings = routeConfig(route);
+    const provider = providers[settings.provider] as LLMProvider;
+    const request = {
+      route,
+      model: settings.model,
+      messages,
+      temperature: options.temperature ?? settings.temperature,
+      maxTokens: options.maxTokens ?? settings.maxTokens
+    };
+    // Each attempt is timed on its own, so retries do not inflate the upstream latency
+    const attempt = async () => {
+      const end = aiRequestDuration.startTimer({ route, provider: provider.name });
+      try {
+        const result = await withTimeout(settings.timeoutMs, options.signal, signal => operation(provider, { ...request, signal }));
+        end({ outcome: 'success' });
+        return result;
+      } catch (error) {
+        end({ outcome: 'error' });
+        throw error;
+      }
+    };
+    return retryWithBackoff(attempt, {
+      ...settings.retry,
+      onRetry: (retry, delay, error) => {
+        aiRetries.inc({ route });
+        options.onRetry?.(retry, delay, error);
+      },
+      signal: options.signal,
+      sleep: hooks.sleep
+    });
+  };
+
+  const reportUsage = (route: LLMRoute, usage?: TokenUsage) => {
+    if (!usage) return;
+    aiTokens.inc({ route, type: 'prompt' }, usage.promptTokens);
+    aiTokens.inc({ route, type: 'completion' }, usage.completionTokens);
+    if (hooks.onUsage) hooks.onUsage(route, usage);
+  };
+
+  const complete = async (route: LLMRoute, messages: ChatMessage[], options: CallOptions = {}) => {
+    const result = await call(route, messages, options, (provider, request) => provider.complete(request));
+    reportUsage(route, result.usage);
+    return result;
+  };
+
+  const stream = async (route: LLMRoute, messages: ChatMessage[], options: CallOptions = {}) => {
+    const result = await call(route, messages, options, (provider, request) => provider.stream(request));
+    const chunks = result.chunks;
+    // Providers fill in `usage` after the last chunk, so report it once the caller has drained the stream
+    result.chunks = (async function* () {
+      yield* chunks;
+      reportUsage(route, result.usage);
+    })();
+    return result;
+  };
+
+  const check = async (signal?: AbortSignal) => {
+    const failures = await Promise.all(Object.values(providers).map(async provider => {
+      try {
+        await provider?.check?.(signal);
+        return null;
+      } catch (error: any) {
+        return `${provider?.name}: ${error.message}`;
+      }
+    }));
+    const problems = failures.filter(Boolean);
+    if (problems.length) throw new Error(problems.join('; '));
+  };
+
+  return { complete, stream, routeConfig, check };
+};
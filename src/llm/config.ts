@@ -0,0 +1,65 @@
+import { createEnvReader, Env } from '../config/env';
+import { LLMConfig, LLMRoute, ProviderKind, RouteConfig } from './types';
+
+// Env var prefix per route, e.g. LLM_CAREER_DETAILS_MODEL
+export const ROUTE_ENV_KEYS: Record<LLMRoute, string> = {
+  mindmap: 'MINDMAP',
+  suggestions: 'SUGGESTIONS',
+  careerDetails: 'CAREER_DETAILS',
+  expandCareer: 'EXPAND_CAREER',
+  careerPath: 'CAREER_PATH',
+  resume: 'RESUME',
+  skillGap: 'SKILL_GAP'
+};
+
+const ROUTE_MAX_TOKENS: Record<LLMRoute, number> = {
+  mindmap: 1024,
+  suggestions: 512,
+  careerDetails: 800,
+  expandCareer: 1024,
+  careerPath: 1500,
+  resume: 800,
+  skillGap: 1500
+};
+
+const PROVIDERS: ProviderKind[] = ['openai', 'local', 'mock'];
+
+export const LLM_ROUTES = Object.keys(ROUTE_ENV_KEYS) as LLMRoute[];
+
+// LLM_PROVIDER, LLM_MODEL, LLM_TEMPERATURE, LLM_TIMEOUT_MS, LLM_RETRY_MAX, LLM_RETRY_INITIAL_DELAY_MS, LLM_MAX_REASKS;
+// each route can override provider, model, temperature, max tokens and timeout, e.g. LLM_CAREER_DETAILS_MODEL
+export const loadLLMConfig = (env: Env = process.env): LLMConfig => {
+  const read = createEnvReader(env);
+  // Without an API key we default to the offline mock so the server still boots
+  const defaultProvider = read.oneOf('LLM_PROVIDER', PROVIDERS, env.OPENAI_API_KEY ? 'openai' : 'mock');
+  const defaultModel = read.text('LLM_MODEL', 'gpt-4o');
+  const defaultTemperature = read.number('LLM_TEMPERATURE', 0.7, { min: 0, max: 2 });
+  const defaultTimeout = read.number('LLM_TIMEOUT_MS', 60000, { min: 0, integer: true });
+  const retry = {
+    maxRetries: read.number('LLM_RETRY_MAX', 8, { min: 1, integer: true }),
+    initialDelay: read.number('LLM_RETRY_INITIAL_DELAY_MS', 5000, { min: 0 })
+  };
+  const maxReasks = read.number('LLM_MAX_REASKS', 1, { min: 0, integer: true });
+
+  const routes = {} as Record<LLMRoute, RouteConfig>;
+  LLM_ROUTES.forEach(route => {
+    const prefix = `LLM_${ROUTE_ENV_KEYS[route]}`;
+    routes[route] = {
+      provider: read.oneOf(`${prefix}_PROVIDER`, PROVIDERS, defaultProvider),
+      model: read.text(`${prefix}_MODEL`, defaultModel),
+      temperature: read.number(`${prefix}_TEMPERATURE`, defaultTemperature, { min: 0, max: 2 }),
+      maxTokens: read.number(`${prefix}_MAX_TOKENS`, ROUTE_MAX_TOKENS[route], { min: 1, integer: true }),
+      timeoutMs: read.number(`${prefix}_TIMEOUT_MS`, defaultTimeout, { min: 0, integer: true }),
+      retry,
+      maxReasks
+    };
+  });
+  read.require(
+    !LLM_ROUTES.some(route => routes[route].provider === 'openai') || Boolean(env.OPENAI_API_KEY),
+    'OPENAI_API_KEY is required when a route uses the openai provider'
+  );
+  const localBaseUrl = read.text('LOCAL_LLM_BASE_URL', 'http://localhost:11434/v1');
+  read.done();
+
+  return { openaiApiKey: env.OPENAI_API_KEY, localBaseUrl, localApiKey: env.LOCAL_LLM_API_KEY, routes };
+};
@@ -0,0 +1,48 @@
+import { extractJsonFromString, parseModelJson } from './json';
+
+describe('extractJsonFromString', () => {
+  it('drops prose around the JSON', () => {
+    expect(extractJsonFromString('Sure! Here it is: {"a": 1} Hope this helps')).toBe('{"a": 1}');
+  });
+
+  it('keeps nested arrays whole', () => {
+    expect(extractJsonFromString('Here you go:\n[[1, 2], [3, [4]]]\nThanks')).toBe('[[1, 2], [3, [4]]]');
+    expect(extractJsonFromString('Result: [{"a": [1]}, {"b": {"c": [2]}}] done')).toBe('[{"a": [1]}, {"b": {"c": [2]}}]');
+  });
+
+  it('stops at the matching bracket even when the prose after it has brackets', () => {
+    expect(extractJsonFromString('{"text": "a } b \\" ]"} and one more }')).toBe('{"text": "a } b \\" ]"}');
+  });
+
+  it('falls back to the last closing bracket for truncated output', () => {
+    expect(extractJsonFromString('{"nodes": [{"id": "1"}, {"id": "2", "lab')).toBe('{"nodes": [{"id": "1"}');
+  });
+
+  it('returns null without JSON', () => {
+    expect(extractJsonFromString('no json here')).toBeNull();
+    expect(extractJsonFromString('} backwards {')).toBeNull();
+    expect(extractJsonFromString('')).toBeNull();
+    expect(extractJsonFromString(null)).toBeNull();
+  });
+});
+
+describe('parseModelJson', () => {
+  it('parses clean JSON without repairs', () => {
+    expect(parseModelJson('```json\n{"a": [1, 2]}\n```')).toEqual({ value: { a: [1, 2] }, repaired: false });
+  });
+
+  it('closes truncated output and drops the half-written value', () => {
+    expect(parseModelJson('{"nodes": [{"id": "1"}, {"id": "2", "lab')).toEqual({
+      value: { nodes: [{ id: '1' }, { id: '2' }] },
+      repaired: true
+    });
+  });
+
+  it('removes trailing commas and comments', () => {
+    expect(parseModelJson('{"x": 1, // the x\n"y": [2,],}')).toEqual({ value: { x: 1, y: [2] }, repaired: true });
+  });
+
+  it('gives up on text that is not JSON', () => {
+    expect(parseModelJson('I cannot help with that.')).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+// Helpers for pulling JSON out of model output
+
+// Index of the bracket closing the value that opens at `start` (strings are skipped), or -1
+const matchingClose = (text: string, start: number): number => {
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '{' || char === '[') depth++;
+    else if ((char === '}' || char === ']') && --depth === 0) return i;
+  }
+  return -1;
+};
+
+// Extract the outermost JSON object/array from a response that may contain prose
+export function extractJsonFromString(text: string | null | undefined): string | null {
+  if (!text) return null;
+  const trimmedText = text.trim();
+  const firstCurly = trimmedText.indexOf('{');
+  const firstSquare = trimmedText.indexOf('[');
+  let startIndex = -1;
+  if (firstCurly !== -1 && (firstSquare === -1 || firstCurly < firstSquare)) startIndex = firstCurly;
+  else if (firstSquare !== -1) startIndex = firstSquare;
+  if (startIndex === -1) return null;
+  // Prose after the value may contain brackets of its own
+  const closeIndex = matchingClose(trimmedText, startIndex);
+  if (closeIndex !== -1) return trimmedText.substring(startIndex, closeIndex + 1);
+  // Unbalanced (e.g. truncated): everything up to the last closing bracket
+  const lastCurly = trimmedText.lastIndexOf('}');
+  const lastSquare = trimmedText.lastIndexOf(']');
+  let endIndex = -1;
+  if (lastCurly !== -1 && (lastSquare === -1 || lastCurly > lastSquare)) endIndex = lastCurly;
+  else if (lastSquare !== -1) endIndex = lastSquare;
+  if (endIndex === -1 || endIndex < startIndex) return null;
+  return trimmedText.substring(startIndex, endIndex + 1);
+}
+
+// Drop `// ...` comments outside of strings (our prompt templates contain them and models echo them)
+const stripComments = (text: string): string => {
+  let result = '';
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      result += char;
+      if (char === '\\') {
+        result += text[++i] ?? '';
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+      result += char;
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      result += '\n';
+    } else {
+      result += char;
+    }
+  }
+  return result;
+};
+
+// Close brackets left open by a truncated completion (e.g. max_tokens reached)
+const closeTruncated = (text: string): string => {
+  const stack: string[] = [];
+  let inString = false;
+  let lastSafe = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '{' || char === '[') stack.push(char === '{' ? '}' : ']');
+    else if (char === '}' || char === ']') stack.pop();
+    if (!inString && (char === ',' || char === '{' || char === '[' || char === '}' || char === ']')) {
+      lastSafe = i;
+    }
+  }
+  if (stack.length === 0 && !inString) return text;
+  // Cut back to the last structural character so a half-written value is dropped
+  let cut = text.substring(0, lastSafe + 1).replace(/,\s*$/, '');
+  const openers: string[] = [];
+  inString = false;
+  for (let i = 0; i < cut.length; i++) {
+    const char = cut[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '{' || char === '[') openers.push(char === '{' ? '}' : ']');
+    else if (char === '}' || char === ']') openers.pop();
+  }
+  while (openers.length) cut += openers.pop();
+  return cut;
+};
+
+// Best-effort parse of model output. Returns whether local repairs were needed.
+export const parseModelJson = (text: string | null | undefined): { value: unknown; repaired: boolean } | null => {
+  if (!text) return null;
+  const fenced = text.replace(/```(?:json)?/gi, '');
+  const extracted = extractJsonFromString(fenced);
+  if (extracted) {
+    try {
+      return { value: JSON.parse(extracted), repaired: false };
+    } catch {
+      // fall through to repair
+    }
+  }
+
+  const start = fenced.search(/[[{]/);
+  if (start === -1) return null;
+  const repairedText = closeTruncated(stripComments(fenced.substring(start)))
+    .replace(/,\s*([}\]])/g, '$1');
+  const candidate = extractJsonFromString(repairedText);
+  if (!candidate) return null;
+  try {
+    return { value: JSON.parse(candidate), repaired: true };
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,183 @@
+import { parseResumeHeuristically } from '../profiles/heuristics';
+import { readUserData } from '../prompts/messages';
+import { hashString } from '../utils/hash';
+import { CompletionRequest, CompletionResult, LLMProvider, LLMRoute, StreamingCompletion } from './types';
+
+// Deterministic offline provider: the same request always yields the same response,
+// so the API can run and be tested without network access or an API key.
+
+const KOREAN_JOBS = [
+  '주니어 Software Engineer (신입)',
+  '백엔드 개발자 (경력 2-3년)',
+  '데이터 분석가 (경력 2-3년)',
+  'UX 리서처 (경력 2-3년)',
+  '시니어 Product Manager (경력 5년+)',
+  'Machine Learning Engineer (경력 3년+)',
+  'DevOps 엔지니어 (경력 3년+)',
+  '테크 리드 (경력 8년+)',
+  '스타트업 CTO (경력 10년+)',
+  'Google 소프트웨어 엔지니어 (경력 3년+)'
+];
+
+const ENGLISH_JOBS = [
+  'Junior Software Engineer (Entry level)',
+  'Backend Developer (2-3 yrs)',
+  'Data Analyst (2-3 yrs)',
+  'UX Researcher (2-3 yrs)',
+  'Senior Product Manager (5+ yrs)',
+  'Machine Learning Engineer (3+ yrs)',
+  'DevOps Engineer (3+ yrs)',
+  'Tech Lead (8+ yrs)',
+  'Startup CTO (10+ yrs)',
+  'Google Software Engineer (3+ yrs)'
+];
+
+// Prompts name the output language as "IN <LANGUAGE>"; Korean unless English is requested
+const isEnglish = (prompt: string) => prompt.indexOf('IN ENGLISH') !== -1;
+
+const pick = (prompt: string, seed: number, count: number): string[] => {
+  const pool = isEnglish(prompt) ? ENGLISH_JOBS : KOREAN_JOBS;
+  const result: string[] = [];
+  for (let i = 0; i < count; i++) {
+    result.push(pool[(seed + i * 3) % pool.length]);
+  }
+  return result.filter((item, idx) => result.indexOf(item) === idx);
+};
+
+// Reads a field from the prompt's user data block, e.g. the career title.
+// Like a naive model, the mock echoes it into its answer.
+const userField = (prompt: string, field: string, fallback: string): string => {
+  const value = readUserData(prompt)[field];
+  return typeof value === 'string' && value ? value : fallback;
+};
+
+const responders: Record<LLMRoute, (prompt: string, seed: number) => unknown> = {
+  mindmap: (prompt, seed) => {
+    const goal = userField(prompt, 'careerGoal', isEnglish(prompt) ? 'Career goal' : '커리어 목표');
+    const jobs = pick(prompt, seed, 6);
+    return {
+      nodes: [
+        { id: '1', data: { label: goal }, position: { x: 0, y: 0 } },
+        ...jobs.map((label, idx) => ({
+          id: String(idx + 2),
+          data: { label },
+          position: { x: 0, y: 0 }
+        }))
+      ],
+      edges: jobs.map((_, idx) => ({ id: `e1-${idx + 2}`, source: '1', target: String(idx + 2) }))
+    };
+  },
+  suggestions: (prompt, seed) => pick(prompt, seed, 8),
+  careerDetails: (prompt) => {
+    const title = userField(prompt, 'careerTitle', 'Career');
+    if (isEnglish(prompt)) {
+      return {
+        title,
+        averageSalary: 'US annual salary (entry: $65K, mid: $95K, senior: $140K)',
+        requirements: {
+          education: ["Bachelor's degree in a related field"],
+          certifications: ['AWS Certified Solutions Architect'],
+          experience: [`2+ years of hands-on ${title} experience`]
+        },
+        description: `${title} professionals solve problems with specialized knowledge.`,
+        relatedCompanies: ['Google', 'Microsoft', 'Amazon', 'Meta'],
+        roleModels: ['Industry leaders'],
+        timeToReach: { Entry: '0 years', Junior: '1-3 years', Senior: '5-7 years', Lead: '8+ years' }
+      };
+    }
+    return {
+      title,
+      averageSalary: '한국 기준 연봉 (신입: 3500만원, 경력: 5500만원, 시니어: 8000만원)',
+      requirements: {
+        education: ['관련 학과 학사 학위'],
+        certifications: ['AWS Certified Solutions Architect'],
+        experience: [`${title} 관련 실무 경력 2년 이상`]
+      },
+      description: `${title}는 전문 지식을 바탕으로 문제를 해결하는 직무입니다.`,
+      relatedCompanies: ['Naver', 'Kakao', 'Samsung', 'Google'],
+      roleModels: ['업계 리더'],
+      timeToReach: {
+        신입: '경력 0년',
+        주니어: '경력 1-3년',
+        시니어: '경력 5-7년',
+        리드: '경력 8년+'
+      }
+    };
+  },
+  expandCareer: (prompt, seed) => {
+    const title = userField(prompt, 'careerTitle', 'Career');
+    return [`Senior ${title}`, `${title} Lead`, ...pick(prompt, seed, 4)];
+  },
+  careerPath: (prompt, seed) => {
+    const english = isEnglish(prompt);
+    const target = userField(prompt, 'targetRole', 'Career');
+    const [bridge] = pick(prompt, seed, 1);
+    const step = (title: string, years: number, confidence: number) => ({
+      title,
+      years,
+      requirements: english
+        ? { education: ['Online courses in the field'], certifications: ['Python'], experience: [`1+ year of ${title} projects`] }
+        : { education: ['관련 분야 온라인 강의 수료'], certifications: ['Python'], experience: [`${title} 프로젝트 경험 1년 이상`] },
+      confidence
+    });
+    return { steps: [step(bridge, 2, 0.7), step(target, 2, 0.6)] };
+  },
+  resume: (prompt) => parseResumeHeuristically(userField(prompt, 'resume', '')),
+  skillGap: (prompt, seed) => {
+    const requirements = readUserData(prompt).requirements;
+    const statuses = ['met', 'partial', 'missing'];
+    return {
+      items: (Array.isArray(requirements) ? requirements : []).map((requirement: any, idx: number) => {
+        const status = statuses[(seed + idx) % statuses.length];
+        return {
+          id: requirement.id,
+          status,
+          evidence: status === 'missing' ? null : isEnglish(prompt) ? 'Related project experience' : '관련 프로젝트 경험',
+          learningWeeks: status === 'met' ? 0 : status === 'partial' ? 6 : 12,
+          nextSteps: status === 'met' ? [] : [isEnglish(prompt) ? `Study for: ${requirement.requirement}` : `준비하기: ${requirement.requirement}`]
+        };
+      })
+    };
+  }
+};
+
+const STREAM_CHUNK_SIZE = 24;
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export const createMockProvider = (): LLMProvider => {
+  const complete = async (request: CompletionRequest): Promise<CompletionResult> => {
+    const prompt = request.messages.map(message => message.content).join('\n');
+    const seed = hashString(`${request.route}:${prompt}`);
+    const content = JSON.stringify(responders[request.route](prompt, seed));
+    const promptTokens = estimateTokens(prompt);
+    const completionTokens = estimateTokens(content);
+    return {
+      content,
+      model: request.model,
+      provider: 'mock',
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+    };
+  };
+
+  // Replays the same response in small chunks, honouring the abort signal
+  const stream = async (request: CompletionRequest): Promise<StreamingCompletion> => {
+    const result = await complete(request);
+    return {
+      model: result.model,
+      provider: result.provider,
+      usage: result.usage,
+      chunks: (async function* () {
+        for (let i = 0; i < result.content.length; i += STREAM_CHUNK_SIZE) {
+          if (request.signal?.aborted) {
+            throw new Error('Request aborted');
+          }
+          await new Promise(resolve => setImmediate(resolve));
+          yield result.content.substring(i, i + STREAM_CHUNK_SIZE);
+        }
+      })()
+    };
+  };
+
+  return { name: 'mock', complete, stream };
+};
@@ -0,0 +1,84 @@
+import OpenAI from 'openai';
+import { CompletionRequest, CompletionResult, LLMProvider, StreamingCompletion } from './types';
+
+type OpenAIProviderOptions = {
+  name?: string;
+  apiKey: string;
+  baseURL?: string;
+};
+
+export const createOpenAIProvider = (options: OpenAIProviderOptions): LLMProvider => {
+  const name = options.name || 'openai';
+  const client = new OpenAI({
+    apiKey: options.apiKey,
+    baseURL: options.baseURL,
+    // Retries and backoff are retry.ts's job; the SDK's own would multiply with them
+    maxRetries: 0
+  });
+
+  const complete = async (request: CompletionRequest): Promise<CompletionResult> => {
+    const completion = await client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens
+    }, { signal: request.signal });
+    const content = completion.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error(`No content received from ${name}`);
+    }
+    return {
+      content,
+      model: completion.model || request.model,
+      provider: name,
+      usage: completion.usage && {
+        promptTokens: completion.usage.prompt_tokens,
+        completionTokens: completion.usage.completion_tokens,
+        totalTokens: completion.usage.total_tokens
+      }
+    };
+  };
+
+  const stream = async (request: CompletionRequest): Promise<StreamingCompletion> => {
+    const upstream = await client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stream: true,
+      stream_options: { include_usage: true }
+    }, { signal: request.signal });
+
+    const result: StreamingCompletion = { model: request.model, provider: name, chunks: readDeltas() };
+    async function* readDeltas() {
+      for await (const chunk of upstream) {
+        if (chunk.usage) {
+          result.usage = {
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+            totalTokens: chunk.usage.total_tokens
+          };
+        }
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+    return result;
+  };
+
+  // Lists the models: authenticated, but costs no tokens
+  const check = async (signal?: AbortSignal) => {
+    await client.models.list({ signal });
+  };
+
+  return { name, complete, stream, check };
+};
+
+// Adapter for OpenAI-compatible local servers (Ollama, LM Studio, vLLM, llama.cpp)
+export const createLocalProvider = (baseURL: string, apiKey?: string): LLMProvider =>
+  createOpenAIProvider({
+    name: 'local',
+    // Local servers usually ignore the key, but the SDK requires one
+    apiKey: apiKey || 'local',
+    baseURL
+  });
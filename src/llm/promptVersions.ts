@@ -0,0 +1,11 @@
+import { TemplateRoute } from '../prompts/template';
+import { LLMRoute } from './types';
+
+// Bump a route's version whenever its prompt wording or response shape changes, so cached
+// answers produced by the old prompt stop being served. Routes whose prompts are templates
+// (src/prompts/templates) are versioned there, and their callers put the version in the cache input.
+export const PROMPT_VERSIONS: Record<Exclude<LLMRoute, TemplateRoute>, string> = {
+  careerPath: '1',
+  resume: '1',
+  skillGap: '1'
+};
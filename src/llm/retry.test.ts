@@ -0,0 +1,70 @@
+import { createFakeClock } from '../testing/stubs';
+import { isRetryableError, retryWithBackoff } from './retry';
+
+const failure = (status: number) => Object.assign(new Error(`status ${status}`), { status });
+
+describe('retryWithBackoff', () => {
+  it.each([503, 429])('retries on %i with doubling delays', async status => {
+    const clock = createFakeClock();
+    const operation = jest.fn()
+      .mockRejectedValueOnce(failure(status))
+      .mockRejectedValueOnce(failure(status))
+      .mockResolvedValue('ok');
+
+    await expect(retryWithBackoff(operation, { maxRetries: 5, initialDelay: 100, sleep: clock.sleep })).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(clock.sleeps).toEqual([100, 200]);
+  });
+
+  it.each([400, 401, 500])('does not retry on %i', async status => {
+    const clock = createFakeClock();
+    const operation = jest.fn().mockRejectedValue(failure(status));
+
+    await expect(retryWithBackoff(operation, { maxRetries: 5, initialDelay: 100, sleep: clock.sleep }))
+      .rejects.toMatchObject({ status });
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(clock.sleeps).toEqual([]);
+  });
+
+  it('does not retry errors without a status', async () => {
+    const operation = jest.fn().mockRejectedValue(new Error('socket hang up'));
+    await expect(retryWithBackoff(operation, { maxRetries: 3, initialDelay: 100, sleep: createFakeClock().sleep }))
+      .rejects.toThrow('socket hang up');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after maxRetries attempts', async () => {
+    const clock = createFakeClock();
+    const onRetry = jest.fn();
+    const operation = jest.fn().mockRejectedValue(failure(503));
+
+    await expect(retryWithBackoff(operation, { maxRetries: 3, initialDelay: 50, sleep: clock.sleep, onRetry }))
+      .rejects.toThrow('Failed after 3 retries. Last error: status 503');
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(clock.sleeps).toEqual([50, 100, 200]);
+    expect(onRetry.mock.calls.map(([attempt, delay]) => [attempt, delay])).toEqual([[1, 50], [2, 100], [3, 200]]);
+  });
+
+  it('stops once aborted', async () => {
+    const controller = new AbortController();
+    const operation = jest.fn().mockImplementation(async () => {
+      controller.abort();
+      throw failure(503);
+    });
+
+    await expect(retryWithBackoff(operation, {
+      maxRetries: 5,
+      initialDelay: 100,
+      signal: controller.signal,
+      sleep: createFakeClock().sleep
+    })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('isRetryableError', () => {
+  it('accepts only 503 and 429', () => {
+    expect([503, 429, 500, 502, 400].map(status => isRetryableError({ status }))).toEqual([true, true, false, false, false]);
+    expect(isRetryableError(undefined)).toBe(false);
+  });
+});
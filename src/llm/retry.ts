@@ -0,0 +1,67 @@
+import { logger } from '../observability/logger';
+import { RetryPolicy } from './types';
+
+const abortError = () => Object.assign(new Error('Request aborted'), { name: 'AbortError' });
+
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(abortError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export type RetryOptions = RetryPolicy & {
+  // Called before waiting for the next attempt
+  onRetry?: (attempt: number, delay: number, error: any) => void;
+  // Stops retrying (and any pending wait) once aborted
+  signal?: AbortSignal;
+  // Waits between attempts; tests pass a fake clock
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+};
+
+// Only transient upstream failures are worth retrying
+export const isRetryableError = (error: any): boolean =>
+  error?.status === 503 || error?.status === 429;
+
+export const retryWithBackoff = async <T>(
+  operation: () => Promise<T>,
+  options: RetryOptions
+): Promise<T> => {
+  const { maxRetries, initialDelay, onRetry, signal, sleep: wait = sleep } = options;
+  let retries = 0;
+  let delay = initialDelay;
+  let lastError: any;
+
+  while (retries < maxRetries) {
+    if (signal?.aborted) {
+      throw abortError();
+    }
+    try {
+      return await operation();
+    } catch (error: any) {
+      lastError = error;
+      logger.warn('AI call failed', { attempt: retries + 1, error: error.message, status: error?.status });
+
+      if (isRetryableError(error)) {
+        logger.info('Service unavailable or rate limited, retrying', { delayMs: delay });
+        onRetry?.(retries + 1, delay, error);
+        await wait(delay, signal);
+        retries++;
+        delay *= 2;
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  throw new Error(`Failed after ${maxRetries} retries. Last error: ${lastError?.message}`);
+};
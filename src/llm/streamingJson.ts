@@ -0,0 +1,55 @@
+// Incrementally pulls complete objects out of a JSON array while the model is still writing it,
+// e.g. each node of `"nodes": [ {...}, {...}` as soon as its closing brace arrives.
+export const createArrayItemExtractor = (key: string) => {
+  const opener = new RegExp(`"${key}"\\s*:\\s*\\[`);
+  let buffer = '';
+  let index = -1; // scan position inside the array, -1 until the array has been found
+  let depth = 0;
+  let inString = false;
+  let itemStart = -1;
+  let finished = false;
+
+  const push = (chunk: string): unknown[] => {
+    buffer += chunk;
+    const items: unknown[] = [];
+    if (finished) return items;
+
+    if (index === -1) {
+      const match = opener.exec(buffer);
+      if (!match) return items;
+      index = match.index + match[0].length;
+    }
+
+    for (; index < buffer.length; index++) {
+      const char = buffer[index];
+      if (inString) {
+        if (char === '\\') index++;
+        else if (char === '"') inString = false;
+        continue;
+      }
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        if (depth === 0) itemStart = index;
+        depth++;
+      } else if (char === '}' || char === ']') {
+        if (depth === 0) {
+          finished = true; // closing bracket of the array itself
+          break;
+        }
+        depth--;
+        if (depth === 0 && itemStart !== -1) {
+          try {
+            items.push(JSON.parse(buffer.substring(itemStart, index + 1)));
+          } catch {
+            // Malformed item; the final validation pass deals with it
+          }
+          itemStart = -1;
+        }
+      }
+    }
+    return items;
+  };
+
+  return { push, text: () => buffer };
+};
@@ -0,0 +1,112 @@
+import { z } from 'zod';
+import { logger } from '../observability/logger';
+import { aiParseFailures, recordAIResult } from '../observability/metrics';
+import { CallOptions, LLMClient } from './client';
+import { parseModelJson } from './json';
+import { ChatMessage, CompletionResult, LLMRoute } from './types';
+
+// Where the data in a response came from; returned to clients as `dataSource`
+export type DataSource = 'ai-validated' | 'ai-repaired' | 'fallback';
+
+export type StructuredResult<T> = {
+  data: T;
+  dataSource: Exclude<DataSource, 'fallback'>;
+  completion: CompletionResult;
+};
+
+type StructuredOptions<T = any> = CallOptions & {
+  // Route-specific fix-ups tried before re-asking the model
+  repair?: (value: unknown) => unknown;
+  // Checks beyond the schema (e.g. output relevance); returned problems are treated like validation errors
+  check?: (data: T) => string[];
+};
+
+export const formatIssues = (error: z.ZodError): string[] =>
+  error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+
+// Models often wrap the array we asked for, e.g. { "suggestions": [...] }
+const unwrapSingleArray = (value: unknown): unknown => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return value;
+  const arrays = Object.values(value as Record<string, unknown>).filter(Array.isArray);
+  return arrays.length === 1 ? arrays[0] : value;
+};
+
+const parseContent = <S extends z.ZodTypeAny>(
+  schema: S,
+  content: string,
+  options: Pick<StructuredOptions, 'repair'>
+): { data?: z.output<S>; repaired: boolean; errors: string[] } => {
+  const parsed = parseModelJson(content);
+  if (!parsed) {
+    return { repaired: false, errors: ['(root): response did not contain parseable JSON'] };
+  }
+
+  const direct = schema.safeParse(parsed.value);
+  if (direct.success) {
+    return { data: direct.data, repaired: parsed.repaired, errors: [] };
+  }
+
+  const candidates = [unwrapSingleArray(parsed.value)];
+  if (options.repair) {
+    candidates.push(options.repair(parsed.value), options.repair(candidates[0]));
+  }
+  for (const candidate of candidates) {
+    if (candidate === parsed.value) continue;
+    const result = schema.safeParse(candidate);
+    if (result.success) {
+      return { data: result.data, repaired: true, errors: [] };
+    }
+  }
+  return { repaired: false, errors: formatIssues(direct.error) };
+};
+
+export const validateContent = <S extends z.ZodTypeAny>(
+  schema: S,
+  content: string,
+  options: Pick<StructuredOptions<z.output<S>>, 'repair' | 'check'> = {}
+): { data?: z.output<S>; repaired: boolean; errors: string[] } => {
+  const result = parseContent(schema, content, options);
+  if (result.data === undefined || !options.check) return result;
+  const problems = options.check(result.data);
+  return problems.length ? { repaired: false, errors: problems } : result;
+};
+
+// Conversation asking the model to fix its previous answer
+export const correctionMessages = (messages: ChatMessage[], content: string, errors: string[]): ChatMessage[] => [
+  ...messages,
+  { role: 'assistant', content },
+  {
+    role: 'user',
+    content: `Your previous response was rejected:\n${errors.map(e => `- ${e}`).join('\n')}\nReturn ONLY the corrected JSON, no other text.`
+  }
+];
+
+// Call the model, validate against `schema`, and re-ask with the validation errors on failure
+export const generateStructured = async <S extends z.ZodTypeAny>(
+  llm: LLMClient,
+  route: LLMRoute,
+  messages: ChatMessage[],
+  schema: S,
+  options: StructuredOptions<z.output<S>> = {}
+): Promise<StructuredResult<z.output<S>>> => {
+  const maxReasks = llm.routeConfig(route).maxReasks;
+  let conversation = messages;
+  let errors: string[] = [];
+
+  for (let attempt = 0; attempt <= maxReasks; attempt++) {
+    const completion = await llm.complete(route, conversation, options);
+    const result = validateContent(schema, completion.content, options);
+    if (result.data !== undefined) {
+      const dataSource = attempt === 0 && !result.repaired ? 'ai-validated' : 'ai-repaired';
+      recordAIResult(route, dataSource);
+      return { data: result.data, dataSource, completion };
+    }
+
+    errors = result.errors;
+    aiParseFailures.inc({ route });
+    logger.warn('AI response failed validation', { route, attempt: attempt + 1, errors });
+    conversation = correctionMessages(messages, completion.content, errors);
+  }
+
+  throw new Error(`AI response failed validation: ${errors.join('; ')}`);
+};
@@ -0,0 +1,74 @@
+// Shared types for the LLM client layer
+
+// Logical AI routes; each one gets its own provider/model/temperature config
+export type LLMRoute = 'mindmap' | 'suggestions' | 'careerDetails' | 'expandCareer' | 'careerPath' | 'resume' | 'skillGap';
+
+export type ChatMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+};
+
+export type CompletionRequest = {
+  route: LLMRoute;
+  model: string;
+  messages: ChatMessage[];
+  temperature: number;
+  maxTokens: number;
+  // Aborts the upstream call (e.g. when the HTTP client disconnects)
+  signal?: AbortSignal;
+};
+
+export type TokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+};
+
+export type CompletionResult = {
+  content: string;
+  model: string;
+  provider: string;
+  usage?: TokenUsage;
+};
+
+// Resolves once the upstream stream is open; `usage` is filled in after the chunks are consumed
+export type StreamingCompletion = {
+  model: string;
+  provider: string;
+  chunks: AsyncIterable<string>;
+  usage?: TokenUsage;
+};
+
+export type LLMProvider = {
+  name: string;
+  complete: (request: CompletionRequest) => Promise<CompletionResult>;
+  stream: (request: CompletionRequest) => Promise<StreamingCompletion>;
+  // A cheap request proving the backend is reachable (readiness checks); providers without one are always ready
+  check?: (signal?: AbortSignal) => Promise<void>;
+};
+
+export type ProviderKind = 'openai' | 'local' | 'mock';
+
+export type RetryPolicy = {
+  maxRetries: number;
+  initialDelay: number;
+};
+
+export type RouteConfig = {
+  provider: ProviderKind;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  // Per upstream attempt (for streams, until the stream opens); 0 = no limit
+  timeoutMs: number;
+  retry: RetryPolicy;
+  // Corrective re-prompts allowed when a response fails schema validation
+  maxReasks: number;
+};
+
+export type LLMConfig = {
+  openaiApiKey?: string;
+  localBaseUrl: string;
+  localApiKey?: string;
+  routes: Record<LLMRoute, RouteConfig>;
+};
@@ -0,0 +1,115 @@
+import { LocaleDefinition } from './types';
+
+const timeToReach = {
+  "Entry": "0 years",
+  "Junior": "1-3 years",
+  "Senior": "5-7 years",
+  "Lead": "8+ years"
+};
+
+// "a", "a and b", "a, b and c"
+const listOf = (items: string[]) =>
+  items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items.join('');
+
+export const en: LocaleDefinition = {
+  language: 'English',
+  region: 'United States',
+  currency: 'USD',
+  experienceLabel: (minYears, maxYears) => {
+    if (minYears === 0 && !maxYears) return '(Entry level)';
+    if (maxYears === minYears) return `(${minYears} yrs)`;
+    return maxYears ? `(${minYears}-${maxYears} yrs)` : `(${minYears}+ yrs)`;
+  },
+  prompts: {
+    titleStyle: 'English job titles',
+    titleExamples: ['Senior Product Manager (5+ yrs)', 'UX Researcher (2-3 yrs)', 'Google Software Engineer (3+ yrs)'],
+    salaryTemplate: 'US annual salary (entry: $XK, mid: $XK, senior: $XK)'
+  },
+  fallbacks: {
+    mindMapRoot: 'Career Exploration',
+    genericPaths: title => [`Senior ${title}`, `Lead ${title}`, `Principal ${title}`],
+    genericSuggestions: title => [
+      `Senior ${title}`,
+      `${title} Lead`,
+      `${title} Manager`,
+      `${title} Specialist`,
+      `${title} Consultant`,
+      `${title} Director`,
+      `${title} Expert`,
+      `Principal ${title}`
+    ],
+    genericDetails: title => ({
+      title,
+      averageSalary: "$50K-80K entry, $80K-150K+ senior",
+      requirements: {
+        education: ["Bachelor's degree preferred"],
+        certifications: ["Industry-standard certifications"],
+        experience: ["2+ years relevant experience"]
+      },
+      description: `${title} professionals solve problems using specialized skills and knowledge.`,
+      relatedCompanies: ["Google", "Microsoft", "Apple", "Amazon", "Meta"],
+      roleModels: ["Industry leaders", "Successful practitioners"],
+      timeToReach
+    }),
+    timeToReach,
+    salaryLevels: {
+      intern: 'intern',
+      entry: 'entry',
+      junior: 'junior',
+      mid: 'mid',
+      senior: 'senior',
+      lead: 'lead',
+      executive: 'executive'
+    },
+    nextSteps: {
+      education: requirement => [`Compare degree, bootcamp and online options for: ${requirement}`, 'Enroll in a program that fits your schedule'],
+      certifications: requirement => [`Work through the official study guide for: ${requirement}`, 'Book the exam once practice tests pass'],
+      experience: requirement => [`Take on projects at work or outside it that build: ${requirement}`, 'Document the results in your portfolio']
+    }
+  },
+  personality: {
+    scale: ['Strongly disagree', 'Disagree', 'Neutral', 'Agree', 'Strongly agree'],
+    questions: {
+      r1: 'I enjoy building or fixing things with my hands or with tools.',
+      r2: 'I like working with machines, hardware or physical systems.',
+      i1: 'I enjoy figuring out how things work by analyzing data or evidence.',
+      i2: 'I like hard problems that take research and careful thinking.',
+      a1: 'I enjoy creating things such as designs, writing, music or videos.',
+      a2: 'I prefer work where I can express my own ideas and style.',
+      s1: 'I enjoy teaching, helping or advising other people.',
+      s2: "I find it rewarding when my work directly improves someone's life.",
+      e1: 'I like persuading people and leading them toward a goal.',
+      e2: 'I enjoy taking risks to start projects or grow a business.',
+      c1: 'I like keeping information, numbers or files well organized.',
+      c2: 'I prefer tasks with clear procedures and defined standards.',
+      op1: 'I am curious about new ideas and unfamiliar subjects.',
+      op2: 'I prefer familiar routines to trying new approaches.',
+      co1: 'I finish tasks thoroughly and on time.',
+      co2: 'I often leave things until the last minute.',
+      ex1: 'I feel energized in large groups of people.',
+      ex2: 'I tend to stay quiet and in the background in meetings.',
+      ag1: 'I go out of my way to cooperate and avoid conflict.',
+      ag2: "I am quick to criticize other people's work.",
+      ne1: 'I often feel stressed or anxious about work.',
+      ne2: 'I stay calm under pressure.',
+      ei1: 'Spending time with many people recharges me after a long week.',
+      ei2: 'I think best when I can work through ideas alone first.',
+      sn1: 'I trust concrete facts and hands-on experience more than theories.',
+      sn2: 'I am drawn to patterns, possibilities and the big picture.',
+      tf1: 'When deciding, logic and consistency matter more to me than feelings.',
+      tf2: 'When deciding, I weigh how the outcome affects the people involved.',
+      jp1: 'I like to plan ahead and settle decisions early.',
+      jp2: 'I prefer to keep my options open and adapt as I go.'
+    },
+    interests: {
+      R: 'hands-on',
+      I: 'investigative',
+      A: 'artistic',
+      S: 'social',
+      E: 'enterprising',
+      C: 'organizing'
+    },
+    fitReason: interests => `Suggested for your ${listOf(interests)} interests`,
+    weakFit: interests => `Less typical for you: this role is mostly ${listOf(interests)} work`
+  }
+};
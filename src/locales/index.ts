@@ -0,0 +1,16 @@
+import { en } from './en';
+import { ko } from './ko';
+import { LocaleDefinition } from './types';
+
+export { LocaleDefinition, RequirementCategory } from './types';
+
+// To add a locale, write its definition next to ko.ts/en.ts and register it here
+export const LOCALES = { ko, en };
+
+export type Locale = keyof typeof LOCALES;
+
+export const SUPPORTED_LOCALES = Object.keys(LOCALES) as Locale[];
+
+export const DEFAULT_LOCALE: Locale = 'ko';
+
+export const getLocale = (locale: Locale = DEFAULT_LOCALE): LocaleDefinition => LOCALES[locale];
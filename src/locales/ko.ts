@@ -0,0 +1,111 @@
+import { LocaleDefinition } from './types';
+
+const timeToReach = {
+  "신입": "경력 0년",
+  "주니어": "경력 1-3년",
+  "시니어": "경력 5-7년",
+  "리드": "경력 8년+"
+};
+
+export const ko: LocaleDefinition = {
+  language: 'Korean',
+  region: 'South Korea',
+  currency: 'KRW',
+  experienceLabel: (minYears, maxYears) => {
+    if (minYears === 0 && !maxYears) return '(신입)';
+    if (maxYears === minYears) return `(경력 ${minYears}년)`;
+    return maxYears ? `(경력 ${minYears}-${maxYears}년)` : `(경력 ${minYears}년+)`;
+  },
+  prompts: {
+    titleStyle: 'Korean job titles, keeping proper nouns (company names, people names, technologies) in English',
+    titleExamples: ['시니어 Product Manager (경력 5년+)', 'UX 리서처 (경력 2-3년)', 'Google 소프트웨어 엔지니어 (경력 3년+)'],
+    salaryTemplate: '한국 기준 연봉 (신입: X만원, 경력: X만원, 시니어: X만원)'
+  },
+  fallbacks: {
+    mindMapRoot: '커리어 탐색',
+    genericPaths: title => [`시니어 ${title}`, `${title} 리드`, `수석 ${title}`],
+    genericSuggestions: title => [
+      `시니어 ${title}`,
+      `${title} 리드`,
+      `${title} 매니저`,
+      `${title} 스페셜리스트`,
+      `${title} 컨설턴트`,
+      `${title} 디렉터`,
+      `${title} 전문가`,
+      `수석 ${title}`
+    ],
+    genericDetails: title => ({
+      title,
+      averageSalary: "신입 3,000-4,000만원, 시니어 6,000만-1억원+",
+      requirements: {
+        education: ["관련 분야 학사 학위 우대"],
+        certifications: ["업계 표준 자격증"],
+        experience: ["관련 분야 경력 2년 이상"]
+      },
+      description: `${title} 직무는 전문 지식과 기술을 바탕으로 문제를 해결합니다.`,
+      relatedCompanies: ["Samsung", "Naver", "Kakao", "LG", "SK"],
+      roleModels: ["업계 리더", "현업 전문가"],
+      timeToReach
+    }),
+    timeToReach,
+    salaryLevels: {
+      intern: '인턴',
+      entry: '신입',
+      junior: '주니어',
+      mid: '경력',
+      senior: '시니어',
+      lead: '리드',
+      executive: '임원'
+    },
+    nextSteps: {
+      education: requirement => [`학위, 부트캠프, 온라인 과정 중 알맞은 방법 비교하기: ${requirement}`, '일정에 맞는 과정에 등록하기'],
+      certifications: requirement => [`공식 학습 자료로 준비하기: ${requirement}`, '모의고사를 통과하면 시험 접수하기'],
+      experience: requirement => [`회사 업무나 사이드 프로젝트로 경험 쌓기: ${requirement}`, '결과를 포트폴리오에 정리하기']
+    }
+  },
+  personality: {
+    scale: ['전혀 아니다', '아니다', '보통이다', '그렇다', '매우 그렇다'],
+    questions: {
+      r1: '손이나 도구를 써서 무언가를 만들거나 고치는 것이 즐겁다.',
+      r2: '기계, 하드웨어, 물리적인 시스템을 다루는 일이 좋다.',
+      i1: '데이터나 근거를 분석해 원리를 알아내는 것이 즐겁다.',
+      i2: '조사와 깊은 생각이 필요한 어려운 문제를 좋아한다.',
+      a1: '디자인, 글, 음악, 영상 같은 것을 만드는 것이 즐겁다.',
+      a2: '내 아이디어와 스타일을 표현할 수 있는 일이 좋다.',
+      s1: '다른 사람을 가르치거나 돕거나 조언하는 것이 즐겁다.',
+      s2: '내 일이 누군가의 삶을 직접 나아지게 할 때 보람을 느낀다.',
+      e1: '사람들을 설득하고 목표를 향해 이끄는 것이 좋다.',
+      e2: '위험을 감수하고 프로젝트를 시작하거나 사업을 키우는 것이 즐겁다.',
+      c1: '정보, 숫자, 파일을 잘 정리해 두는 것이 좋다.',
+      c2: '절차가 분명하고 기준이 정해진 일이 좋다.',
+      op1: '새로운 아이디어와 낯선 주제에 호기심이 많다.',
+      op2: '새로운 방식보다 익숙한 방식이 편하다.',
+      co1: '맡은 일을 꼼꼼하게, 기한 안에 끝낸다.',
+      co2: '일을 마지막 순간까지 미루는 편이다.',
+      ex1: '많은 사람과 함께 있으면 힘이 난다.',
+      ex2: '회의에서 조용히 뒤에 있는 편이다.',
+      ag1: '갈등을 피하고 협력하려고 애쓰는 편이다.',
+      ag2: '다른 사람의 결과물을 쉽게 비판하는 편이다.',
+      ne1: '일 때문에 스트레스나 불안을 자주 느낀다.',
+      ne2: '압박 속에서도 침착함을 유지한다.',
+      ei1: '바쁜 한 주를 보낸 뒤 여러 사람을 만나면 에너지가 충전된다.',
+      ei2: '아이디어는 먼저 혼자 정리할 때 가장 잘 떠오른다.',
+      sn1: '이론보다 구체적인 사실과 직접 해 본 경험을 믿는다.',
+      sn2: '패턴, 가능성, 큰 그림에 끌린다.',
+      tf1: '결정할 때 감정보다 논리와 일관성이 더 중요하다.',
+      tf2: '결정할 때 그 결과가 관련된 사람들에게 미칠 영향을 고려한다.',
+      jp1: '미리 계획하고 결정을 일찍 내리는 것이 좋다.',
+      jp2: '선택지를 열어 두고 상황에 맞춰 움직이는 것이 좋다.'
+    },
+    interests: {
+      R: '현장형',
+      I: '탐구형',
+      A: '예술형',
+      S: '사회형',
+      E: '진취형',
+      C: '관습형'
+    },
+    fitReason: interests => `${interests.join(', ')} 성향에 맞는 직무입니다`,
+    weakFit: interests => `주로 ${interests.join(', ')} 성향의 직무로, 성향과의 연관성은 낮습니다`
+  }
+};
@@ -0,0 +1,46 @@
+import { Seniority } from '../careers/roles';
+import { QuestionId, RiasecType } from '../personality';
+import { CareerDetail } from '../schemas/responses';
+
+// Kinds of requirement listed in career details
+export type RequirementCategory = keyof CareerDetail['requirements'];
+
+export type LocaleDefinition = {
+  // Language name used in prompt instructions ("Write all text IN KOREAN")
+  language: string;
+  // Job market that salaries and companies refer to
+  region: string;
+  currency: string;
+  // Experience suffix appended to job titles, e.g. "(경력 2-3년)" or "(2-3 yrs)"; no maxYears means "minYears+",
+  // (0, 0) or (0) means entry level
+  experienceLabel: (minYears: number, maxYears?: number) => string;
+  prompts: {
+    // How titles mix the locale's language with proper nouns
+    titleStyle: string;
+    titleExamples: string[];
+    salaryTemplate: string;
+  };
+  fallbacks: {
+    mindMapRoot: string;
+    genericPaths: (title: string) => string[];
+    genericSuggestions: (title: string) => string[];
+    // Used for careers the taxonomy does not know, and for what a known role leaves out
+    genericDetails: (title: string) => CareerDetail;
+    timeToReach: CareerDetail['timeToReach'];
+    // Level names in salary text built from the taxonomy's bands; parseSalary has to read them back
+    salaryLevels: Record<Seniority, string>;
+    // Generic next steps towards a requirement the user does not meet yet
+    nextSteps: Record<RequirementCategory, (requirement: string) => string[]>;
+  };
+  personality: {
+    // Answer labels from strongly disagree to strongly agree
+    scale: string[];
+    // Statements of the built-in questionnaire (src/personality/questionnaire.ts)
+    questions: Record<QuestionId, string>;
+    interests: Record<RiasecType, string>;
+    // Why a role suits someone, from the role's interest types they lean towards
+    fitReason: (interests: string[]) => string;
+    // For a role they show no leaning for
+    weakFit: (interests: string[]) => string;
+  };
+};
@@ -0,0 +1,55 @@
+// Structural diff between two saved versions of a mind map
+
+type DiffNode = { id: string; data?: { label?: string }; position?: { x: number; y: number } };
+type DiffEdge = { id: string; source: string; target: string };
+
+export type MindMapSnapshot = { nodes: DiffNode[]; edges: DiffEdge[] };
+
+export type NodeChange = {
+  id: string;
+  fields: ('label' | 'position')[];
+  before: DiffNode;
+  after: DiffNode;
+};
+
+export type MindMapDiff = {
+  nodes: { added: DiffNode[]; removed: DiffNode[]; changed: NodeChange[] };
+  edges: { added: DiffEdge[]; removed: DiffEdge[] };
+};
+
+const byId = <T extends { id: string }>(items: T[]) => new Map(items.map(item => [item.id, item]));
+
+// Edges are compared by endpoints so a re-generated edge id is not reported as a change
+const edgeKey = (edge: DiffEdge) => `${edge.source}->${edge.target}`;
+
+export const diffMindMaps = (before: MindMapSnapshot, after: MindMapSnapshot): MindMapDiff => {
+  const oldNodes = byId(before.nodes || []);
+  const newNodes = byId(after.nodes || []);
+
+  const changed: NodeChange[] = [];
+  newNodes.forEach((node, id) => {
+    const previous = oldNodes.get(id);
+    if (!previous) return;
+    const fields: NodeChange['fields'] = [];
+    if (previous.data?.label !== node.data?.label) fields.push('label');
+    if (previous.position?.x !== node.position?.x || previous.position?.y !== node.position?.y) {
+      fields.push('position');
+    }
+    if (fields.length) changed.push({ id, fields, before: previous, after: node });
+  });
+
+  const oldEdges = new Map((before.edges || []).map(edge => [edgeKey(edge), edge]));
+  const newEdges = new Map((after.edges || []).map(edge => [edgeKey(edge), edge]));
+
+  return {
+    nodes: {
+      added: Array.from(newNodes.values()).filter(node => !oldNodes.has(node.id)),
+      removed: Array.from(oldNodes.values()).filter(node => !newNodes.has(node.id)),
+      changed
+    },
+    edges: {
+      added: Array.from(newEdges.entries()).filter(([key]) => !oldEdges.has(key)).map(([, edge]) => edge),
+      removed: Array.from(oldEdges.entries()).filter(([key]) => !newEdges.has(key)).map(([, edge]) => edge)
+    }
+  };
+};
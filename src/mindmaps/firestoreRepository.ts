@@ -0,0 +1,101 @@
+import {
+  collection,
+  doc,
+  Firestore,
+  getDoc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  QueryConstraint,
+  runTransaction,
+  startAfter,
+  updateDoc,
+  where,
+  writeBatch
+} from 'firebase/firestore';
+import { MindMapRepository, MindMapRevision, StoredMindMap } from './repository';
+
+const MINDMAPS = 'mindmaps';
+const REVISIONS = 'revisions';
+
+// mindmaps/{id}, with each save kept in mindmaps/{id}/revisions/{version}.
+// Listing needs a composite index on ownerId + createdAt/updatedAt.
+export const createFirestoreMindMapRepository = (db: Firestore): MindMapRepository => {
+  const mapRef = (id: string) => doc(db, MINDMAPS, id);
+  const revisionsRef = (id: string) => collection(db, MINDMAPS, id, REVISIONS);
+
+  const create: MindMapRepository['create'] = async (ownerId, content) => {
+    const now = new Date().toISOString();
+    const data = { ...content, ownerId, version: 1, createdAt: now, updatedAt: now };
+    const ref = doc(collection(db, MINDMAPS));
+    const batch = writeBatch(db);
+    batch.set(ref, data);
+    batch.set(doc(revisionsRef(ref.id), '1'), { ...content, version: 1, ownerId, createdAt: now });
+    await batch.commit();
+    return { id: ref.id, ...data };
+  };
+
+  const get = async (id: string) => {
+    const snapshot = await getDoc(mapRef(id));
+    return snapshot.exists() ? ({ id: snapshot.id, ...snapshot.data() } as StoredMindMap) : null;
+  };
+
+  const list: MindMapRepository['list'] = async ({ ownerId, limit: pageSize, cursor, sort, order }) => {
+    const constraints: QueryConstraint[] = [where('ownerId', '==', ownerId), orderBy(sort, order), limit(pageSize + 1)];
+    if (cursor) constraints.splice(2, 0, startAfter(await getDoc(mapRef(cursor))));
+    const snapshot = await getDocs(query(collection(db, MINDMAPS), ...constraints));
+    const items = snapshot.docs.slice(0, pageSize).map(item => ({ id: item.id, ...item.data() } as StoredMindMap));
+    return {
+      items,
+      ...(snapshot.docs.length > pageSize && { nextCursor: items[items.length - 1].id })
+    };
+  };
+
+  const saveRevision: MindMapRepository['saveRevision'] = (id, ownerId, content, restoredFrom) =>
+    runTransaction(db, async transaction => {
+      const current = await transaction.get(mapRef(id));
+      const previous = current.data() || {};
+      const version = (previous.version || 0) + 1;
+      const now = new Date().toISOString();
+      const next = {
+        title: content.title ?? previous.title ?? '',
+        nodes: content.nodes ?? previous.nodes ?? [],
+        edges: content.edges ?? previous.edges ?? []
+      };
+      transaction.update(mapRef(id), { ...next, version, updatedAt: now });
+      transaction.set(doc(revisionsRef(id), String(version)), {
+        ...next,
+        version,
+        ownerId,
+        createdAt: now,
+        ...(restoredFrom !== undefined && { restoredFrom })
+      });
+      return { id, ...previous, ...next, version, updatedAt: now } as StoredMindMap;
+    });
+
+  const setCollaborators: MindMapRepository['setCollaborators'] = async (id, uids) => {
+    await updateDoc(mapRef(id), { collaborators: uids });
+    return (await get(id)) as StoredMindMap;
+  };
+
+  const remove = async (id: string) => {
+    const revisions = await getDocs(revisionsRef(id));
+    const batch = writeBatch(db);
+    revisions.docs.forEach(revision => batch.delete(revision.ref));
+    batch.delete(mapRef(id));
+    await batch.commit();
+  };
+
+  const listRevisions = async (id: string) => {
+    const revisions = await getDocs(query(revisionsRef(id), orderBy('version', 'desc')));
+    return revisions.docs.map(revision => revision.data() as MindMapRevision);
+  };
+
+  const getRevision = async (id: string, version: number) => {
+    const revision = await getDoc(doc(revisionsRef(id), String(version)));
+    return revision.exists() ? (revision.data() as MindMapRevision) : null;
+  };
+
+  return { create, get, list, saveRevision, setCollaborators, remove, listRevisions, getRevision };
+};
@@ -0,0 +1,46 @@
+import { assignOutlineIds, fromOutline, OutlineItem, ParsedOutlineItem, toOutline } from './outline';
+import { MindMapFormat } from './types';
+import { asArray, escapeXml, parseXml } from './xml';
+
+// FreeMind/Freeplane .mm. The format has no map title, so it is kept as a map attribute;
+// edge ids travel as node attributes.
+
+const serializeNode = (item: OutlineItem, depth: number): string => {
+  const indent = '  '.repeat(depth);
+  const opening = `${indent}<node ID="${escapeXml(item.id)}" TEXT="${escapeXml(item.label)}"`;
+  const children = [
+    ...(item.edgeId ? [`${indent}  <attribute NAME="edgeId" VALUE="${escapeXml(item.edgeId)}"/>`] : []),
+    ...item.children.map(child => serializeNode(child, depth + 1))
+  ];
+  return children.length ? [`${opening}>`, ...children, `${indent}</node>`].join('\n') : `${opening}/>`;
+};
+
+const attributeValue = (element: any, name: string): string | undefined =>
+  asArray<any>(element.attribute).find(attribute => attribute.NAME === name)?.VALUE;
+
+const readNode = (element: any): ParsedOutlineItem => {
+  const edgeId = attributeValue(element, 'edgeId');
+  return {
+    label: String(element.TEXT ?? ''),
+    ...(element.ID && { id: String(element.ID) }),
+    ...(edgeId && { edgeId: String(edgeId) }),
+    children: asArray<any>(element.node).map(readNode)
+  };
+};
+
+export const freemind: MindMapFormat = {
+  contentType: 'application/x-freemind',
+  extension: 'mm',
+  serialize: map => [
+    `<map version="1.0.1" title="${escapeXml(map.title)}">`,
+    ...toOutline(map).map(item => serializeNode(item, 1)),
+    '</map>',
+    ''
+  ].join('\n'),
+  parse: text => {
+    const { map: document } = parseXml(text, ['node', 'attribute']);
+    if (document === undefined) throw new Error('Expected a FreeMind <map> document');
+    const roots = asArray<any>(document.node).map(readNode);
+    return fromOutline(String(document.title ?? roots[0]?.label ?? ''), assignOutlineIds(roots));
+  }
+};
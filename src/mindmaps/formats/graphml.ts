@@ -0,0 +1,87 @@
+import { defaultEdgeId } from './outline';
+import { MindMapFormat, PortableNode } from './types';
+import { asArray, escapeXml, parseXml } from './xml';
+
+// Node attributes we write; on import keys are matched by attr.name, so files from other tools work too
+const NODE_KEYS = ['label', 'x', 'y', 'data'];
+
+const dataElement = (key: string, value: string) => `<data key="${key}">${escapeXml(value)}</data>`;
+
+const serializeNode = ({ id, data: { label, ...rest }, position }: PortableNode) => {
+  const fields = [
+    dataElement('label', label),
+    ...(position ? [dataElement('x', String(position.x)), dataElement('y', String(position.y))] : []),
+    // Everything else on the node (role, skill gap, ...) travels as JSON
+    ...(Object.keys(rest).length ? [dataElement('data', JSON.stringify(rest))] : [])
+  ];
+  return `    <node id="${escapeXml(id)}">${fields.join('')}</node>`;
+};
+
+const textOf = (element: any): string =>
+  typeof element === 'string' ? element : element?.['#text'] !== undefined ? String(element['#text']) : '';
+
+export const graphml: MindMapFormat = {
+  contentType: 'application/graphml+xml',
+  extension: 'graphml',
+  serialize: ({ title, nodes, edges }) => [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="title" for="graph" attr.name="title" attr.type="string"/>',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="x" for="node" attr.name="x" attr.type="double"/>',
+    '  <key id="y" for="node" attr.name="y" attr.type="double"/>',
+    '  <key id="data" for="node" attr.name="data" attr.type="string"/>',
+    '  <graph id="G" edgedefault="directed">',
+    `    ${dataElement('title', title)}`,
+    ...nodes.map(serializeNode),
+    ...edges.map(edge =>
+      `    <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}"/>`),
+    '  </graph>',
+    '</graphml>',
+    ''
+  ].join('\n'),
+  parse: text => {
+    const document = parseXml(text, ['key', 'graph', 'node', 'edge', 'data']);
+    const root = document.graphml;
+    const graph = asArray<any>(root?.graph)[0];
+    if (!graph) throw new Error('Expected a <graphml> document with a <graph>');
+
+    // attr.name -> key id
+    const keys: Record<string, string> = {};
+    asArray<any>(root.key).forEach(key => {
+      if (key['attr.name'] && (key.for === 'node' || key.for === 'graph' || key.for === 'all')) {
+        keys[`${key.for === 'graph' ? 'graph' : 'node'}:${key['attr.name']}`] = key.id;
+      }
+    });
+    const field = (element: any, scope: string, name: string): string | undefined => {
+      const keyId = keys[`${scope}:${name}`] ?? (NODE_KEYS.indexOf(name) !== -1 || name === 'title' ? name : undefined);
+      const match = asArray<any>(element.data).find(data => data.key === keyId);
+      return match === undefined ? undefined : textOf(match);
+    };
+
+    const nodes = asArray<any>(graph.node).map((node): PortableNode => {
+      const id = String(node.id);
+      const extra = field(node, 'node', 'data');
+      const [x, y] = ['x', 'y'].map(axis => field(node, 'node', axis)).map(value => (value ? Number(value) : NaN));
+      let rest = {};
+      if (extra) {
+        try {
+          rest = JSON.parse(extra);
+        } catch {
+          throw new Error(`Node "${id}" has invalid JSON in its data field`);
+        }
+      }
+      return {
+        id,
+        data: { ...rest, label: field(node, 'node', 'label') || id },
+        ...(Number.isFinite(x) && Number.isFinite(y) && { position: { x, y } })
+      };
+    });
+    const edges = asArray<any>(graph.edge).map(edge => ({
+      id: edge.id ? String(edge.id) : defaultEdgeId(String(edge.source), String(edge.target)),
+      source: String(edge.source),
+      target: String(edge.target)
+    }));
+    return { title: field(graph, 'graph', 'title') || '', nodes, edges };
+  }
+};
@@ -0,0 +1,21 @@
+import { freemind } from './freemind';
+import { graphml } from './graphml';
+import { json } from './json';
+import { markdown } from './markdown';
+import { mermaid } from './mermaid';
+import { opml } from './opml';
+import { MindMapFormat } from './types';
+
+export { PortableMindMap, PortableNode, PortableEdge, MindMapFormat } from './types';
+
+export const MINDMAP_FORMATS = { json, graphml, mermaid, opml, freemind, markdown };
+export type MindMapFormatName = keyof typeof MINDMAP_FORMATS;
+export const MINDMAP_FORMAT_NAMES = Object.keys(MINDMAP_FORMATS) as MindMapFormatName[];
+
+// Also accepted in ?format=: the usual file extensions
+const ALIASES: Record<string, MindMapFormatName> = { mm: 'freemind', md: 'markdown', mmd: 'mermaid' };
+
+export const resolveFormatName = (value: unknown): unknown =>
+  typeof value === 'string' ? ALIASES[value.toLowerCase()] ?? value.toLowerCase() : value;
+
+export const getFormat = (name: MindMapFormatName): MindMapFormat => MINDMAP_FORMATS[name];
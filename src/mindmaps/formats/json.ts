@@ -0,0 +1,22 @@
+import { MindMapFormat } from './types';
+
+const FORMAT = 'growgraph-mindmap';
+
+// Lossless: every node/edge field is kept
+export const json: MindMapFormat = {
+  contentType: 'application/json',
+  extension: 'json',
+  serialize: map => JSON.stringify({ format: FORMAT, version: 1, ...map }, null, 2),
+  parse: text => {
+    let value: any;
+    try {
+      value = JSON.parse(text);
+    } catch (error: any) {
+      throw new Error(`Not valid JSON: ${error.message}`);
+    }
+    if (!value || typeof value !== 'object' || !Array.isArray(value.nodes)) {
+      throw new Error('Expected an object with a "nodes" array');
+    }
+    return { title: typeof value.title === 'string' ? value.title : '', nodes: value.nodes, edges: value.edges || [] };
+  }
+};
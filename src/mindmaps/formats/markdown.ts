@@ -0,0 +1,75 @@
+import { assignOutlineIds, fromOutline, OutlineItem, ParsedOutlineItem, toOutline } from './outline';
+import { MindMapFormat } from './types';
+
+// Markdown outline: "# title" followed by a nested list. Ids (and non-default edge ids) are kept in
+// HTML comments, which renderers hide. Section headings (## ...) are read as outline levels too.
+
+const ID_COMMENT = /\s*<!--\s*id:\s*(.*?)(?:\s*,\s*edge:\s*(.*?))?\s*-->\s*$/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const LIST_ITEM = /^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/;
+
+const serializeItem = (item: OutlineItem, depth: number): string[] => {
+  const comment = item.edgeId ? `id: ${item.id}, edge: ${item.edgeId}` : `id: ${item.id}`;
+  return [
+    `${'  '.repeat(depth)}- ${item.label.replace(/\r?\n/g, ' ')} <!-- ${comment} -->`,
+    ...item.children.reduce<string[]>((all, child) => all.concat(serializeItem(child, depth + 1)), [])
+  ];
+};
+
+const readLabel = (text: string) => {
+  const comment = ID_COMMENT.exec(text);
+  return {
+    label: text.replace(ID_COMMENT, '').trim(),
+    ...(comment && { id: comment[1] }),
+    ...(comment?.[2] && { edgeId: comment[2] })
+  };
+};
+
+export const markdown: MindMapFormat = {
+  contentType: 'text/markdown',
+  extension: 'md',
+  serialize: map => [
+    `# ${map.title}`,
+    '',
+    ...toOutline(map).reduce<string[]>((all, item) => all.concat(serializeItem(item, 0)), []),
+    ''
+  ].join('\n'),
+  parse: text => {
+    let title = '';
+    const roots: ParsedOutlineItem[] = [];
+    // Open items with their depth: headings count from 0, list items nest below the last heading
+    const stack: { depth: number; item: ParsedOutlineItem }[] = [];
+    let headingDepth = 0;
+    const indents: number[] = [];
+
+    const add = (depth: number, item: ParsedOutlineItem) => {
+      while (stack.length && stack[stack.length - 1].depth >= depth) stack.pop();
+      (stack.length ? stack[stack.length - 1].item.children : roots).push(item);
+      stack.push({ depth, item });
+    };
+
+    text.replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+      const heading = HEADING.exec(line);
+      if (heading) {
+        const level = heading[1].length;
+        if (level === 1 && !title && !roots.length) {
+          title = heading[2];
+          return;
+        }
+        headingDepth = level - 1;
+        indents.length = 0;
+        add(headingDepth - 1, { ...readLabel(heading[2]), children: [] });
+        return;
+      }
+      const listItem = LIST_ITEM.exec(line);
+      if (!listItem) return;
+      // Nesting follows indentation, whatever its width
+      const indent = listItem[1].replace(/\t/g, '    ').length;
+      while (indents.length && indents[indents.length - 1] > indent) indents.pop();
+      if (!indents.length || indents[indents.length - 1] < indent) indents.push(indent);
+      add(headingDepth + indents.length - 1, { ...readLabel(listItem[2]), children: [] });
+    });
+    if (!roots.length) throw new Error('Expected a Markdown list or headings');
+    return fromOutline(title, assignOutlineIds(roots));
+  }
+};
@@ -0,0 +1,126 @@
+import { defaultEdgeId } from './outline';
+import { MindMapFormat, PortableMindMap } from './types';
+
+// Mermaid flowchart. Ids that Mermaid cannot use are written as n<index> with a `%% id:` comment
+// mapping them back; edge ids outside the e<source>-<target> convention get a `%% edge:` comment.
+
+const SAFE_ID = /^[A-Za-z0-9_]+$/;
+const RESERVED = ['end', 'graph', 'flowchart', 'subgraph', 'style', 'class', 'classdef', 'click', 'linkstyle', 'direction'];
+const SKIPPED_LINES = /^(subgraph|end|style|classDef|class|click|linkStyle|direction)\b/;
+
+const isSafeId = (id: string) => SAFE_ID.test(id) && RESERVED.indexOf(id.toLowerCase()) === -1;
+
+// Mermaid entity codes (#quot;, #35;); angle brackets too, since labels may be rendered as HTML
+const encodeLabel = (label: string) => label
+  .replace(/#/g, '#35;')
+  .replace(/"/g, '#quot;')
+  .replace(/</g, '#60;')
+  .replace(/>/g, '#62;')
+  .replace(/\r?\n/g, ' ');
+const decodeLabel = (label: string) => label
+  .replace(/<br\s*\/?>/gi, ' ')
+  .replace(/#quot;/g, '"')
+  .replace(/#(\d+);/g, (_, code) => String.fromCharCode(Number(code)));
+
+// A node reference with an optional shape: A, A[label], A("label"), A((label)), A{label}, ...
+const NODE_REF = /^([A-Za-z0-9_]+)\s*(?:(\[\[|\[\(|\[\/|\[\\|\(\(|\(\[|\{\{|\[|\(|\{|>)(.*)(\]\]|\)\]|\/\]|\\\]|\)\)|\]\)|\}\}|\]|\)|\}))?$/;
+// -->, ---, -.->, ==>, with an optional |edge text| or -- text -->
+const ARROW = /\s*(?:--\s[^-]*?\s-->|-->|---|-\.->|-\.-|==>|===)\s*(?:\|[^|]*\|\s*)?/;
+
+export const mermaid: MindMapFormat = {
+  contentType: 'text/vnd.mermaid',
+  extension: 'mmd',
+  serialize: ({ title, nodes, edges }) => {
+    const aliases = new Map(nodes.map((node, index) => [node.id, isSafeId(node.id) ? node.id : `n${index}`]));
+    const alias = (id: string) => aliases.get(id) || id;
+    const lines = [
+      '---',
+      `title: ${JSON.stringify(title)}`,
+      '---',
+      'flowchart LR',
+      ...nodes.reduce<string[]>((all, node) => all.concat(
+        alias(node.id) === node.id ? [] : [`  %% id: ${alias(node.id)} ${JSON.stringify(node.id)}`],
+        [`  ${alias(node.id)}["${encodeLabel(node.data.label)}"]`]
+      ), []),
+      ...edges.reduce<string[]>((all, edge) => all.concat(
+        edge.id === defaultEdgeId(edge.source, edge.target)
+          ? []
+          : [`  %% edge: ${alias(edge.source)} ${alias(edge.target)} ${JSON.stringify(edge.id)}`],
+        [`  ${alias(edge.source)} --> ${alias(edge.target)}`]
+      ), [])
+    ];
+    return `${lines.join('\n')}\n`;
+  },
+  parse: text => {
+    const lines = text.replace(/\r\n?/g, '\n').split('\n');
+    let title = '';
+    let start = 0;
+    if (lines[0]?.trim() === '---') {
+      const end = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+      if (end === -1) throw new Error('Front matter is not closed with ---');
+      lines.slice(1, end).forEach(line => {
+        const match = /^title:\s*(.*)$/.exec(line.trim());
+        if (match) title = match[1].startsWith('"') ? JSON.parse(match[1]) : match[1];
+      });
+      start = end + 1;
+    }
+
+    const originalIds = new Map<string, string>();
+    const edgeIds = new Map<string, string>();
+    const labels = new Map<string, string>();
+    const order: string[] = [];
+    const pairs: [string, string][] = [];
+    let header = false;
+
+    const nodeRef = (segment: string, lineNumber: number) => {
+      const match = NODE_REF.exec(segment.trim());
+      if (!match) throw new Error(`Line ${lineNumber}: cannot read node "${segment.trim()}"`);
+      const [, id, , rawLabel] = match;
+      if (order.indexOf(id) === -1) order.push(id);
+      if (rawLabel !== undefined) {
+        const label = rawLabel.trim().replace(/^"([\s\S]*)"$/, '$1');
+        labels.set(id, decodeLabel(label));
+      }
+      return id;
+    };
+
+    lines.slice(start).forEach((raw, index) => {
+      const lineNumber = start + index + 1;
+      const line = raw.trim().replace(/;$/, '');
+      if (!line) return;
+      const comment = /^%%\s*(id|edge):\s*(.*)$/.exec(line);
+      if (comment) {
+        const [, kind, rest] = comment;
+        const parts = /^(\S+)\s+(?:(\S+)\s+)?(".*")$/.exec(rest);
+        if (parts) {
+          const value = JSON.parse(parts[3]);
+          if (kind === 'id') originalIds.set(parts[1], value);
+          else if (parts[2]) edgeIds.set(`${parts[1]} ${parts[2]}`, value);
+        }
+        return;
+      }
+      if (line.startsWith('%%')) return;
+      if (!header) {
+        if (!/^(flowchart|graph)\b/.test(line)) throw new Error('Expected a "flowchart" or "graph" diagram');
+        header = true;
+        return;
+      }
+      if (SKIPPED_LINES.test(line)) return;
+      const ids = line.split(ARROW).map(segment => nodeRef(segment, lineNumber));
+      for (let i = 1; i < ids.length; i += 1) pairs.push([ids[i - 1], ids[i]]);
+    });
+    if (!header) throw new Error('Expected a "flowchart" or "graph" diagram');
+
+    const original = (id: string) => originalIds.get(id) ?? id;
+    const map: PortableMindMap = {
+      title,
+      nodes: order.map(id => ({ id: original(id), data: { label: labels.get(id) ?? id } })),
+      edges: pairs.map(([source, target]) => ({
+        id: edgeIds.get(`${source} ${target}`) ?? defaultEdgeId(original(source), original(target)),
+        source: original(source),
+        target: original(target)
+      }))
+    };
+    return map;
+  }
+};
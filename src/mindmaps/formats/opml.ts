@@ -0,0 +1,50 @@
+import { assignOutlineIds, fromOutline, OutlineItem, ParsedOutlineItem, toOutline } from './outline';
+import { MindMapFormat } from './types';
+import { asArray, escapeXml, parseXml } from './xml';
+
+const serializeItem = (item: OutlineItem, depth: number): string => {
+  const indent = '  '.repeat(depth);
+  const attributes = [
+    `text="${escapeXml(item.label)}"`,
+    `id="${escapeXml(item.id)}"`,
+    ...(item.edgeId ? [`edgeId="${escapeXml(item.edgeId)}"`] : [])
+  ].join(' ');
+  if (!item.children.length) return `${indent}<outline ${attributes}/>`;
+  return [
+    `${indent}<outline ${attributes}>`,
+    ...item.children.map(child => serializeItem(child, depth + 1)),
+    `${indent}</outline>`
+  ].join('\n');
+};
+
+const readItem = (element: any): ParsedOutlineItem => ({
+  // Outliners that do not know our attributes still write text (or title)
+  label: String(element.text ?? element.title ?? ''),
+  ...(element.id && { id: String(element.id) }),
+  ...(element.edgeId && { edgeId: String(element.edgeId) }),
+  children: asArray<any>(element.outline).map(readItem)
+});
+
+export const opml: MindMapFormat = {
+  contentType: 'text/x-opml',
+  extension: 'opml',
+  serialize: map => [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    `  <head><title>${escapeXml(map.title)}</title></head>`,
+    '  <body>',
+    ...toOutline(map).map(item => serializeItem(item, 2)),
+    '  </body>',
+    '</opml>',
+    ''
+  ].join('\n'),
+  parse: text => {
+    const { opml: document } = parseXml(text, ['outline']);
+    if (!document?.body) throw new Error('Expected an <opml> document with a <body>');
+    const title = document.head?.title;
+    return fromOutline(
+      typeof title === 'string' ? title : '',
+      assignOutlineIds(asArray<any>(document.body.outline).map(readItem))
+    );
+  }
+};
@@ -0,0 +1,60 @@
+import { buildLayoutTree, pickRootId } from '../../layout/graph';
+import { PortableEdge, PortableMindMap } from './types';
+
+// Outline formats (OPML, FreeMind, Markdown) hold a tree: the map is exported as its spanning tree
+// from the root, and edges outside that tree are not kept
+
+export type OutlineItem = {
+  id: string;
+  label: string;
+  // Only set when the edge from the parent does not follow the e<source>-<target> convention
+  edgeId?: string;
+  children: OutlineItem[];
+};
+
+export const defaultEdgeId = (source: string, target: string) => `e${source}-${target}`;
+
+// Root item(s) of the map's tree; an empty map has none
+export const toOutline = ({ nodes, edges }: PortableMindMap): OutlineItem[] => {
+  const rootId = pickRootId(nodes, edges);
+  if (!rootId) return [];
+  const tree = buildLayoutTree(nodes, edges, rootId);
+  const labels = new Map(nodes.map(node => [node.id, node.data.label]));
+  const edgeBetween = (parent: string, child: string) => edges.find(edge =>
+    (edge.source === parent && edge.target === child) || (edge.source === child && edge.target === parent));
+
+  const visit = (id: string, parent?: string): OutlineItem => {
+    const edge = parent === undefined ? undefined : edgeBetween(parent, id);
+    return {
+      id,
+      label: labels.get(id) || '',
+      ...(parent !== undefined && edge && edge.id !== defaultEdgeId(parent, id) && { edgeId: edge.id }),
+      children: (tree.children.get(id) || []).map(child => visit(child, id))
+    };
+  };
+  return [visit(rootId)];
+};
+
+export const fromOutline = (title: string, roots: OutlineItem[]): PortableMindMap => {
+  const map: PortableMindMap = { title, nodes: [], edges: [] };
+  const visit = (item: OutlineItem, parent?: string) => {
+    map.nodes.push({ id: item.id, data: { label: item.label } });
+    if (parent !== undefined) {
+      const edge: PortableEdge = { id: item.edgeId || defaultEdgeId(parent, item.id), source: parent, target: item.id };
+      map.edges.push(edge);
+    }
+    item.children.forEach(child => visit(child, item.id));
+  };
+  roots.forEach(root => visit(root));
+  return map;
+};
+
+// As read from a document, where ids may be missing
+export type ParsedOutlineItem = Omit<OutlineItem, 'id' | 'children'> & { id?: string; children: ParsedOutlineItem[] };
+
+// Fills in missing ids as outline paths ("1", "1.2", ...)
+export const assignOutlineIds = (items: ParsedOutlineItem[], prefix = ''): OutlineItem[] =>
+  items.map((item, index) => {
+    const path = `${prefix}${index + 1}`;
+    return { ...item, id: item.id || path, children: assignOutlineIds(item.children, `${path}.`) };
+  });
@@ -0,0 +1,24 @@
+import { Point } from '../../layout/types';
+
+// A saved mind map as it travels through export/import
+export type PortableNode = {
+  id: string;
+  data: { label: string; [key: string]: unknown };
+  position?: Point;
+};
+
+export type PortableEdge = { id: string; source: string; target: string };
+
+export type PortableMindMap = {
+  title: string;
+  nodes: PortableNode[];
+  edges: PortableEdge[];
+};
+
+export type MindMapFormat = {
+  contentType: string;
+  extension: string;
+  serialize: (map: PortableMindMap) => string;
+  // Throws with a readable message when the text is not a valid document of this format
+  parse: (text: string) => PortableMindMap;
+};
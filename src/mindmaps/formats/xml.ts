@@ -0,0 +1,29 @@
+import { XMLParser } from 'fast-xml-parser';
+
+export const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+// Attributes keep their names (no prefix); `arrayTags` elements always parse as arrays, even with one element
+export const parseXml = (text: string, arrayTags: string[]): any => {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '',
+    parseAttributeValue: false,
+    parseTagValue: false,
+    trimValues: true,
+    processEntities: true,
+    isArray: (name, _path, _isLeaf, isAttribute) => !isAttribute && arrayTags.indexOf(name) !== -1
+  });
+  try {
+    return parser.parse(text, true);
+  } catch (error: any) {
+    throw new Error(`Not well-formed XML: ${error?.message || error}`);
+  }
+};
+
+// Child elements as an array, whatever the parser produced
+export const asArray = <T>(value: T | T[] | undefined): T[] => (value === undefined ? [] : Array.isArray(value) ? value : [value]);
@@ -0,0 +1,85 @@
+import { randomUUID } from 'crypto';
+import { MindMapRepository, MindMapRevision, StoredMindMap } from './repository';
+
+// Everything the in-memory repository holds, as written to and read from a storage file
+export type MindMapSnapshot = Record<string, { map: StoredMindMap; revisions: MindMapRevision[] }>;
+
+// Values are copied in and out, so callers cannot change stored maps by accident
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// Process-local maps for development and tests. `onChange` runs after every write (used by the file backend).
+export const createMemoryMindMapRepository = (
+  initial: MindMapSnapshot = {},
+  onChange: (snapshot: MindMapSnapshot) => void = () => undefined
+): MindMapRepository => {
+  const entries: MindMapSnapshot = copy(initial);
+  const changed = () => onChange(entries);
+
+  const create: MindMapRepository['create'] = async (ownerId, content) => {
+    const now = new Date().toISOString();
+    const map: StoredMindMap = { id: randomUUID(), ...copy(content), ownerId, version: 1, createdAt: now, updatedAt: now };
+    entries[map.id] = { map, revisions: [{ ...copy(content), version: 1, ownerId, createdAt: now }] };
+    changed();
+    return copy(map);
+  };
+
+  const get = async (id: string) => (entries[id] ? copy(entries[id].map) : null);
+
+  const list: MindMapRepository['list'] = async ({ ownerId, limit: pageSize, cursor, sort, order }) => {
+    const direction = order === 'asc' ? 1 : -1;
+    const sorted = Object.keys(entries)
+      .map(id => entries[id].map)
+      .filter(map => map.ownerId === ownerId)
+      .sort((a, b) => direction * (a[sort] < b[sort] ? -1 : a[sort] > b[sort] ? 1 : a.id < b.id ? -1 : 1));
+    const start = cursor ? sorted.findIndex(map => map.id === cursor) + 1 : 0;
+    const items = sorted.slice(start, start + pageSize);
+    return {
+      items: copy(items),
+      ...(sorted.length > start + pageSize && { nextCursor: items[items.length - 1].id })
+    };
+  };
+
+  const saveRevision: MindMapRepository['saveRevision'] = async (id, ownerId, content, restoredFrom) => {
+    const entry = entries[id];
+    if (!entry) throw new Error(`Mind map ${id} does not exist`);
+    const now = new Date().toISOString();
+    const version = entry.map.version + 1;
+    const next = copy({
+      title: content.title ?? entry.map.title,
+      nodes: content.nodes ?? entry.map.nodes,
+      edges: content.edges ?? entry.map.edges
+    });
+    entry.map = { ...entry.map, ...next, version, updatedAt: now };
+    entry.revisions.push({
+      ...copy(next),
+      version,
+      ownerId,
+      createdAt: now,
+      ...(restoredFrom !== undefined && { restoredFrom })
+    });
+    changed();
+    return copy(entry.map);
+  };
+
+  const setCollaborators: MindMapRepository['setCollaborators'] = async (id, uids) => {
+    const entry = entries[id];
+    if (!entry) throw new Error(`Mind map ${id} does not exist`);
+    entry.map = { ...entry.map, collaborators: uids.slice() };
+    changed();
+    return copy(entry.map);
+  };
+
+  const remove = async (id: string) => {
+    delete entries[id];
+    changed();
+  };
+
+  const listRevisions = async (id: string) => copy((entries[id]?.revisions || []).slice().reverse());
+
+  const getRevision = async (id: string, version: number) => {
+    const revision = entries[id]?.revisions.find(item => item.version === version);
+    return revision ? copy(revision) : null;
+  };
+
+  return { create, get, list, saveRevision, setCollaborators, remove, listRevisions, getRevision };
+};
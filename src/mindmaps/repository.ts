@@ -0,0 +1,59 @@
+// Storage for saved mind maps and their revisions, independent of the backend (see src/storage)
+
+export type MindMapContent = {
+  title: string;
+  nodes: any[];
+  edges: any[];
+};
+
+export type StoredMindMap = MindMapContent & {
+  id: string;
+  ownerId: string;
+  // Users the owner shared the map with for live editing; missing on maps that were never shared
+  collaborators?: string[];
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// An immutable copy of the map at one version
+export type MindMapRevision = MindMapContent & {
+  version: number;
+  ownerId: string;
+  createdAt: string;
+  restoredFrom?: number;
+};
+
+export type MindMapListOptions = {
+  ownerId: string;
+  limit: number;
+  // Id of the last map of the previous page; the caller checks it belongs to the owner
+  cursor?: string;
+  sort: 'createdAt' | 'updatedAt';
+  order: 'asc' | 'desc';
+};
+
+export type MindMapRepository = {
+  // Saves the map as version 1 together with its first revision
+  create: (ownerId: string, content: MindMapContent) => Promise<StoredMindMap>;
+  get: (id: string) => Promise<StoredMindMap | null>;
+  list: (options: MindMapListOptions) => Promise<{ items: StoredMindMap[]; nextCursor?: string }>;
+  // Writes the new state and a revision atomically; fields left out keep their current value
+  saveRevision: (
+    id: string,
+    ownerId: string,
+    content: Partial<MindMapContent>,
+    restoredFrom?: number
+  ) => Promise<StoredMindMap>;
+  // Replaces the list of collaborators; no revision is written
+  setCollaborators: (id: string, uids: string[]) => Promise<StoredMindMap>;
+  // Removes the map and all of its revisions
+  remove: (id: string) => Promise<void>;
+  // Newest first
+  listRevisions: (id: string) => Promise<MindMapRevision[]>;
+  getRevision: (id: string, version: number) => Promise<MindMapRevision | null>;
+};
+
+// The owner and the collaborators may open a map; only the owner manages it
+export const isMember = (map: StoredMindMap, uid: string) =>
+  map.ownerId === uid || (map.collaborators || []).indexOf(uid) !== -1;
@@ -0,0 +1,9 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Carries the request id through everything a request triggers, so log lines written deep inside
+// (the LLM client, storage) can be correlated without passing it around.
+const storage = new AsyncLocalStorage<{ requestId: string }>();
+
+export const currentRequestId = (): string | undefined => storage.getStore()?.requestId;
+
+export const runWithRequestId = <T>(requestId: string, run: () => T): T => storage.run({ requestId }, run);
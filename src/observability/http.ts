@@ -0,0 +1,51 @@
+import { Request, RequestHandler } from 'express';
+import { sendError, sendInternalError } from '../http/errors';
+import { logger } from './logger';
+import { httpRequestDuration, registry } from './metrics';
+
+// The matched route pattern (/api/mindmap/:id), so ids do not end up in metric labels. Requests
+// answered by middleware before a route matched (auth, rate limits) get the router's mount path.
+const routePattern = (req: Request) => {
+  if (!req.route) return req.baseUrl || 'unmatched';
+  return `${req.baseUrl}${req.route.path === '/' && req.baseUrl ? '' : req.route.path}`;
+};
+
+// Times every request and logs it once the response is sent; 499 when the client went away first
+export const observeRequests: RequestHandler = (req, res, next) => {
+  const start = Date.now();
+  res.once('close', () => {
+    const seconds = (Date.now() - start) / 1000;
+    const route = routePattern(req);
+    const status = res.writableFinished ? res.statusCode : 499;
+    httpRequestDuration.observe({ method: req.method, route, status: String(status) }, seconds);
+    const fields = {
+      // 'close' is emitted outside the request context
+      requestId: res.locals.requestId,
+      method: req.method,
+      route,
+      // Routers strip their mount path from req.path; the query string stays out of the log
+      path: req.originalUrl.split('?')[0],
+      status,
+      durationMs: Date.now() - start,
+      ...(req.user && { uid: req.user.uid })
+    };
+    if (status >= 500) logger.error('Request failed', fields);
+    else logger.info('Request completed', fields);
+  });
+  next();
+};
+
+// GET /metrics in the Prometheus text format; with a token set, scrapers send it as a bearer token
+export const createMetricsHandler = (token?: string): RequestHandler => async (req, res) => {
+  if (token && req.header('authorization') !== `Bearer ${token}`) {
+    sendError(res, 401, 'UNAUTHENTICATED', 'Missing or invalid metrics token');
+    return;
+  }
+  try {
+    const metrics = await registry.metrics();
+    res.setHeader('Content-Type', registry.contentType);
+    res.send(metrics);
+  } catch (error) {
+    sendInternalError(res, 'Failed to collect metrics', error);
+  }
+};
@@ -0,0 +1,13 @@
+export { currentRequestId, runWithRequestId } from './context';
+export { createMetricsHandler, observeRequests } from './http';
+export { configureLogger, createLogger, Logger, LogFields, logger, LogLevel, LOG_LEVELS, redact, REDACTED } from './logger';
+export {
+  aiParseFailures,
+  aiRequestDuration,
+  aiResponses,
+  aiRetries,
+  aiTokens,
+  httpRequestDuration,
+  recordAIResult,
+  registry
+} from './metrics';
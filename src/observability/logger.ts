@@ -0,0 +1,92 @@
+import { currentRequestId } from './context';
+
+// Structured logging: one JSON object per line on stdout, e.g.
+// {"time":"...","level":"warn","msg":"AI service failed, using fallback","requestId":"...","route":"careerDetails","error":{...}}
+// Profile fields and credentials are redacted wherever they appear in the logged fields.
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error', 'silent'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export type LogFields = Record<string, unknown>;
+
+export type Logger = {
+  debug: (message: string, fields?: LogFields) => void;
+  info: (message: string, fields?: LogFields) => void;
+  warn: (message: string, fields?: LogFields) => void;
+  error: (message: string, fields?: LogFields) => void;
+};
+
+export type LoggerOptions = {
+  level?: LogLevel;
+  // Receives each line without the newline; stdout by default
+  write?: (line: string) => void;
+};
+
+export const REDACTED = '[REDACTED]';
+
+// What a person tells us about themselves (src/schemas/requests.ts profileSchema and personality profiles,
+// the names the mind map prompt gives them, resume profiles), raw resumes and credentials. Keys are compared
+// case-insensitively.
+const SENSITIVE_KEYS = [
+  'aim', 'jobpath', 'hobby', 'mbti', 'personality', 'riasec', 'bigfive', 'answers', 'salary', 'targetsalary', 'rolemodel',
+  'interests', 'careergoal',
+  'resume', 'profile', 'currentrole', 'yearsofexperience', 'skills', 'education', 'certifications',
+  'email', 'phone', 'authorization', 'token', 'password', 'apikey', 'secret'
+];
+
+const MAX_DEPTH = 6;
+
+const serializeError = (error: Error) => ({
+  name: error.name,
+  message: error.message,
+  ...((error as any).status !== undefined && { status: (error as any).status }),
+  ...((error as any).code !== undefined && { code: (error as any).code }),
+  stack: error.stack
+});
+
+// Copy of value with sensitive fields replaced and errors turned into plain objects
+export const redact = (value: unknown, depth = 0): unknown => {
+  if (value instanceof Error) return serializeError(value);
+  if (!value || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[Truncated]';
+  if (Array.isArray(value)) return value.map(item => redact(item, depth + 1));
+  const result: Record<string, unknown> = {};
+  Object.keys(value).forEach(key => {
+    const field = (value as Record<string, unknown>)[key];
+    result[key] = SENSITIVE_KEYS.indexOf(key.toLowerCase()) !== -1 && field !== undefined && field !== null
+      ? REDACTED
+      : redact(field, depth + 1);
+  });
+  return result;
+};
+
+export const createLogger = ({ level = 'info', write = line => process.stdout.write(`${line}\n`) }: LoggerOptions = {}): Logger => {
+  const threshold = LOG_LEVELS.indexOf(level);
+  const log = (lineLevel: Exclude<LogLevel, 'silent'>) => (message: string, fields: LogFields = {}) => {
+    if (LOG_LEVELS.indexOf(lineLevel) < threshold) return;
+    const requestId = currentRequestId();
+    write(JSON.stringify({
+      time: new Date().toISOString(),
+      level: lineLevel,
+      msg: message,
+      ...(requestId && { requestId }),
+      ...(redact(fields) as LogFields)
+    }));
+  };
+  return { debug: log('debug'), info: log('info'), warn: log('warn'), error: log('error') };
+};
+
+// Until index.ts configures it from LOG_LEVEL; tests run quiet
+let active = createLogger({ level: process.env.NODE_ENV === 'test' ? 'silent' : 'info' });
+
+// The process-wide logger every module writes to
+export const logger: Logger = {
+  debug: (message, fields) => active.debug(message, fields),
+  info: (message, fields) => active.info(message, fields),
+  warn: (message, fields) => active.warn(message, fields),
+  error: (message, fields) => active.error(message, fields)
+};
+
+export const configureLogger = (options: LoggerOptions) => {
+  active = createLogger(options);
+};
@@ -0,0 +1,60 @@
+import { collectDefaultMetrics, Counter, Histogram, Registry } from 'prom-client';
+import { LLMRoute } from '../llm/types';
+import { DataSource } from '../llm/structured';
+
+// Prometheus metrics served on GET /metrics. Process-wide, like the logger: the LLM client and the
+// AI routes record into them directly.
+//
+// Fallback rate per AI route:      growgraph_ai_responses_total{data_source="fallback"} / growgraph_ai_responses_total
+// Parse-failure rate per AI route: growgraph_ai_parse_failures_total / growgraph_ai_request_duration_seconds_count
+
+export const registry = new Registry();
+collectDefaultMetrics({ register: registry });
+
+export const httpRequestDuration = new Histogram({
+  name: 'growgraph_http_request_duration_seconds',
+  help: 'HTTP request latency by route pattern and status',
+  labelNames: ['method', 'route', 'status'] as const,
+  buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+  registers: [registry]
+});
+
+export const aiRequestDuration = new Histogram({
+  name: 'growgraph_ai_request_duration_seconds',
+  help: 'Latency of each upstream AI call (one per attempt; streams until they open)',
+  labelNames: ['route', 'provider', 'outcome'] as const,
+  buckets: [0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60],
+  registers: [registry]
+});
+
+export const aiRetries = new Counter({
+  name: 'growgraph_ai_retries_total',
+  help: 'Upstream AI calls retried after a 429 or 503',
+  labelNames: ['route'] as const,
+  registers: [registry]
+});
+
+export const aiTokens = new Counter({
+  name: 'growgraph_ai_tokens_total',
+  help: 'Tokens used by AI calls',
+  labelNames: ['route', 'type'] as const,
+  registers: [registry]
+});
+
+export const aiResponses = new Counter({
+  name: 'growgraph_ai_responses_total',
+  help: 'AI route results by where their data came from',
+  labelNames: ['route', 'data_source'] as const,
+  registers: [registry]
+});
+
+export const aiParseFailures = new Counter({
+  name: 'growgraph_ai_parse_failures_total',
+  help: 'AI responses that failed JSON parsing or schema validation',
+  labelNames: ['route'] as const,
+  registers: [registry]
+});
+
+export const recordAIResult = (route: LLMRoute, dataSource: DataSource) => {
+  aiResponses.inc({ route, data_source: dataSource });
+};
@@ -0,0 +1,131 @@
+import request from 'supertest';
+import { buildMindMapMessages } from '../careers/mindmap';
+import { readUserData } from '../prompts/messages';
+import { profileSchema } from '../schemas/requests';
+import { bearer, createTestApp } from '../testing/stubs';
+import { configureLogger, createLogger, REDACTED, registry, runWithRequestId } from '.';
+
+const capture = () => {
+  const lines: any[] = [];
+  return { lines, write: (line: string) => lines.push(JSON.parse(line)) };
+};
+
+// Value of one sample in the Prometheus text format, 0 when it has not been recorded yet
+const sample = (text: string, name: string, labels: Record<string, string>) => {
+  const line = text.split('\n').find(candidate => candidate.startsWith(`${name}{`) &&
+    Object.keys(labels).every(key => candidate.indexOf(`${key}="${labels[key]}"`) !== -1));
+  return line ? Number(line.split(' ').pop()) : 0;
+};
+
+describe('createLogger', () => {
+  it('writes JSON lines at or above its level, with the request id of the current request', () => {
+    const { lines, write } = capture();
+    const logger = createLogger({ level: 'info', write });
+    logger.debug('hidden');
+    runWithRequestId('req-1', () => logger.warn('Something happened', { route: 'suggestions' }));
+    expect(lines).toEqual([
+      { time: expect.any(String), level: 'warn', msg: 'Something happened', requestId: 'req-1', route: 'suggestions' }
+    ]);
+  });
+
+  it('redacts profile fields and credentials at any depth and serializes errors', () => {
+    const { lines, write } = capture();
+    createLogger({ write }).error('Failed', {
+      request: { aim: 'Data Scientist', hobby: 'chess', locale: 'en', layout: 'radial' },
+      data: { profile: { skills: ['Java'] }, resume: 'Jane Doe, jane@example.com' },
+      headers: { Authorization: 'Bearer abc' },
+      error: Object.assign(new Error('Upstream error 503'), { status: 503 })
+    });
+    const [line] = lines;
+    expect(line.request).toEqual({ aim: REDACTED, hobby: REDACTED, locale: 'en', layout: 'radial' });
+    expect(line.data).toEqual({ profile: REDACTED, resume: REDACTED });
+    expect(line.headers.Authorization).toBe(REDACTED);
+    expect(line.error).toMatchObject({ name: 'Error', message: 'Upstream error 503', status: 503 });
+    expect(JSON.stringify(line)).not.toMatch(/Java|jane|chess/);
+  });
+
+  it('redacts every profile field, personality scale and mind map prompt field', () => {
+    const { lines, write } = capture();
+    const profile = profileSchema.parse({
+      aim: 'Data Scientist', jobPath: 'Analyst to data scientist', hobby: 'chess', mbti: 'INTJ', salary: '80k', roleModel: 'Ada',
+      personality: { riasec: 'IAS', bigFive: { openness: 80, conscientiousness: 60, extraversion: 30, agreeableness: 50, neuroticism: 40 } }
+    });
+    const resume = { currentRole: 'Analyst', yearsOfExperience: 3, skills: ['SQL'], education: [], certifications: [] };
+    const prompt = readUserData(buildMindMapMessages({ ...profile, resume })[2].content);
+    const keys = [...Object.keys(profileSchema.shape), ...Object.keys(profile.personality || {}), ...Object.keys(prompt)];
+    const fields = keys.reduce<Record<string, string>>((all, key) => ({ ...all, [key]: `secret ${key}` }), {});
+    createLogger({ level: 'debug', write }).debug('Generating mind map', { request: fields });
+    expect(lines[0].request).toEqual(keys.reduce((all, key) => ({ ...all, [key]: REDACTED }), {}));
+    expect(JSON.stringify(lines[0])).not.toMatch(/secret/);
+  });
+});
+
+describe('request logging', () => {
+  afterEach(() => configureLogger({ level: 'silent' }));
+
+  it('logs each request with its route pattern, and tags log lines written while serving it', async () => {
+    const { lines, write } = capture();
+    configureLogger({ level: 'info', write });
+    const { app, stub } = createTestApp();
+    stub.reply('careerDetails', { status: 500 });
+    await request(app).post('/api/career-details').set(bearer()).set('X-Request-Id', 'abc-123')
+      .send({ careerTitle: 'Backend Developer', locale: 'en' });
+
+    expect(lines.find(line => line.msg === 'AI service failed, using fallback')).toMatchObject({
+      level: 'error',
+      requestId: 'abc-123',
+      route: 'careerDetails'
+    });
+    expect(lines.find(line => line.msg === 'Request completed')).toMatchObject({
+      requestId: 'abc-123',
+      method: 'POST',
+      route: '/api/career-details',
+      status: 200,
+      durationMs: expect.any(Number),
+      uid: 'user-1'
+    });
+  });
+});
+
+describe('GET /metrics', () => {
+  it('counts route latency, AI calls, retries, tokens, fallbacks and parse failures', async () => {
+    const { app, stub } = createTestApp();
+    const scrape = async () => (await request(app).get('/metrics')).text;
+    const before = await scrape();
+
+    stub.reply('careerDetails', { status: 503 }, { status: 500 });
+    await request(app).post('/api/career-details').set(bearer()).send({ careerTitle: 'Backend Developer', locale: 'en' });
+    stub.reply('suggestions', 'not json at all');
+    await request(app).post('/api/suggestions').set(bearer()).send({ nodeContent: 'Backend Developer', locale: 'en' });
+    const { body: map } = await request(app).post('/api/mindmap').set(bearer()).send({ nodes: [], edges: [] });
+    await request(app).get(`/api/mindmap/${map.id}`).set(bearer());
+
+    const after = await scrape();
+    const delta = (name: string, labels: Record<string, string>) => sample(after, name, labels) - sample(before, name, labels);
+    expect(delta('growgraph_ai_retries_total', { route: 'careerDetails' })).toBe(1);
+    expect(delta('growgraph_ai_request_duration_seconds_count', { route: 'careerDetails', outcome: 'error' })).toBe(2);
+    expect(delta('growgraph_ai_responses_total', { route: 'careerDetails', data_source: 'fallback' })).toBe(1);
+    expect(delta('growgraph_ai_parse_failures_total', { route: 'suggestions' })).toBe(1);
+    expect(delta('growgraph_ai_responses_total', { route: 'suggestions', data_source: 'ai-repaired' })).toBe(1);
+    expect(delta('growgraph_ai_tokens_total', { route: 'suggestions', type: 'completion' })).toBeGreaterThan(0);
+    expect(delta('growgraph_http_request_duration_seconds_count', { route: '/api/career-details', status: '200' })).toBe(1);
+    expect(delta('growgraph_http_request_duration_seconds_count', { route: '/api/mindmap/:id', status: '200' })).toBe(1);
+    expect(after).not.toContain(map.id);
+  });
+
+  it('requires the metrics token when one is set', async () => {
+    const { app } = createTestApp({ metricsToken: 'scrape-secret' });
+    expect((await request(app).get('/metrics')).status).toBe(401);
+    const response = await request(app).get('/metrics').set('Authorization', 'Bearer scrape-secret');
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toMatch(/^text\/plain/);
+  });
+
+  it('answers with the error envelope when a collector fails', async () => {
+    const { app } = createTestApp();
+    jest.spyOn(registry, 'metrics').mockRejectedValueOnce(new Error('collector failed'));
+    const response = await request(app).get('/metrics');
+    expect(response.status).toBe(500);
+    expect(response.body).toMatchObject({ code: 'INTERNAL_ERROR', details: { cause: 'collector failed' } });
+  });
+});
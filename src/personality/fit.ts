@@ -0,0 +1,153 @@
+import { findRole, roleById } from '../careers/taxonomy';
+import { CareerRole } from '../careers/taxonomy/schema';
+import { normalizeTitle } from '../expansion/normalize';
+import { getLocale, Locale } from '../locales';
+import { BIG_FIVE_TRAITS, MBTI_AXES, PersonalityModel, PersonalityProfile, RIASEC_TYPES, RiasecType } from './model';
+
+// How well a role suits a personality profile. Every model is projected onto the six RIASEC interest
+// types; the role's Holland code says which of them the role draws on.
+
+export type RoleFit = {
+  // 0-100; 50 is what a profile without any leaning gets
+  score: number;
+  hollandCode: string;
+  // Where the code came from: the taxonomy role the title matched, or keywords in the title
+  basis: 'taxonomy' | 'keywords';
+  // The role's interest types the profile leans towards, and the models that show it
+  reasons: { interest: RiasecType; score: number; models: PersonalityModel[] }[];
+  // One sentence for the client to show next to the role
+  summary: string;
+};
+
+type Weights = Partial<Record<RiasecType, number>>;
+
+// Interest types each MBTI preference goes with
+const MBTI_INTERESTS: Record<string, Weights> = {
+  E: { E: 1, S: 0.7 },
+  I: { I: 0.7, R: 0.5 },
+  S: { C: 0.8, R: 0.7 },
+  N: { A: 1, I: 0.7 },
+  T: { I: 0.6, R: 0.5, E: 0.4 },
+  F: { S: 1, A: 0.5 },
+  J: { C: 1, E: 0.4 },
+  P: { A: 0.6 }
+};
+
+// Interest types each Big Five trait goes with (negative: goes against)
+const BIG_FIVE_INTERESTS: Record<string, Weights> = {
+  openness: { A: 1, I: 0.7 },
+  conscientiousness: { C: 1 },
+  extraversion: { E: 1, S: 0.8 },
+  agreeableness: { S: 1 },
+  neuroticism: { E: -0.3 }
+};
+
+// RIASEC answers are interests already, so they count double
+const MODEL_WEIGHTS: Record<PersonalityModel, number> = { riasec: 2, mbti: 1, bigFive: 1 };
+
+// Weight of the first, second and third letter of a role's code
+const CODE_WEIGHTS = [1, 0.6, 0.3];
+
+// A model counts as a reason for an interest from this affinity up
+const REASON_THRESHOLD = 60;
+
+// Below this score the summary says the role is less typical for the person
+const GOOD_FIT = 55;
+
+type Affinity = Record<RiasecType, number>;
+
+const clamp = (value: number) => Math.max(0, Math.min(100, value));
+
+// Neutral is 50; each unit of `shift` moves a type by 25, so only several agreeing preferences or traits reach the extremes
+const affinityFrom = (shift: (type: RiasecType) => number): Affinity =>
+  RIASEC_TYPES.reduce((affinity, type) => {
+    affinity[type] = clamp(50 + 25 * shift(type));
+    return affinity;
+  }, {} as Affinity);
+
+const modelAffinities = ({ mbti, riasec, bigFive }: PersonalityProfile): Partial<Record<PersonalityModel, Affinity>> => ({
+  ...(riasec && { riasec: { ...riasec } }),
+  ...(mbti && {
+    mbti: affinityFrom(type => MBTI_AXES.reduce((sum, axis, index) =>
+      sum + (MBTI_INTERESTS[mbti.type[index]][type] || 0) * (mbti.strengths[axis] / 100), 0))
+  }),
+  ...(bigFive && {
+    bigFive: affinityFrom(type => BIG_FIVE_TRAITS.reduce((sum, trait) =>
+      sum + (BIG_FIVE_INTERESTS[trait][type] || 0) * ((bigFive[trait] - 50) / 50), 0))
+  })
+});
+
+// Common words in titles the taxonomy does not know, English and Korean
+const KEYWORD_CODES: [RegExp, string][] = [
+  [/research|scientist|연구|과학자/, 'IA'],
+  [/teacher|tutor|instructor|nurse|counsel|therapist|coach|social worker|교사|강사|간호|상담|치료사|코치|사회복지/, 'SA'],
+  [/design|artist|writer|editor|musician|illustrat|photograph|animat|creator|디자이너|작가|편집|음악|일러스트|사진|애니메이|크리에이터/, 'AE'],
+  [/sales|marketing|founder|entrepreneur|consultant|manager|director|영업|마케팅|창업|컨설턴트|매니저|관리자|디렉터/, 'ES'],
+  [/account|audit|clerk|administrat|bookkeep|compliance|회계|감사|사무|행정|경리|준법/, 'CE'],
+  [/engineer|developer|programmer|technician|mechanic|architect|엔지니어|개발자|프로그래머|기술자|정비/, 'IRC'],
+  [/analyst|분석가/, 'IC'],
+  [/chef|cook|carpenter|electrician|pilot|driver|farmer|요리사|목수|전기|조종사|운전|농부/, 'RC']
+];
+
+// The role's own code, or the nearest ancestor's
+const inheritedCode = (role: CareerRole): string | null => {
+  for (let current: CareerRole | undefined = role; current; current = current.parent ? roleById(current.parent) : undefined) {
+    if (current.hollandCode) return current.hollandCode;
+  }
+  return null;
+};
+
+// Holland code of a job title, or null when neither the taxonomy nor the keywords recognize it
+export const roleHollandCode = (title: string): { code: string; basis: RoleFit['basis'] } | null => {
+  const match = findRole(title);
+  const code = match && inheritedCode(match.role);
+  if (code) return { code, basis: 'taxonomy' };
+  const text = normalizeTitle(title);
+  const keyword = KEYWORD_CODES.find(([pattern]) => pattern.test(text));
+  return keyword ? { code: keyword[1], basis: 'keywords' } : null;
+};
+
+// Fit of one job title, or null for titles whose interests are unknown
+export const roleFit = (title: string, profile: PersonalityProfile, locale: Locale): RoleFit | null => {
+  const holland = roleHollandCode(title);
+  const affinities = modelAffinities(profile);
+  const models = Object.keys(affinities) as PersonalityModel[];
+  if (!holland || !models.length) return null;
+
+  const totalWeight = models.reduce((sum, model) => sum + MODEL_WEIGHTS[model], 0);
+  const combined = (type: RiasecType) =>
+    models.reduce((sum, model) => sum + (affinities[model] as Affinity)[type] * MODEL_WEIGHTS[model], 0) / totalWeight;
+
+  const letters = holland.code.split('') as RiasecType[];
+  const codeWeight = letters.reduce((sum, _letter, index) => sum + CODE_WEIGHTS[index], 0);
+  const score = Math.round(letters.reduce((sum, type, index) => sum + combined(type) * CODE_WEIGHTS[index], 0) / codeWeight);
+
+  const reasons = letters
+    .map(interest => ({
+      interest,
+      score: Math.round(combined(interest)),
+      models: models.filter(model => (affinities[model] as Affinity)[interest] >= REASON_THRESHOLD)
+    }))
+    .filter(reason => reason.score >= REASON_THRESHOLD && reason.models.length);
+
+  const { personality } = getLocale(locale);
+  const summary = score >= GOOD_FIT && reasons.length
+    ? personality.fitReason(reasons.map(reason => personality.interests[reason.interest]))
+    : personality.weakFit(letters.map(letter => personality.interests[letter]));
+  return { score, hollandCode: holland.code, basis: holland.basis, reasons, summary };
+};
+
+// Adds `fit` to the data of every node except the root
+export const withRoleFit = <N extends { id: string; data: { label: string; title?: string } }>(
+  nodes: N[],
+  rootId: string,
+  profile: PersonalityProfile | undefined,
+  locale: Locale
+): N[] => {
+  if (!profile) return nodes;
+  return nodes.map(node => {
+    if (node.id === rootId) return node;
+    const fit = roleFit(node.data.title || node.data.label, profile, locale);
+    return fit ? { ...node, data: { ...node.data, fit } } : node;
+  });
+};
@@ -0,0 +1,22 @@
+export { RoleFit, roleFit, roleHollandCode, withRoleFit } from './fit';
+export {
+  BIG_FIVE_TRAITS,
+  BigFiveTrait,
+  DEFAULT_MBTI_STRENGTH,
+  describePersonality,
+  hollandCodeOf,
+  MBTI_AXES,
+  MBTI_TYPES,
+  MbtiAxis,
+  mbtiProfile,
+  MbtiType,
+  PersonalityModel,
+  PersonalityProfile,
+  RIASEC_TYPES,
+  riasecFromCode,
+  RiasecType
+} from './model';
+export { ANSWER_MAX, ANSWER_MIN, Answers, QUESTION_IDS, QuestionId, questionnaire, QUESTIONS, scoreAnswers } from './questionnaire';
+
+// Personality and interest profiles (MBTI with per-axis strengths, RIASEC scores, Big Five), the built-in
+// questionnaire that produces them, and how well a role fits one.
@@ -0,0 +1,78 @@
+// A person's personality and interests in up to three models. Every score is 0-100.
+
+export const MBTI_TYPES = [
+  'INTJ', 'INTP', 'ENTJ', 'ENTP',
+  'INFJ', 'INFP', 'ENFJ', 'ENFP',
+  'ISTJ', 'ISFJ', 'ESTJ', 'ESFJ',
+  'ISTP', 'ISFP', 'ESTP', 'ESFP'
+] as const;
+export type MbtiType = typeof MBTI_TYPES[number];
+
+// Holland's six interest types: Realistic, Investigative, Artistic, Social, Enterprising, Conventional
+export const RIASEC_TYPES = ['R', 'I', 'A', 'S', 'E', 'C'] as const;
+export type RiasecType = typeof RIASEC_TYPES[number];
+
+export const BIG_FIVE_TRAITS = ['openness', 'conscientiousness', 'extraversion', 'agreeableness', 'neuroticism'] as const;
+export type BigFiveTrait = typeof BIG_FIVE_TRAITS[number];
+
+// Each axis is named after its two poles, in the order they appear in type codes
+export const MBTI_AXES = ['EI', 'SN', 'TF', 'JP'] as const;
+export type MbtiAxis = typeof MBTI_AXES[number];
+
+export type PersonalityProfile = {
+  // strengths: how clear each preference in `type` is, from 0 (borderline) to 100 (clear)
+  mbti?: { type: MbtiType; strengths: Record<MbtiAxis, number> };
+  riasec?: Record<RiasecType, number>;
+  bigFive?: Record<BigFiveTrait, number>;
+};
+
+export type PersonalityModel = keyof PersonalityProfile;
+
+// Strength assumed for every axis when only the four-letter type is known
+export const DEFAULT_MBTI_STRENGTH = 50;
+
+export const mbtiProfile = (type: MbtiType, strengths: Partial<Record<MbtiAxis, number>> = {}): PersonalityProfile['mbti'] => ({
+  type,
+  strengths: {
+    EI: strengths.EI ?? DEFAULT_MBTI_STRENGTH,
+    SN: strengths.SN ?? DEFAULT_MBTI_STRENGTH,
+    TF: strengths.TF ?? DEFAULT_MBTI_STRENGTH,
+    JP: strengths.JP ?? DEFAULT_MBTI_STRENGTH
+  }
+});
+
+// Scores for a bare Holland code such as "IAS": its letters rank above the rest
+const CODE_SCORES = [90, 75, 60];
+const UNLISTED_SCORE = 30;
+export const riasecFromCode = (code: string): Record<RiasecType, number> => {
+  const letters = code.toUpperCase().split('');
+  return RIASEC_TYPES.reduce((scores, type) => {
+    const rank = letters.indexOf(type);
+    scores[type] = rank === -1 ? UNLISTED_SCORE : CODE_SCORES[rank];
+    return scores;
+  }, {} as Record<RiasecType, number>);
+};
+
+// The three highest interest types, e.g. "IAS"; ties keep the RIASEC order
+export const hollandCodeOf = (scores: Record<RiasecType, number>): string =>
+  RIASEC_TYPES.slice()
+    .sort((a, b) => scores[b] - scores[a] || RIASEC_TYPES.indexOf(a) - RIASEC_TYPES.indexOf(b))
+    .slice(0, 3)
+    .join('');
+
+const strengthWord = (strength: number) => (strength < 25 ? 'slight' : strength < 60 ? 'moderate' : 'clear');
+
+// Compact English description for prompts, e.g. { mbtiPreferences: "I clear, N moderate, T slight, J clear", hollandCode: "IAS", ... }.
+// The MBTI type itself is left to the caller.
+export const describePersonality = ({ mbti, riasec, bigFive }: PersonalityProfile) => {
+  const traits = bigFive
+    ? BIG_FIVE_TRAITS
+      .filter(trait => bigFive[trait] >= 65 || bigFive[trait] <= 35)
+      .map(trait => `${bigFive[trait] >= 65 ? 'high' : 'low'} ${trait}`)
+    : [];
+  return {
+    mbtiPreferences: mbti && MBTI_AXES.map((axis, index) => `${mbti.type[index]} ${strengthWord(mbti.strengths[axis])}`).join(', '),
+    hollandCode: riasec && hollandCodeOf(riasec),
+    bigFive: bigFive && (traits.length ? traits.join(', ') : 'all traits average')
+  };
+};
@@ -0,0 +1,152 @@
+import request from 'supertest';
+import { bearer, createTestApp } from '../testing/stubs';
+import { Answers, describePersonality, mbtiProfile, QUESTION_IDS, roleFit, scoreAnswers } from '.';
+
+const neutral = (): Answers => QUESTION_IDS.reduce((answers, id) => ({ ...answers, [id]: 3 }), {} as Answers);
+
+// An introverted, analytical, curious person who dislikes selling and caring roles
+const ANALYST: Answers = {
+  ...neutral(),
+  i1: 5, i2: 5, r1: 4, a1: 2, s1: 1, e1: 2,
+  op1: 5, op2: 1,
+  ei1: 1, ei2: 5, sn1: 2, sn2: 5, tf1: 5, tf2: 2, jp1: 4
+};
+
+describe('scoreAnswers', () => {
+  it('scores every model from the answers, reversing negatively keyed statements', () => {
+    expect(scoreAnswers(ANALYST)).toEqual({
+      riasec: { R: 63, I: 100, A: 38, S: 25, E: 38, C: 50 },
+      bigFive: { openness: 100, conscientiousness: 50, extraversion: 50, agreeableness: 50, neuroticism: 50 },
+      mbti: { type: 'INTJ', strengths: { EI: 100, SN: 75, TF: 75, JP: 25 } }
+    });
+  });
+
+  it('leaves out models with unanswered parts', () => {
+    expect(scoreAnswers({ r1: 5, i1: 4, a1: 3, s1: 2, e1: 1, c1: 5, ei1: 5 })).toEqual({
+      riasec: { R: 100, I: 75, A: 50, S: 25, E: 0, C: 100 }
+    });
+  });
+});
+
+describe('roleFit', () => {
+  const profile = scoreAnswers(ANALYST);
+
+  it('ranks roles by how well their Holland code matches the profile, and explains the match', () => {
+    const backend = roleFit('Backend Developer (경력 2-3년)', profile, 'en');
+    const sales = roleFit('Sales Manager', profile, 'en');
+    expect(backend).toMatchObject({
+      hollandCode: 'IRC',
+      basis: 'taxonomy',
+      reasons: [{ interest: 'I', models: ['riasec', 'mbti', 'bigFive'] }, { interest: 'R' }],
+      summary: 'Suggested for your investigative and hands-on interests'
+    });
+    expect(sales).toMatchObject({ hollandCode: 'ESC', reasons: [], summary: expect.stringMatching(/^Less typical/) });
+    expect((backend as any).score).toBeGreaterThan((sales as any).score);
+  });
+
+  it('falls back to title keywords and gives up on titles it cannot place', () => {
+    expect(roleFit('Pastry Chef', profile, 'ko')).toMatchObject({ hollandCode: 'RC', basis: 'keywords' });
+    expect(roleFit('Astronaut', profile, 'en')).toBeNull();
+  });
+
+  it('scores a profile without any leaning as neutral', () => {
+    expect(roleFit('Data Scientist', scoreAnswers(neutral()), 'en')).toMatchObject({ score: 50, reasons: [] });
+  });
+});
+
+describe('describePersonality', () => {
+  it('summarizes the profile for prompts', () => {
+    expect(describePersonality(scoreAnswers(ANALYST))).toEqual({
+      mbtiPreferences: 'I clear, N clear, T clear, J moderate',
+      hollandCode: 'IRC',
+      bigFive: 'high openness'
+    });
+  });
+});
+
+describe('/api/personality', () => {
+  it('serves the questionnaire in the requested locale', async () => {
+    const { app } = createTestApp();
+    const response = await request(app).get('/api/personality/questionnaire?locale=en').set(bearer());
+    expect(response.status).toBe(200);
+    expect(response.body.scale).toEqual({ min: 1, max: 5, labels: expect.arrayContaining(['Strongly agree']) });
+    expect(response.body.questions).toHaveLength(QUESTION_IDS.length);
+    expect(response.body.questions[0]).toEqual({ id: 'r1', model: 'riasec', text: expect.any(String) });
+  });
+
+  it('scores answers into a profile', async () => {
+    const { app } = createTestApp();
+    const response = await request(app).post('/api/personality/score').set(bearer()).send({ answers: ANALYST });
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({
+      personality: { mbti: { type: 'INTJ' }, riasec: { I: 100 } },
+      hollandCode: 'IRC',
+      answered: QUESTION_IDS.length,
+      total: QUESTION_IDS.length
+    });
+  });
+
+  it('rejects unknown questions, out-of-range answers and answers that complete no model', async () => {
+    const { app } = createTestApp();
+    const send = (answers: unknown) => request(app).post('/api/personality/score').set(bearer()).send({ answers });
+    expect((await send({ ...ANALYST, x9: 3 })).body.code).toBe('VALIDATION_FAILED');
+    expect((await send({ ...ANALYST, r1: 6 })).body.details).toEqual([expect.objectContaining({ path: 'answers.r1' })]);
+    const incomplete = await send({ r1: 5, ei1: 2 });
+    expect(incomplete.status).toBe(400);
+    expect(incomplete.body.details[0].path).toBe('answers');
+  });
+});
+
+describe('role fit in generated mind maps', () => {
+  const generate = (app: ReturnType<typeof createTestApp>['app'], body: Record<string, unknown>) =>
+    request(app).post('/api/generate-mindmap').set(bearer()).send({ aim: 'Backend developer', locale: 'en', ...body });
+
+  it('scores every job node against the personality profile and puts the profile in the prompt', async () => {
+    const { app, stub } = createTestApp();
+    const response = await generate(app, { personality: scoreAnswers(ANALYST) });
+    expect(response.status).toBe(200);
+    const [root, ...jobs] = response.body.nodes;
+    expect(root.data.fit).toBeUndefined();
+    expect(jobs.some((node: any) => node.data.fit)).toBe(true);
+    jobs.filter((node: any) => node.data.fit).forEach((node: any) => expect(node.data.fit).toEqual({
+      score: expect.any(Number),
+      hollandCode: expect.stringMatching(/^[RIASEC]{1,3}$/),
+      basis: expect.stringMatching(/^(taxonomy|keywords)$/),
+      reasons: expect.any(Array),
+      summary: expect.any(String)
+    }));
+    const prompt = stub.requests[0].messages.map(message => message.content).join('\n');
+    expect(prompt).toContain('"mbti": "INTJ"');
+    expect(prompt).toContain('"mbtiPreferences": "I clear, N clear, T clear, J moderate"');
+    expect(prompt).toContain('"hollandCode": "IRC"');
+  });
+
+  it('accepts a bare MBTI type or Holland code, also for the fallback map', async () => {
+    const { app, stub } = createTestApp();
+    stub.reply('mindmap', { status: 500 });
+    const response = await generate(app, { mbti: 'enfj', personality: { riasec: 'SEA' } });
+    expect(response.body.dataSource).toBe('fallback');
+    expect(response.body.nodes.slice(1).some((node: any) => node.data.fit)).toBe(true);
+  });
+
+  it('leaves nodes unscored without a profile', async () => {
+    const { app } = createTestApp();
+    const response = await generate(app, {});
+    response.body.nodes.forEach((node: any) => expect(node.data.fit).toBeUndefined());
+  });
+
+  it('rejects malformed profiles', async () => {
+    const { app } = createTestApp();
+    const response = await generate(app, { personality: { riasec: 'IIX', bigFive: { openness: 120 } } });
+    expect(response.status).toBe(400);
+    expect(response.body.details.map((detail: any) => detail.path)).toEqual(
+      expect.arrayContaining(['personality.riasec', 'personality.bigFive.openness'])
+    );
+  });
+});
+
+describe('mbtiProfile', () => {
+  it('assumes moderate preferences for axes without a strength', () => {
+    expect(mbtiProfile('ISTP', { EI: 80 })).toEqual({ type: 'ISTP', strengths: { EI: 80, SN: 50, TF: 50, JP: 50 } });
+  });
+});
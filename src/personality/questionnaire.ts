@@ -0,0 +1,134 @@
+import { getLocale, Locale } from '../locales';
+import {
+  BIG_FIVE_TRAITS,
+  BigFiveTrait,
+  MBTI_AXES,
+  MbtiAxis,
+  mbtiProfile,
+  MbtiType,
+  PersonalityProfile,
+  RIASEC_TYPES,
+  RiasecType
+} from './model';
+
+// A short built-in questionnaire: two agree/disagree statements per RIASEC type, Big Five trait and
+// MBTI axis. Statement texts live in the locales (personality.questions).
+
+type Measure =
+  | { model: 'riasec'; type: RiasecType }
+  // reversed: agreeing means a lower score
+  | { model: 'bigFive'; trait: BigFiveTrait; reversed?: boolean }
+  // pole: the preference agreeing points to
+  | { model: 'mbti'; axis: MbtiAxis; pole: string };
+
+const riasec = (type: RiasecType): Measure => ({ model: 'riasec', type });
+const bigFive = (trait: BigFiveTrait, reversed = false): Measure => ({ model: 'bigFive', trait, reversed });
+const mbti = (axis: MbtiAxis, pole: string): Measure => ({ model: 'mbti', axis, pole });
+
+export const QUESTIONS = [
+  { id: 'r1', measures: riasec('R') },
+  { id: 'r2', measures: riasec('R') },
+  { id: 'i1', measures: riasec('I') },
+  { id: 'i2', measures: riasec('I') },
+  { id: 'a1', measures: riasec('A') },
+  { id: 'a2', measures: riasec('A') },
+  { id: 's1', measures: riasec('S') },
+  { id: 's2', measures: riasec('S') },
+  { id: 'e1', measures: riasec('E') },
+  { id: 'e2', measures: riasec('E') },
+  { id: 'c1', measures: riasec('C') },
+  { id: 'c2', measures: riasec('C') },
+  { id: 'op1', measures: bigFive('openness') },
+  { id: 'op2', measures: bigFive('openness', true) },
+  { id: 'co1', measures: bigFive('conscientiousness') },
+  { id: 'co2', measures: bigFive('conscientiousness', true) },
+  { id: 'ex1', measures: bigFive('extraversion') },
+  { id: 'ex2', measures: bigFive('extraversion', true) },
+  { id: 'ag1', measures: bigFive('agreeableness') },
+  { id: 'ag2', measures: bigFive('agreeableness', true) },
+  { id: 'ne1', measures: bigFive('neuroticism') },
+  { id: 'ne2', measures: bigFive('neuroticism', true) },
+  { id: 'ei1', measures: mbti('EI', 'E') },
+  { id: 'ei2', measures: mbti('EI', 'I') },
+  { id: 'sn1', measures: mbti('SN', 'S') },
+  { id: 'sn2', measures: mbti('SN', 'N') },
+  { id: 'tf1', measures: mbti('TF', 'T') },
+  { id: 'tf2', measures: mbti('TF', 'F') },
+  { id: 'jp1', measures: mbti('JP', 'J') },
+  { id: 'jp2', measures: mbti('JP', 'P') }
+] as const;
+
+export type QuestionId = typeof QUESTIONS[number]['id'];
+export const QUESTION_IDS = QUESTIONS.map(question => question.id) as QuestionId[];
+
+// Answers are on a five-point scale from 1 (strongly disagree) to 5 (strongly agree)
+export const ANSWER_MIN = 1;
+export const ANSWER_MAX = 5;
+
+export type Answers = Partial<Record<QuestionId, number>>;
+
+// The questionnaire as sent to clients
+export const questionnaire = (locale: Locale) => {
+  const { personality } = getLocale(locale);
+  return {
+    scale: { min: ANSWER_MIN, max: ANSWER_MAX, labels: personality.scale },
+    questions: QUESTIONS.map(({ id, measures }) => ({ id, model: measures.model, text: personality.questions[id] }))
+  };
+};
+
+// 0 (strongly disagree) to 1 (strongly agree)
+const agreement = (answer: number) => (answer - ANSWER_MIN) / (ANSWER_MAX - ANSWER_MIN);
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Agreement per key, for the answered questions `keyOf` selects; reversed questions count disagreement
+const collect = (answers: Answers, keyOf: (measures: Measure) => { key: string; reversed: boolean } | null) => {
+  const values: Record<string, number[]> = {};
+  QUESTIONS.forEach(({ id, measures }) => {
+    const answer = answers[id];
+    const entry = keyOf(measures);
+    if (answer === undefined || !entry) return;
+    (values[entry.key] = values[entry.key] || []).push(entry.reversed ? 1 - agreement(answer) : agreement(answer));
+  });
+  return values;
+};
+
+// A model is scored only when every one of its types, traits or axes has at least one answer
+const complete = <K extends string>(keys: readonly K[], values: Record<string, number[]>) =>
+  keys.every(key => values[key] && values[key].length);
+
+// The profile the answers add up to; models with unanswered parts are left out
+export const scoreAnswers = (answers: Answers): PersonalityProfile => {
+  const profile: PersonalityProfile = {};
+
+  const interests = collect(answers, measures => (measures.model === 'riasec' ? { key: measures.type, reversed: false } : null));
+  if (complete(RIASEC_TYPES, interests)) {
+    profile.riasec = RIASEC_TYPES.reduce((scores, type) => {
+      scores[type] = Math.round(mean(interests[type]) * 100);
+      return scores;
+    }, {} as Record<RiasecType, number>);
+  }
+
+  const traits = collect(answers, measures =>
+    (measures.model === 'bigFive' ? { key: measures.trait, reversed: Boolean(measures.reversed) } : null));
+  if (complete(BIG_FIVE_TRAITS, traits)) {
+    profile.bigFive = BIG_FIVE_TRAITS.reduce((scores, trait) => {
+      scores[trait] = Math.round(mean(traits[trait]) * 100);
+      return scores;
+    }, {} as Record<BigFiveTrait, number>);
+  }
+
+  // Per axis: how far the answers point to its first pole (E, S, T, J), 0-1
+  const axes = collect(answers, measures =>
+    (measures.model === 'mbti' ? { key: measures.axis, reversed: measures.pole !== measures.axis[0] } : null));
+  if (complete(MBTI_AXES, axes)) {
+    const leaning = MBTI_AXES.map(axis => mean(axes[axis]));
+    const type = MBTI_AXES.map((axis, index) => axis[leaning[index] >= 0.5 ? 0 : 1]).join('') as MbtiType;
+    profile.mbti = mbtiProfile(type, MBTI_AXES.reduce((strengths, axis, index) => {
+      strengths[axis] = Math.round(Math.abs(leaning[index] - 0.5) * 200);
+      return strengths;
+    }, {} as Record<MbtiAxis, number>));
+  }
+
+  return profile;
+};
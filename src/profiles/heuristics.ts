@@ -0,0 +1,75 @@
+import { ResumeProfile } from '../schemas/responses';
+
+// Rule-based resume reading, used when the AI is unavailable. It relies on the usual section headings
+// ("Skills", "경력", ...) and date ranges, so it finds less than the model but never makes anything up.
+
+type Section = 'experience' | 'skills' | 'education' | 'certifications';
+
+const SECTION_HEADINGS: [Section, RegExp][] = [
+  ['experience', /^(work |professional )?(experience|employment|career|work history)$|^(경력|경력 ?사항|업무 ?경력|경력 ?기술서)$/i],
+  ['skills', /^((technical |core )?skills?|tech(nical)? stack|technologies)$|^(기술|보유 ?기술|기술 ?스택|스킬)$/i],
+  ['education', /^(education|academic background)$|^(학력|학력 ?사항|교육)$/i],
+  ['certifications', /^(certifications?|licen[cs]es?( (&|and) certifications?)?)$|^(자격증|자격 ?사항|자격 ?및 ?면허)$/i]
+];
+
+const BULLET = /^\s*(?:[-*•·▪◦]|\d+[.)])\s*/;
+const SKILL_SEPARATOR = /\s*(?:,|\/|·|\||;)\s*/;
+const YEAR_RANGE = /((?:19|20)\d{2})(?:[./-]\d{1,2})?\s*[-~–]\s*((?:19|20)\d{2}|present|current|now|현재|재직\s*중)/gi;
+const ROLE_SEPARATOR = /\s+(?:at|@)\s+|\s+[-–|·]\s+|,\s*|\s*\|\s*/i;
+const DATES = /\(?\s*(?:19|20)\d{2}[^()]*\)?/g;
+const STATED_YEARS = /(\d+(?:\.\d+)?)\s*\+?\s*(?:years?|yrs?)\s+(?:of\s+)?(?:\w+\s+)?experience|(?:총\s*)?경력\s*(\d+(?:\.\d+)?)\s*년/i;
+
+const headingOf = (line: string): Section | undefined => {
+  const heading = line.replace(/^[#*_\s]+|[#*_:：\s]+$/g, '');
+  return SECTION_HEADINGS.find(([, pattern]) => pattern.test(heading))?.[0];
+};
+
+const splitSections = (text: string) => {
+  const sections: Record<Section, string[]> = { experience: [], skills: [], education: [], certifications: [] };
+  let current: Section | undefined;
+  text.split('\n').forEach(line => {
+    const heading = line.length <= 40 ? headingOf(line) : undefined;
+    if (heading) {
+      current = heading;
+      return;
+    }
+    const item = line.replace(BULLET, '').trim();
+    if (current && item) sections[current].push(item);
+  });
+  return sections;
+};
+
+const unique = (items: string[]) =>
+  items.filter((item, index) => item && items.findIndex(other => other.toLowerCase() === item.toLowerCase()) === index);
+
+// "Senior Engineer at Acme (2019 - present)" -> "Senior Engineer"
+const roleFromLine = (line: string) => line.replace(DATES, '').split(ROLE_SEPARATOR)[0].trim();
+
+// An explicit statement ("경력 5년", "7+ years of experience") wins; otherwise the span of the dated entries
+const yearsOfExperience = (text: string, experienceLines: string[], now: Date): number => {
+  const stated = STATED_YEARS.exec(text);
+  if (stated) return Number(stated[1] || stated[2]);
+  let first: number | undefined;
+  let last: number | undefined;
+  const entries = experienceLines.join('\n');
+  YEAR_RANGE.lastIndex = 0;
+  for (let match = YEAR_RANGE.exec(entries); match; match = YEAR_RANGE.exec(entries)) {
+    const start = Number(match[1]);
+    const end = /^\d/.test(match[2]) ? Number(match[2]) : now.getFullYear();
+    first = first === undefined ? start : Math.min(first, start);
+    last = last === undefined ? end : Math.max(last, end);
+  }
+  return first === undefined || last === undefined ? 0 : Math.max(0, last - first);
+};
+
+export const parseResumeHeuristically = (text: string, now: Date = new Date()): ResumeProfile => {
+  const sections = splitSections(text);
+  const firstRole = sections.experience.map(roleFromLine).find(Boolean);
+  return {
+    currentRole: firstRole || null,
+    yearsOfExperience: yearsOfExperience(text, sections.experience, now),
+    skills: unique(sections.skills.reduce<string[]>((all, line) => all.concat(line.split(SKILL_SEPARATOR)), [])),
+    education: unique(sections.education),
+    certifications: unique(sections.certifications)
+  };
+};
@@ -0,0 +1,63 @@
+import { LLMClient } from '../llm/client';
+import { PROMPT_VERSIONS } from '../llm/promptVersions';
+import { DataSource, generateStructured } from '../llm/structured';
+import { DEFAULT_LOCALE, getLocale, Locale } from '../locales';
+import { logger } from '../observability/logger';
+import { recordAIResult } from '../observability/metrics';
+import { buildMessages } from '../prompts/messages';
+import { checkLabels, checkTexts } from '../prompts/relevance';
+import { screenUserText } from '../prompts/screening';
+import { ResumeProfile, resumeProfileSchema } from '../schemas/responses';
+import { parseResumeHeuristically } from './heuristics';
+
+// Resumes legitimately contain quotes, colons and code, so only instruction-like text is rejected
+// (links are already removed by resumeText)
+const BLOCKING_PATTERNS = ['override-instructions', 'role-change', 'prompt-exfiltration', 'role-marker', 'delimiter'];
+
+// Names of the injection patterns found in a resume (empty when it looks benign)
+export const screenResume = (text: string): string[] =>
+  screenUserText(text).filter(name => BLOCKING_PATTERNS.indexOf(name) !== -1);
+
+const profileProblems = (profile: ResumeProfile) => [
+  ...(profile.currentRole ? checkLabels([profile.currentRole], []) : []),
+  ...checkTexts([...profile.skills, ...profile.education, ...profile.certifications])
+];
+
+// Structured profile from resume text, falling back to the rule-based reader if the AI fails
+export const extractResumeProfile = async (
+  llm: LLMClient,
+  resume: string,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<{ profile: ResumeProfile; dataSource: DataSource; promptVersion: string }> => {
+  const promptVersion = PROMPT_VERSIONS.resume;
+  const { language } = getLocale(locale);
+  const task = `Extract a structured profile from the resume in "resume" of the user data.
+
+Return JSON in this format:
+{
+  "currentRole": "Current or most recent job title, or null if there is none",
+  "yearsOfExperience": 5,
+  "skills": ["Skill"],
+  "education": ["Degree, school"],
+  "certifications": ["Certification"]
+}
+
+IMPORTANT:
+- Only use information that is in the resume; leave lists empty rather than guessing
+- "yearsOfExperience" is the total professional experience in years (0 for students and new graduates)
+- Write the job title and education IN ${language.toUpperCase()}; keep skill, certification, company and technology names as written
+- Return ONLY the JSON object`;
+
+  try {
+    const { data: profile, dataSource } = await generateStructured(llm, 'resume', buildMessages({
+      system: "You extract structured career profiles from resumes. Return JSON only.",
+      task,
+      data: { resume }
+    }), resumeProfileSchema, { check: profileProblems });
+    return { profile, dataSource, promptVersion };
+  } catch (aiError) {
+    logger.error('AI service failed, reading resume with rules', { route: 'resume', error: aiError });
+    recordAIResult('resume', 'fallback');
+    return { profile: parseResumeHeuristically(resume), dataSource: 'fallback', promptVersion };
+  }
+};
@@ -0,0 +1,77 @@
+import { deleteDoc, doc, Firestore, getDoc, setDoc } from 'firebase/firestore';
+import { DataSource } from '../llm/structured';
+import { logger } from '../observability/logger';
+import { ResumeProfile } from '../schemas/responses';
+import { ResumeFormat } from './text';
+
+const PROFILES = 'profiles';
+
+// The resume itself is not kept, only what was extracted from it
+export type StoredProfile = {
+  uid: string;
+  resume: ResumeProfile;
+  // promptVersion is missing on profiles imported before it was recorded
+  source: { format: ResumeFormat; characters: number; dataSource: DataSource; promptVersion?: string };
+  updatedAt: string;
+};
+
+export type ProfileStore = {
+  get: (uid: string) => Promise<StoredProfile | null>;
+  save: (profile: StoredProfile) => Promise<void>;
+  remove: (uid: string) => Promise<boolean>;
+};
+
+// One document per user: profiles/{uid}
+export const createFirestoreProfileStore = (db: Firestore): ProfileStore => {
+  const ref = (uid: string) => doc(db, PROFILES, uid);
+
+  const get = async (uid: string) => {
+    const snapshot = await getDoc(ref(uid));
+    return snapshot.exists() ? (snapshot.data() as StoredProfile) : null;
+  };
+
+  const save = (profile: StoredProfile) => setDoc(ref(profile.uid), profile);
+
+  const remove = async (uid: string) => {
+    const snapshot = await getDoc(ref(uid));
+    if (!snapshot.exists()) return false;
+    await deleteDoc(ref(uid));
+    return true;
+  };
+
+  return { get, save, remove };
+};
+
+// Process-local profiles for development and tests; `onChange` runs after every write (used by the file backend)
+export const createMemoryProfileStore = (
+  initial: Record<string, StoredProfile> = {},
+  onChange: (profiles: Record<string, StoredProfile>) => void = () => undefined
+): ProfileStore => {
+  const profiles: Record<string, StoredProfile> = JSON.parse(JSON.stringify(initial));
+
+  const get = async (uid: string) => (profiles[uid] ? JSON.parse(JSON.stringify(profiles[uid])) : null);
+
+  const save = async (profile: StoredProfile) => {
+    profiles[profile.uid] = JSON.parse(JSON.stringify(profile));
+    onChange(profiles);
+  };
+
+  const remove = async (uid: string) => {
+    if (!profiles[uid]) return false;
+    delete profiles[uid];
+    onChange(profiles);
+    return true;
+  };
+
+  return { get, save, remove };
+};
+
+// The caller's extracted resume, if any; a failing store only costs the personalisation
+export const loadResume = async (store: ProfileStore, uid: string): Promise<ResumeProfile | undefined> => {
+  try {
+    return (await store.get(uid))?.resume;
+  } catch (error: any) {
+    logger.error('Failed to load profile, generating without it', { error: error.message });
+    return undefined;
+  }
+};
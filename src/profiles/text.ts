@@ -0,0 +1,55 @@
+import pdfParse from 'pdf-parse';
+
+// Plain text of an uploaded resume, ready to be sent to the model
+
+export const RESUME_FORMATS = ['text', 'markdown', 'pdf'] as const;
+export type ResumeFormat = typeof RESUME_FORMATS[number];
+
+// Longer resumes are cut; the first pages hold the current role and the skills
+export const MAX_RESUME_CHARS = 20000;
+
+const CONTENT_TYPES: Record<string, ResumeFormat> = {
+  'text/plain': 'text',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'application/pdf': 'pdf'
+};
+
+export const RESUME_CONTENT_TYPES = Object.keys(CONTENT_TYPES);
+
+export const resumeFormatOf = (contentType: string | undefined): ResumeFormat | undefined =>
+  CONTENT_TYPES[(contentType || '').split(';')[0].trim().toLowerCase()];
+
+// Markup carries no information the model needs; links are dropped because profile URLs are personal data
+const stripMarkdown = (text: string) => text
+  .replace(/```[^\n]*\n([\s\S]*?)```/g, '$1')
+  .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+  .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+  .replace(/<[^>]+>/g, '')
+  .replace(/^\s{0,3}(#{1,6}|>)\s*/gm, '')
+  .replace(/(\*\*|__|`)/g, '');
+
+const stripLinks = (text: string) => text.replace(/\b(?:https?:\/\/|www\.)\S+/gi, '');
+
+const normalizeWhitespace = (text: string) => text
+  .normalize('NFKC')
+  .replace(/\r\n?/g, '\n')
+  .replace(/[ \t ]+/g, ' ')
+  .replace(/ ?\n ?/g, '\n')
+  .replace(/\n{3,}/g, '\n\n')
+  .trim();
+
+export const resumeText = async (body: Buffer, format: ResumeFormat): Promise<string> => {
+  let text: string;
+  switch (format) {
+    case 'pdf':
+      text = (await pdfParse(body)).text;
+      break;
+    case 'markdown':
+      text = stripMarkdown(body.toString('utf8'));
+      break;
+    default:
+      text = body.toString('utf8');
+  }
+  return normalizeWhitespace(stripLinks(text)).substring(0, MAX_RESUME_CHARS);
+};
@@ -0,0 +1,11 @@
+import { ADVERSARIAL_CORPUS, runCorpusCase } from './adversarialCorpus';
+
+// The same cases as `npm run check:prompts`
+describe('adversarial corpus', () => {
+  it.each(ADVERSARIAL_CORPUS.map(testCase => [testCase.id, testCase.expect, testCase] as const))(
+    '%s is %s',
+    async (_id, _expect, testCase) => {
+      expect(await runCorpusCase(testCase)).toBeUndefined();
+    }
+  );
+});
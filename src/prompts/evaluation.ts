@@ -0,0 +1,285 @@
+import dotenv from 'dotenv';
+import { readFileSync, writeFileSync } from 'fs';
+import { z } from 'zod';
+import { fetchCareerDetails } from '../careers/details';
+import { generateMindMap } from '../careers/mindmap';
+import { fetchCareerPaths } from '../careers/paths';
+import { fetchSuggestions } from '../careers/suggestions';
+import { createLLMClient, LLMClient } from '../llm/client';
+import { loadLLMConfig } from '../llm/config';
+import { ChatMessage, LLMProvider, LLMRoute } from '../llm/types';
+import { configureLogger } from '../observability/logger';
+import {
+  careerDetailsRequestSchema,
+  expandCareerRequestSchema,
+  generateMindMapSchema,
+  suggestionsRequestSchema
+} from '../schemas/requests';
+import { hashString } from '../utils/hash';
+import { createPromptRegistry, promptTemplate } from './registry';
+import { PromptTemplate, TEMPLATE_ROUTES, TemplateRoute } from './template';
+
+// Compares two versions of a route's prompt template on a fixed set of inputs:
+//   npm run eval:prompts -- <route> <version> <version> [--record <file> | --replay <file>]
+//
+// The mock model answers by default. --record sends every prompt to the model the LLM_* variables
+// configure and saves its answers; --replay answers from such a file, so versions are compared on real
+// output without calling the model again. Candidate versions come from PROMPT_DIR.
+//
+// Per version it reports how many answers passed the response schema and output checks, on the first
+// try or after local repair (there are no re-asks), and how much the answers vary between inputs.
+
+type EvalCase = { id: string; body: Record<string, unknown> };
+
+export const EVAL_CASES: Record<TemplateRoute, EvalCase[]> = {
+  mindmap: [
+    { id: 'backend-ko', body: { aim: '백엔드 개발자', hobby: '알고리즘 문제 풀이', mbti: 'INTJ' } },
+    { id: 'designer-ko', body: { aim: 'UX 디자이너', hobby: '그림 그리기', personality: { riasec: 'AES' } } },
+    { id: 'nurse-ko', body: { aim: '간호사', jobPath: '의료', mbti: 'ISFJ', salary: 4500 } },
+    { id: 'data-en', body: { aim: 'Data scientist', hobby: 'statistics and chess', mbti: 'INTP', locale: 'en' } },
+    { id: 'marketer-en', body: { aim: 'Marketing manager', roleModel: 'Seth Godin', personality: { riasec: 'ESA' }, locale: 'en' } },
+    { id: 'teacher-to-pm-en', body: { aim: 'Product manager', jobPath: 'Teacher moving into tech', locale: 'en' } }
+  ],
+  suggestions: [
+    { id: 'backend-ko', body: { nodeContent: '백엔드 개발자' } },
+    { id: 'analyst-ko', body: { nodeContent: '데이터 분석가' } },
+    { id: 'chef-ko', body: { nodeContent: '요리사' } },
+    { id: 'designer-en', body: { nodeContent: 'UX Designer', locale: 'en' } },
+    { id: 'nurse-en', body: { nodeContent: 'Nurse', locale: 'en' } },
+    { id: 'accountant-en', body: { nodeContent: 'Accountant', locale: 'en' } }
+  ],
+  careerDetails: [
+    { id: 'backend-ko', body: { careerTitle: '백엔드 개발자' } },
+    { id: 'teacher-ko', body: { careerTitle: '초등학교 교사' } },
+    { id: 'pm-ko', body: { careerTitle: '프로덕트 매니저' } },
+    { id: 'ml-en', body: { careerTitle: 'Machine Learning Engineer', locale: 'en' } },
+    { id: 'pilot-en', body: { careerTitle: 'Airline Pilot', locale: 'en' } },
+    { id: 'lawyer-en', body: { careerTitle: 'Corporate Lawyer', locale: 'en' } }
+  ],
+  expandCareer: [
+    { id: 'it-ko', body: { careerTitle: 'IT', level: 1 } },
+    { id: 'healthcare-ko', body: { careerTitle: '의료', level: 1 } },
+    { id: 'frontend-ko', body: { careerTitle: '프론트엔드 개발자', level: 2 } },
+    { id: 'design-en', body: { careerTitle: 'Design', level: 1, locale: 'en' } },
+    { id: 'finance-en', body: { careerTitle: 'Finance', level: 1, locale: 'en' } },
+    { id: 'data-engineer-en', body: { careerTitle: 'Data Engineer', level: 2, locale: 'en' } }
+  ]
+};
+
+type RouteRunner<R extends TemplateRoute> = {
+  schema: z.ZodTypeAny;
+  run: (llm: LLMClient, body: any, template: PromptTemplate<R>) => Promise<{ dataSource: string }>;
+  // The generated texts whose variety is measured
+  items: (result: any) => string[];
+};
+
+const ROUTES: { [R in TemplateRoute]: RouteRunner<R> } = {
+  mindmap: {
+    schema: generateMindMapSchema,
+    run: (llm, body, template) => generateMindMap(llm, body, body.layout, body.locale, template),
+    // Every edge starts at the root
+    items: result => result.nodes.filter((node: any) => node.id !== result.edges[0]?.source).map((node: any) => node.data.label)
+  },
+  suggestions: {
+    schema: suggestionsRequestSchema,
+    run: (llm, body, template) => fetchSuggestions(llm, body.nodeContent, body.locale, template),
+    items: result => result.suggestions
+  },
+  careerDetails: {
+    schema: careerDetailsRequestSchema,
+    run: (llm, body, template) => fetchCareerDetails(llm, body.careerTitle, body.locale, template),
+    items: ({ requirements, relatedCompanies, roleModels, description }) => [
+      ...requirements.education,
+      ...requirements.certifications,
+      ...requirements.experience,
+      ...relatedCompanies,
+      ...roleModels,
+      description
+    ]
+  },
+  expandCareer: {
+    schema: expandCareerRequestSchema,
+    run: (llm, body, template) => fetchCareerPaths(llm, body.careerTitle, body.level, body.locale, template),
+    items: result => result.careerPaths
+  }
+};
+
+// Model answers by prompt, as saved by --record
+export type Recordings = Record<string, string>;
+
+const recordingKey = (route: LLMRoute, messages: ChatMessage[]) => `${route}:${hashString(JSON.stringify(messages)).toString(16)}`;
+
+// No retries and no re-asks: every answer is judged as the model gave it
+const EVAL_ENV = { LLM_RETRY_MAX: '1', LLM_MAX_REASKS: '0' };
+
+export const mockModel = (): LLMClient => createLLMClient(loadLLMConfig({ ...EVAL_ENV, LLM_PROVIDER: 'mock' }));
+
+// Answers from recordings; a prompt that was not recorded fails like an unreachable model
+export const replayModel = (recordings: Recordings): LLMClient => {
+  const provider: LLMProvider = {
+    name: 'recorded',
+    complete: async request => {
+      const content = recordings[recordingKey(request.route, request.messages)];
+      if (content === undefined) throw new Error(`No recorded answer for this ${request.route} prompt`);
+      return { content, model: request.model, provider: 'recorded' };
+    },
+    stream: async () => {
+      throw new Error('not used by the evaluation');
+    }
+  };
+  return createLLMClient(loadLLMConfig({ ...EVAL_ENV, LLM_PROVIDER: 'mock' }), { mock: provider });
+};
+
+// The model `env` configures, saving every answer into `recordings`
+export const recordingModel = (env: NodeJS.ProcessEnv, recordings: Recordings): LLMClient => {
+  const llm = createLLMClient(loadLLMConfig({ ...env, ...EVAL_ENV }));
+  return {
+    ...llm,
+    complete: async (route, messages, options) => {
+      const result = await llm.complete(route, messages, options);
+      recordings[recordingKey(route, messages)] = result.content;
+      return result;
+    }
+  };
+};
+
+export type VersionReport = {
+  version: string;
+  cases: number;
+  // Answers that passed as given, after local repair, or not at all (the route served its fallback)
+  validated: number;
+  repaired: number;
+  failed: string[];
+  // Share of answers that passed
+  validRate: number;
+  // Distinct items among all items of the passing answers (1 = no item repeats)
+  distinctRate: number;
+  // Mean Jaccard distance between the item sets of two inputs (0 = every input gets the same items)
+  meanDistance: number;
+  itemsPerAnswer: number;
+};
+
+export type EvaluationReport = { route: TemplateRoute; versions: VersionReport[] };
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const normalizeItem = (item: string) => item.normalize('NFKC').trim().replace(/\s+/g, ' ').toLowerCase();
+
+const jaccardDistance = (a: string[], b: string[]) => {
+  const union = a.concat(b.filter(item => a.indexOf(item) === -1));
+  if (!union.length) return 0;
+  const shared = a.filter(item => b.indexOf(item) !== -1).length;
+  return 1 - shared / union.length;
+};
+
+const diversity = (answers: string[][]) => {
+  const sets = answers.map(items => items.map(normalizeItem).filter((item, index, all) => all.indexOf(item) === index));
+  const all = answers.reduce<string[]>((items, answer) => items.concat(answer.map(normalizeItem)), []);
+  const distances: number[] = [];
+  sets.forEach((set, index) => sets.slice(index + 1).forEach(other => distances.push(jaccardDistance(set, other))));
+  return {
+    distinctRate: all.length ? round(all.filter((item, index) => all.indexOf(item) === index).length / all.length) : 0,
+    meanDistance: distances.length ? round(distances.reduce((sum, distance) => sum + distance, 0) / distances.length) : 0,
+    itemsPerAnswer: answers.length ? round(all.length / answers.length) : 0
+  };
+};
+
+const evaluateVersion = async <R extends TemplateRoute>(
+  route: R,
+  template: PromptTemplate<R>,
+  llm: LLMClient,
+  cases: EvalCase[]
+): Promise<VersionReport> => {
+  const runner = ROUTES[route] as RouteRunner<R>;
+  const report = { version: template.version, cases: cases.length, validated: 0, repaired: 0, failed: [] as string[] };
+  const answers: string[][] = [];
+  for (const testCase of cases) {
+    const body = runner.schema.parse(testCase.body);
+    const result = await runner.run(llm, body, template);
+    if (result.dataSource === 'fallback') {
+      report.failed.push(testCase.id);
+      continue;
+    }
+    if (result.dataSource === 'ai-validated') report.validated++;
+    else report.repaired++;
+    answers.push(runner.items(result));
+  }
+  return {
+    ...report,
+    validRate: cases.length ? round(answers.length / cases.length) : 0,
+    ...diversity(answers)
+  };
+};
+
+// Runs EVAL_CASES (or `cases`) through each version in turn; throws for versions without a template
+export const evaluatePrompts = async (
+  route: TemplateRoute,
+  versions: string[],
+  llm: LLMClient,
+  cases: EvalCase[] = EVAL_CASES[route]
+): Promise<EvaluationReport> => {
+  const templates = versions.map(version => {
+    const template = promptTemplate(route, version);
+    if (!template) throw new Error(`${route} has no prompt version "${version}"`);
+    return template;
+  });
+  const reports: VersionReport[] = [];
+  for (const template of templates) {
+    reports.push(await evaluateVersion(route, template, llm, cases));
+  }
+  return { route, versions: reports };
+};
+
+export const formatReport = ({ route, versions }: EvaluationReport, model: string): string => {
+  const rows: [string, (report: VersionReport) => string][] = [
+    ['schema-valid', report => `${report.validated + report.repaired}/${report.cases}`],
+    ['  first answer', report => String(report.validated)],
+    ['  after repair', report => String(report.repaired)],
+    ['fallback', report => String(report.failed.length)],
+    ['distinct items', report => report.distinctRate.toFixed(2)],
+    ['mean distance', report => report.meanDistance.toFixed(2)],
+    ['items per answer', report => report.itemsPerAnswer.toFixed(1)]
+  ];
+  const cell = (text: string) => text.padStart(10);
+  const lines = [
+    `${route}: ${versions.map(report => `v${report.version}`).join(' vs ')}, ${versions[0]?.cases ?? 0} inputs, ${model} model`,
+    ''.padEnd(18) + versions.map(report => cell(`v${report.version}`)).join(''),
+    ...rows.map(([label, value]) => label.padEnd(18) + versions.map(report => cell(value(report))).join(''))
+  ];
+  versions
+    .filter(report => report.failed.length)
+    .forEach(report => lines.push(`v${report.version} fell back on: ${report.failed.join(', ')}`));
+  return lines.join('\n');
+};
+
+const USAGE = `Usage: npm run eval:prompts -- <${TEMPLATE_ROUTES.join('|')}> <version> <version> [--record <file> | --replay <file>]`;
+
+if (require.main === module) {
+  dotenv.config({ path: './.env' });
+  // The routes log every call and fallback; keep the report readable
+  configureLogger({ level: 'silent' });
+  const [route, first, second, flag, file] = process.argv.slice(2);
+  const fail = (message: string) => {
+    process.stderr.write(`${message}\n${USAGE}\n`);
+    process.exit(2);
+  };
+  if (!route || !first || !second) fail('A route and two versions are required');
+  if ((TEMPLATE_ROUTES as readonly string[]).indexOf(route) === -1) fail(`Unknown route "${route}"`);
+  if (flag && ((flag !== '--record' && flag !== '--replay') || !file)) fail(`Unknown option "${flag}"`);
+
+  const run = async () => {
+    createPromptRegistry(process.env.PROMPT_DIR);
+    const recordings: Recordings = flag === '--replay' ? JSON.parse(readFileSync(file, 'utf8')) : {};
+    const llm = flag === '--record' ? recordingModel(process.env, recordings) : flag === '--replay' ? replayModel(recordings) : mockModel();
+    const report = await evaluatePrompts(route as TemplateRoute, [first, second], llm);
+    process.stdout.write(`${formatReport(report, flag === '--record' ? 'live' : flag === '--replay' ? 'recorded' : 'mock')}\n`);
+    if (flag === '--record') {
+      writeFileSync(file, `${JSON.stringify(recordings, null, 2)}\n`);
+      process.stdout.write(`Saved ${Object.keys(recordings).length} answers to ${file}\n`);
+    }
+  };
+  run().catch(error => {
+    process.stderr.write(`${error.message}\n`);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,212 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import request from 'supertest';
+import { PROMPT_VERSIONS } from '../llm/promptVersions';
+import { bearer, createTestApp } from '../testing/stubs';
+import { evaluatePrompts, mockModel, recordingModel, Recordings, replayModel } from './evaluation';
+import { BUNDLED_PROMPTS, choosePrompt, createPromptRegistry, loadPromptDir } from './registry';
+import { parsePromptTemplate, promptMessages } from './template';
+import bundledSuggestions from './templates/suggestions.v4.json';
+
+const dirs: string[] = [];
+
+// A PROMPT_DIR holding the given files
+const promptDir = (files: Record<string, unknown>) => {
+  const dir = mkdtempSync(join(tmpdir(), 'prompts-'));
+  dirs.push(dir);
+  Object.keys(files).forEach(name => writeFileSync(join(dir, name), JSON.stringify(files[name])));
+  return dir;
+};
+
+afterAll(() => dirs.forEach(dir => rmSync(dir, { recursive: true, force: true })));
+
+// Suggestions v5: other wording and sampling settings
+const SUGGESTIONS_V5 = {
+  ...bundledSuggestions,
+  version: '5',
+  temperature: 0.2,
+  maxTokens: 300,
+  task: ['List 10 varied job titles related to "nodeContent" IN {{languageUpper}}, as {{titleStyle}}. Return a JSON array.']
+};
+
+const experiment = (variants: { version: string; weight?: number }[]) => ({
+  experiments: [{ id: 'suggestions-wording', route: 'suggestions', variants }]
+});
+
+// Uids the experiment puts into `version`
+const uidsIn = (version: string, count: number) => {
+  const uids: string[] = [];
+  for (let i = 0; uids.length < count; i++) {
+    if (choosePrompt('suggestions', `user-${i}`).template.version === version) uids.push(`user-${i}`);
+  }
+  return uids;
+};
+
+describe('prompt templates', () => {
+  const template = (task: string[]) => parsePromptTemplate({ route: 'expandCareer', version: 't', system: 'System', task }, 't.json');
+
+  it('fills in the locale wording and route variables, dropping lines a false condition leaves empty', () => {
+    const messages = promptMessages(
+      template(['Generate {{#if topLevel}}paths{{else}}roles{{/if}} IN {{languageUpper}}.', '{{#if topLevel}}Keep them broad.{{/if}}', '', 'Done']),
+      'en',
+      { topLevel: false },
+      { careerTitle: 'Nurse' }
+    );
+    expect(messages.map(message => message.content)).toEqual([
+      expect.stringMatching(/^System\n\n/),
+      'Generate roles IN ENGLISH.\n\nDone',
+      expect.stringContaining('"careerTitle": "Nurse"')
+    ]);
+  });
+
+  it('rejects unknown variables, conditions on text variables and unclosed blocks', () => {
+    expect(() => template(['{{careerTitle}}', '{{#if language}}x{{/if}}', '{{#if topLevel}}x', '{{> partial}}'])).toThrow(expect.objectContaining({
+      problems: [
+        't.json: unknown variable {{careerTitle}}',
+        't.json: {{#if language}} needs one of the boolean variables of expandCareer',
+        't.json: unclosed {{#if}} block in "{{#if topLevel}}x"',
+        't.json: unknown tag {{> partial}}'
+      ]
+    }));
+  });
+});
+
+describe('PROMPT_DIR', () => {
+  it('adds versions, replaces the experiments and overrides active versions', () => {
+    const set = loadPromptDir(promptDir({
+      'suggestions.v5.json': SUGGESTIONS_V5,
+      'prompts.json': { active: { suggestions: '5' }, ...experiment([{ version: '4' }, { version: '5' }]) }
+    }));
+    expect(set.active).toEqual({ ...BUNDLED_PROMPTS.active, suggestions: '5' });
+    const suggestions = set.templates.filter(template => template.route === 'suggestions');
+    expect(suggestions.map(template => template.version)).toEqual(['4', '5']);
+    expect(suggestions[1].settings).toEqual({ temperature: 0.2, maxTokens: 300 });
+    expect(set.experiments).toEqual([{ id: 'suggestions-wording', route: 'suggestions', variants: [{ version: '4', weight: 1 }, { version: '5', weight: 1 }] }]);
+  });
+
+  it('rejects unreadable files, redefined versions and experiments on unknown versions', () => {
+    const dir = promptDir({
+      'suggestions.v4.json': bundledSuggestions,
+      'prompts.json': experiment([{ version: '4' }, { version: '9' }])
+    });
+    writeFileSync(join(dir, 'broken.json'), '{ "route": ');
+    expect(() => loadPromptDir(dir)).toThrow(expect.objectContaining({ problems: [expect.stringMatching(/^broken\.json: /)] }));
+    rmSync(join(dir, 'broken.json'));
+    expect(() => loadPromptDir(dir)).toThrow(expect.objectContaining({
+      problems: [
+        'suggestions version "4" is defined twice',
+        'experiment "suggestions-wording" uses suggestions version "9", which has no template'
+      ]
+    }));
+  });
+});
+
+describe('choosePrompt', () => {
+  afterAll(() => createPromptRegistry());
+
+  it('keeps each user in one variant, splits users by weight and gives requests without a user the active version', () => {
+    createPromptRegistry(promptDir({ 'suggestions.v5.json': SUGGESTIONS_V5, 'prompts.json': experiment([{ version: '4', weight: 3 }, { version: '5' }]) }));
+    const uids = Array.from({ length: 2000 }, (_value, index) => `uid-${index}`);
+    const versions = uids.map(uid => choosePrompt('suggestions', uid).template.version);
+    expect(uids.map(uid => choosePrompt('suggestions', uid).template.version)).toEqual(versions);
+    expect(versions.filter(version => version === '4').length / uids.length).toBeCloseTo(0.75, 1);
+    expect(choosePrompt('suggestions', 'uid-1').experiment).toBe('suggestions-wording');
+    expect(choosePrompt('suggestions')).toEqual({ template: expect.objectContaining({ version: '4' }) });
+    expect(choosePrompt('careerDetails', 'uid-1')).toEqual({ template: expect.objectContaining({ version: '4' }) });
+  });
+});
+
+describe('prompt experiments over HTTP', () => {
+  const dir = () => promptDir({ 'suggestions.v5.json': SUGGESTIONS_V5, 'prompts.json': experiment([{ version: '4' }, { version: '5' }]) });
+
+  it('serves each user their variant, tags responses with the version and caches variants apart', async () => {
+    const { app, stub } = createTestApp({ promptDir: dir() });
+    const [control] = uidsIn('4', 1);
+    const [candidate] = uidsIn('5', 1);
+    const suggest = (uid: string) => request(app).post('/api/suggestions').set(bearer(uid)).send({ nodeContent: 'Backend developer' });
+
+    const first = await suggest(control);
+    const second = await suggest(candidate);
+    expect(first.body.promptVersion).toBe('4');
+    expect(second.body.promptVersion).toBe('5');
+    expect(second.headers['x-cache']).toBe('MISS');
+    expect((await suggest(candidate)).headers['x-cache']).toBe('HIT');
+
+    const [v4, v5] = stub.requests;
+    expect(v4.messages[1].content).toMatch(/^Expand the career term/);
+    expect(v5.messages[1].content).toMatch(/^List 10 varied job titles related to "nodeContent" IN KOREAN, as Korean job titles, .*\. Return a JSON array\.$/);
+    expect(v5).toMatchObject({ temperature: 0.2, maxTokens: 300 });
+    expect(v4).toMatchObject({ temperature: 0.7, maxTokens: 512 });
+  });
+
+  it('tags mind maps, career details and career paths with the active version, fallbacks included', async () => {
+    const { app, stub } = createTestApp();
+    stub.reply('careerDetails', { status: 500 });
+    const send = (path: string, body: Record<string, unknown>) => request(app).post(path).set(bearer()).send(body);
+    expect((await send('/api/generate-mindmap', { aim: 'Designer' })).body.promptVersion).toBe('5');
+    expect((await send('/api/expand-career', { careerTitle: 'Designer' })).body.promptVersion).toBe('4');
+    const details = await send('/api/career-details', { careerTitle: 'Designer' });
+    expect(details.body).toMatchObject({ dataSource: 'fallback', promptVersion: '4' });
+  });
+
+  it('tags the routes whose prompts are built in code with their PROMPT_VERSIONS entry', async () => {
+    const { app } = createTestApp();
+    const send = (path: string, body: Record<string, unknown>) => request(app).post(path).set(bearer()).send(body);
+    const path = await send('/api/career-path', { currentRole: 'Junior Developer', targetRole: 'Tech Lead' });
+    expect(path.body.promptVersion).toBe(PROMPT_VERSIONS.careerPath);
+    const profile = { currentRole: 'Junior Developer', yearsOfExperience: 1, skills: ['Java'], education: [], certifications: [] };
+    const gap = await send('/api/skill-gap', { careerTitle: 'Backend Developer', profile });
+    expect(gap.body.promptVersion).toBe(PROMPT_VERSIONS.skillGap);
+    const resume = await request(app).put('/api/profile/resume').set(bearer()).set('Content-Type', 'text/plain')
+      .send('Jane Doe\nBackend Developer, 2020-2024\nSkills: Java, SQL');
+    expect(resume.body.source.promptVersion).toBe(PROMPT_VERSIONS.resume);
+  });
+
+  it('lets admins inspect and reload the prompts, keeping the ones in use when the directory is invalid', async () => {
+    const prompts = dir();
+    const { app } = createTestApp({ promptDir: prompts });
+    const state = await request(app).get('/api/admin/prompts').set(bearer('admin'));
+    expect(state.body).toMatchObject({ source: prompts, active: { suggestions: '4' }, experiments: [{ id: 'suggestions-wording' }] });
+    expect(state.body.templates).toContainEqual({ route: 'suggestions', version: '5', description: expect.any(String), settings: { temperature: 0.2, maxTokens: 300 } });
+    expect((await request(app).post('/api/admin/prompts/reload').set(bearer())).status).toBe(403);
+
+    writeFileSync(join(prompts, 'prompts.json'), JSON.stringify({ active: { mindmap: '7' } }));
+    const invalid = await request(app).post('/api/admin/prompts/reload').set(bearer('admin'));
+    expect(invalid.status).toBe(409);
+    expect(invalid.body).toMatchObject({ code: 'CONFLICT', details: ['the active mindmap version "7" has no template'] });
+    expect(choosePrompt('mindmap').template.version).toBe('5');
+
+    writeFileSync(join(prompts, 'prompts.json'), JSON.stringify({ active: { suggestions: '5' } }));
+    const reloaded = await request(app).post('/api/admin/prompts/reload').set(bearer('admin'));
+    expect(reloaded.body).toMatchObject({ active: { suggestions: '5' }, experiments: [] });
+    expect((await request(app).post('/api/suggestions').set(bearer()).send({ nodeContent: 'Nurse' })).body.promptVersion).toBe('5');
+  });
+});
+
+describe('evaluatePrompts', () => {
+  beforeAll(() => createPromptRegistry(promptDir({ 'suggestions.v5.json': SUGGESTIONS_V5 })));
+  afterAll(() => createPromptRegistry());
+
+  it('reports schema validity and diversity per version', async () => {
+    const report = await evaluatePrompts('suggestions', ['4', '5'], mockModel());
+    expect(report.versions.map(version => version.version)).toEqual(['4', '5']);
+    report.versions.forEach(version => {
+      expect(version).toMatchObject({ cases: 6, validated: 6, repaired: 0, failed: [], validRate: 1 });
+      expect(version.distinctRate).toBeGreaterThan(0);
+      expect(version.distinctRate).toBeLessThanOrEqual(1);
+      expect(version.meanDistance).toBeGreaterThan(0);
+    });
+    await expect(evaluatePrompts('suggestions', ['4', '8'], mockModel())).rejects.toThrow('suggestions has no prompt version "8"');
+  });
+
+  it('replays recorded answers, counting prompts without one as fallbacks', async () => {
+    const recordings: Recordings = {};
+    const cases = [{ id: 'details', body: { careerTitle: 'Data Engineer', locale: 'en' } }];
+    const recorded = await evaluatePrompts('careerDetails', ['4'], recordingModel({ LLM_PROVIDER: 'mock' }, recordings), cases);
+    expect(Object.keys(recordings)).toHaveLength(1);
+    expect(await evaluatePrompts('careerDetails', ['4'], replayModel(recordings), cases)).toEqual(recorded);
+    const missing = await evaluatePrompts('careerDetails', ['4'], replayModel({}), cases);
+    expect(missing.versions[0]).toMatchObject({ failed: ['details'], validRate: 0 });
+  });
+});
@@ -0,0 +1,200 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { z } from 'zod';
+import { hashString } from '../utils/hash';
+import { parsePromptTemplate, PromptTemplate, promptVersionSchema, TEMPLATE_ROUTES, TemplateRoute } from './template';
+import careerDetailsV4 from './templates/careerDetails.v4.json';
+import expandCareerV4 from './templates/expandCareer.v4.json';
+import mindmapV5 from './templates/mindmap.v5.json';
+import bundledManifest from './templates/prompts.json';
+import suggestionsV4 from './templates/suggestions.v4.json';
+
+// The prompt templates in use: every version of every route, the version each route serves and the
+// experiments that split users between versions. ./templates ships with the server; PROMPT_DIR adds
+// versions and replaces prompts.json, so wording changes without a deploy (POST /api/admin/prompts/reload).
+
+export type Experiment = {
+  id: string;
+  route: TemplateRoute;
+  // Users are split between the versions in proportion to their weights
+  variants: { version: string; weight: number }[];
+};
+
+export type PromptSet = {
+  templates: PromptTemplate[];
+  // Served outside experiments and to requests without a user
+  active: Record<TemplateRoute, string>;
+  experiments: Experiment[];
+};
+
+// The template a request uses, and the experiment that picked it
+export type PromptChoice<R extends TemplateRoute> = { template: PromptTemplate<R>; experiment?: string };
+
+export type PromptState = Omit<PromptSet, 'templates'> & {
+  // PROMPT_DIR, or "bundled"
+  source: string;
+  templates: Omit<PromptTemplate, 'system' | 'task'>[];
+};
+
+export type PromptRegistry = {
+  state: () => PromptState;
+  // Re-reads PROMPT_DIR. Returns the problems found, in which case the prompts in use stay
+  reload: () => string[];
+};
+
+const MANIFEST = 'prompts.json';
+
+const experimentSchema = z.object({
+  id: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'must be lowercase words joined by hyphens').max(60),
+  route: z.enum(TEMPLATE_ROUTES),
+  variants: z.array(z.object({
+    version: promptVersionSchema,
+    weight: z.number().int().min(1).default(1)
+  }).strict()).min(1).max(10)
+}).strict();
+
+const manifestSchema = z.object({
+  active: z.record(z.enum(TEMPLATE_ROUTES), promptVersionSchema).default({}),
+  experiments: z.array(experimentSchema).default([])
+}).strict();
+
+export const promptSetProblems = ({ templates, active, experiments }: PromptSet): string[] => {
+  const problems: string[] = [];
+  const exists = (route: TemplateRoute, version: string) =>
+    templates.some(template => template.route === route && template.version === version);
+  templates.forEach((template, index) => {
+    if (templates.findIndex(other => other.route === template.route && other.version === template.version) !== index) {
+      problems.push(`${template.route} version "${template.version}" is defined twice`);
+    }
+  });
+  TEMPLATE_ROUTES.forEach(route => {
+    if (!active[route]) problems.push(`no active ${route} version`);
+    else if (!exists(route, active[route])) problems.push(`the active ${route} version "${active[route]}" has no template`);
+  });
+  experiments.forEach((experiment, index) => {
+    if (experiments.findIndex(other => other.id === experiment.id) !== index) {
+      problems.push(`experiment "${experiment.id}" appears twice`);
+    } else if (experiments.findIndex(other => other.route === experiment.route) !== index) {
+      problems.push(`experiment "${experiment.id}" is a second experiment on ${experiment.route}`);
+    }
+    experiment.variants.forEach(({ version }, variant) => {
+      if (!exists(experiment.route, version)) {
+        problems.push(`experiment "${experiment.id}" uses ${experiment.route} version "${version}", which has no template`);
+      } else if (experiment.variants.findIndex(other => other.version === version) !== variant) {
+        problems.push(`experiment "${experiment.id}" lists version "${version}" twice`);
+      }
+    });
+  });
+  return problems;
+};
+
+// Templates and prompts.json from `files` (by file name) on top of `base`; throws listing every problem
+const assemble = (origin: string, files: Record<string, unknown>, base?: PromptSet, problems: string[] = []): PromptSet => {
+  const templates = base ? base.templates.slice() : [];
+  Object.keys(files).filter(name => name !== MANIFEST).forEach(name => {
+    try {
+      templates.push(parsePromptTemplate(files[name], name));
+    } catch (error: any) {
+      problems.push(...error.problems);
+    }
+  });
+
+  let active = base ? base.active : ({} as PromptSet['active']);
+  let experiments = base ? base.experiments : [];
+  if (files[MANIFEST] !== undefined) {
+    const parsed = manifestSchema.safeParse(files[MANIFEST]);
+    if (parsed.success) {
+      active = { ...active, ...parsed.data.active };
+      experiments = parsed.data.experiments;
+    } else {
+      problems.push(...parsed.error.issues.map(issue => `${MANIFEST}: ${issue.path.join('.') || '(root)'}: ${issue.message}`));
+    }
+  }
+
+  const set = { templates, active, experiments };
+  if (!problems.length) problems.push(...promptSetProblems(set));
+  if (problems.length) {
+    throw Object.assign(new Error(`Prompt templates in ${origin} are invalid: ${problems.join('; ')}`), { problems });
+  }
+  return set;
+};
+
+export const BUNDLED_PROMPTS: PromptSet = assemble('src/prompts/templates', {
+  'mindmap.v5.json': mindmapV5,
+  'suggestions.v4.json': suggestionsV4,
+  'careerDetails.v4.json': careerDetailsV4,
+  'expandCareer.v4.json': expandCareerV4,
+  [MANIFEST]: bundledManifest
+});
+
+// The bundled templates plus every *.json file in `dir`: templates, and optionally a prompts.json that
+// replaces the experiments and overrides active versions
+export const loadPromptDir = (dir: string): PromptSet => {
+  let names: string[];
+  try {
+    names = readdirSync(dir).filter(name => name.endsWith('.json')).sort();
+  } catch (error: any) {
+    const problem = `PROMPT_DIR ${dir} could not be read: ${error.message}`;
+    throw Object.assign(new Error(problem), { problems: [problem] });
+  }
+  const files: Record<string, unknown> = {};
+  const problems: string[] = [];
+  names.forEach(name => {
+    try {
+      files[name] = JSON.parse(readFileSync(join(dir, name), 'utf8'));
+    } catch (error: any) {
+      problems.push(`${name}: ${error.message}`);
+    }
+  });
+  return assemble(dir, files, BUNDLED_PROMPTS, problems);
+};
+
+let prompts: PromptSet = BUNDLED_PROMPTS;
+
+// Replaces the prompts the lookups below read
+export const usePrompts = (set: PromptSet) => {
+  prompts = set;
+};
+
+export const activePrompts = (): PromptSet => prompts;
+
+// A route's template of the given version (the active one by default)
+export const promptTemplate = <R extends TemplateRoute>(route: R, version = prompts.active[route]): PromptTemplate<R> | undefined =>
+  prompts.templates.find(template => template.route === route && template.version === version) as PromptTemplate<R> | undefined;
+
+export const activeTemplate = <R extends TemplateRoute>(route: R): PromptTemplate<R> => promptTemplate(route) as PromptTemplate<R>;
+
+// Users in an experiment always get the same variant (a hash of the experiment and the uid picks it);
+// requests without a user get the active version
+export const choosePrompt = <R extends TemplateRoute>(route: R, uid?: string): PromptChoice<R> => {
+  const experiment = prompts.experiments.find(candidate => candidate.route === route);
+  if (!experiment || !uid) return { template: activeTemplate(route) };
+  const total = experiment.variants.reduce((sum, variant) => sum + variant.weight, 0);
+  let bucket = hashString(`${experiment.id}:${uid}`) % total;
+  const variant = experiment.variants.find(candidate => (bucket -= candidate.weight) < 0) as Experiment['variants'][number];
+  return { template: promptTemplate(route, variant.version) as PromptTemplate<R>, experiment: experiment.id };
+};
+
+// Loads PROMPT_DIR (throwing if it is invalid) or the bundled templates, and reloads them for the admin API
+export const createPromptRegistry = (dir?: string): PromptRegistry => {
+  usePrompts(dir ? loadPromptDir(dir) : BUNDLED_PROMPTS);
+
+  const state = (): PromptState => ({
+    source: dir || 'bundled',
+    active: prompts.active,
+    experiments: prompts.experiments,
+    templates: prompts.templates.map(({ route, version, description, settings }) => ({ route, version, description, settings }))
+  });
+
+  const reload = (): string[] => {
+    if (!dir) return [];
+    try {
+      usePrompts(loadPromptDir(dir));
+      return [];
+    } catch (error: any) {
+      return error.problems || [error.message];
+    }
+  };
+
+  return { state, reload };
+};
@@ -0,0 +1,59 @@
+// Output checks for AI-generated labels: a hijacked or confused model tends to return links, refusals,
+// prompt text or labels that have nothing to do with the requested career.
+
+const MAX_LABEL_LENGTH = 80;
+const MIN_RELEVANT_SHARE = 0.5;
+
+const UNSAFE_OUTPUT: { reason: string; pattern: RegExp }[] = [
+  { reason: 'contains a link', pattern: /\bhttps?:\/\/|\bwww\./i },
+  { reason: 'contains markup or code', pattern: /<\/?[a-z_|][^>]*>|```|\{\s*"/i },
+  { reason: 'talks about instructions or prompts', pattern: /\b(instructions?|system prompt|ignore (all|the|previous))\b|프롬프트|지시를? 무시/i },
+  { reason: 'is a refusal or assistant chatter', pattern: /\b(as an ai|language model|i cannot|i can't|i'm sorry|sorry,)\b|죄송합니다|할 수 없습니다/i }
+];
+
+// Words that mark a label as a job title even when it shares nothing with the input
+const JOB_TITLE_HINT = new RegExp(
+  '\\b(engineer|developer|manager|designer|analyst|scientist|researcher|architect|lead|director|consultant|' +
+  'specialist|officer|cto|ceo|cfo|coo|head|intern|administrator|editor|writer|teacher|professor|nurse|doctor|' +
+  'lawyer|accountant|planner|marketer|producer|strategist|expert|principal|founder|owner|artist|technician)\\b' +
+  '|(개발자|엔지니어|디자이너|매니저|분석가|리서처|연구원|컨설턴트|리드|전문가|기획자|마케터|대표|창업자|팀장|' +
+  '책임자|관리자|교사|교수|강사|작가|편집자|의사|간호사|변호사|회계사|세무사|설계사|기술자|사원|인턴|디렉터|아키텍트|' +
+  '과학자|프로듀서|CTO|CEO)',
+  'i'
+);
+
+const tokens = (text: string) =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(token => token.length >= 2);
+
+// Problem with a single label, if any
+export const labelProblem = (label: string): string | undefined => {
+  if (label.length > MAX_LABEL_LENGTH) return `is longer than ${MAX_LABEL_LENGTH} characters`;
+  if (/[\r\n]/.test(label)) return 'spans several lines';
+  return UNSAFE_OUTPUT.find(({ pattern }) => pattern.test(label))?.reason;
+};
+
+// Problems with a list of generated labels: every label must be safe, and most of them must either
+// share a word with the input (`subjects`) or read as a job title.
+export const checkLabels = (labels: string[], subjects: (string | undefined)[]): string[] => {
+  const problems: string[] = [];
+  labels.forEach((label, index) => {
+    const problem = labelProblem(label);
+    if (problem) problems.push(`[${index}] "${label.substring(0, MAX_LABEL_LENGTH)}" ${problem}`);
+  });
+
+  const subjectTokens = subjects.reduce<string[]>((all, subject) => all.concat(subject ? tokens(subject) : []), []);
+  const relevant = labels.filter(label =>
+    JOB_TITLE_HINT.test(label) || tokens(label).some(token => subjectTokens.indexOf(token) !== -1)
+  );
+  if (labels.length && relevant.length / labels.length < MIN_RELEVANT_SHARE) {
+    problems.push('most labels are not job titles related to the requested career');
+  }
+  return problems;
+};
+
+// Problems with free-text fields (descriptions, requirement lists); no relevance requirement
+export const checkTexts = (texts: string[]): string[] =>
+  texts
+    .map(text => ({ text, reason: UNSAFE_OUTPUT.find(({ pattern }) => pattern.test(text))?.reason }))
+    .filter(({ reason }) => reason)
+    .map(({ text, reason }) => `"${text.substring(0, MAX_LABEL_LENGTH)}" ${reason}`);
@@ -0,0 +1,25 @@
+// Patterns typical of attempts to steer the model through a user-supplied field.
+// Career goals, titles and hobbies never legitimately contain these.
+const INJECTION_PATTERNS: { name: string; pattern: RegExp }[] = [
+  // "Ignore all previous instructions", "Forget the rules above"; not "Override the legacy build system"
+  { name: 'override-instructions', pattern: /\b(ignore|disregard|forget|override)\b[^.\n]{0,40}(\b(previous|above|prior|earlier)\b[^.\n]{0,20}\b(instructions?|prompts?|rules)\b|\b(instructions?|prompts?|rules)\b[^.\n]{0,20}\b(previous|above|prior|earlier)\b)/i },
+  { name: 'override-instructions', pattern: /(이전|위의?|앞의?|모든)\s*(지시|명령|지침|프롬프트)[^.\n]{0,10}(무시|잊어)/ },
+  { name: 'role-change', pattern: /\b(you are now|from now on,? you|act as (an?|the) (ai|assistant|model|system)|pretend to be)\b/i },
+  { name: 'role-change', pattern: /(너는 이제|지금부터 너는|역할을 바꿔)/ },
+  // Asking for the prompt, not mentioning one ("Built system prompt evaluation tooling")
+  { name: 'prompt-exfiltration', pattern: /\byour (system prompt|instructions|initial prompt)\b|\b(print|show|reveal|repeat|output|display|leak|tell me)\b[^.\n]{0,20}\b(system|initial) prompt\b/i },
+  { name: 'prompt-exfiltration', pattern: /시스템 프롬프트[^.\n]{0,10}(보여|알려|출력|말해)/ },
+  { name: 'role-marker', pattern: /(^|\n)\s*(system|assistant)\s*:|<\|(im_start|im_end|system|endoftext)\|>/i },
+  { name: 'delimiter', pattern: /<\/?\s*user_data\s*>|```/i },
+  { name: 'json-breakout', pattern: /["'`]\s*[\]}]|[\]}]\s*,\s*["'`]|["'`]\s*:\s*["'`[{]/ },
+  { name: 'link', pattern: /\bhttps?:\/\/|\bwww\./i }
+];
+
+// Names of the injection patterns found in `text` (empty when it looks benign)
+export const screenUserText = (text: string): string[] => {
+  const found: string[] = [];
+  INJECTION_PATTERNS.forEach(({ name, pattern }) => {
+    if (pattern.test(text) && found.indexOf(name) === -1) found.push(name);
+  });
+  return found;
+};
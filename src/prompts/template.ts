@@ -0,0 +1,170 @@
+import { z } from 'zod';
+import { ChatMessage } from '../llm/types';
+import { getLocale, Locale } from '../locales';
+import { buildMessages } from './messages';
+
+// Versioned prompt templates (the files in ./templates) and how they are filled in.
+// Templates hold instructions only: user input still travels in the data block (see messages.ts).
+//
+//   {{name}}                             a variable
+//   {{#if name}}...{{else}}...{{/if}}    on one line; a line that a false block leaves empty is dropped
+
+export const TEMPLATE_ROUTES = ['mindmap', 'suggestions', 'careerDetails', 'expandCareer'] as const;
+
+// The AI routes whose prompts come from templates; the others still build theirs in code
+export type TemplateRoute = typeof TEMPLATE_ROUTES[number];
+
+type VariableType = 'string' | 'boolean';
+
+// The locale's wording, available to every template
+const LOCALE_VARIABLES = {
+  language: 'string',
+  languageUpper: 'string',
+  region: 'string',
+  currency: 'string',
+  titleStyle: 'string',
+  // The examples quoted and comma-separated, and as a JSON array
+  titleExamples: 'string',
+  titleExamplesJson: 'string',
+  salaryTemplate: 'string',
+  // Experience suffixes: entry level, 2-3 years, 5+ and 10+
+  experience0: 'string',
+  experience2to3: 'string',
+  experience5: 'string',
+  experience10: 'string'
+} as const;
+
+// What each route's code passes in besides the locale's wording
+const ROUTE_VARIABLES = {
+  mindmap: { hasPersonality: 'boolean', hasResume: 'boolean' },
+  suggestions: {},
+  careerDetails: { timeToReach: 'string' },
+  expandCareer: { topLevel: 'boolean' }
+} as const;
+
+type ValueOf<T extends VariableType> = T extends 'boolean' ? boolean : string;
+
+export type PromptVariables<R extends TemplateRoute> = {
+  [K in keyof typeof ROUTE_VARIABLES[R]]: typeof ROUTE_VARIABLES[R][K] extends VariableType
+    ? ValueOf<typeof ROUTE_VARIABLES[R][K]>
+    : never;
+};
+
+const variablesOf = (route: TemplateRoute): Record<string, VariableType> => ({ ...LOCALE_VARIABLES, ...ROUTE_VARIABLES[route] });
+
+const localeVariables = (locale: Locale): Record<keyof typeof LOCALE_VARIABLES, string> => {
+  const { language, region, currency, experienceLabel, prompts } = getLocale(locale);
+  return {
+    language,
+    languageUpper: language.toUpperCase(),
+    region,
+    currency,
+    titleStyle: prompts.titleStyle,
+    titleExamples: prompts.titleExamples.map(example => `"${example}"`).join(', '),
+    titleExamplesJson: JSON.stringify(prompts.titleExamples),
+    salaryTemplate: prompts.salaryTemplate,
+    experience0: experienceLabel(0),
+    experience2to3: experienceLabel(2, 3),
+    experience5: experienceLabel(5),
+    experience10: experienceLabel(10)
+  };
+};
+
+export type PromptTemplate<R extends TemplateRoute = TemplateRoute> = {
+  route: R;
+  version: string;
+  description: string;
+  system: string;
+  task: string;
+  // Sampling settings for calls made with this template; the route's configuration applies otherwise
+  settings: { temperature?: number; maxTokens?: number };
+};
+
+export const promptVersionSchema = z.string().regex(/^[A-Za-z0-9._-]{1,32}$/, 'must be 1-32 letters, digits, dots, dashes or underscores');
+
+// Long texts are written as arrays of lines
+const textSchema = z.union([z.string(), z.array(z.string()).transform(lines => lines.join('\n'))]);
+
+const templateFileSchema = z.object({
+  route: z.enum(TEMPLATE_ROUTES),
+  version: promptVersionSchema,
+  description: z.string().default(''),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().min(1).optional(),
+  system: textSchema,
+  task: textSchema
+}).strict();
+
+const TOKEN = /\{\{([^{}]*)\}\}/g;
+const BLOCK = /\{\{#if (\w+)\}\}(.*?)(?:\{\{else\}\}(.*?))?\{\{\/if\}\}/g;
+const VARIABLE = /\{\{(\w+)\}\}/g;
+
+// Unknown variables, conditions on non-boolean variables and blocks that are not closed on their line
+const textProblems = (text: string, route: TemplateRoute): string[] => {
+  const variables = variablesOf(route);
+  const problems: string[] = [];
+  text.split('\n').forEach(line => {
+    let match: RegExpExecArray | null;
+    TOKEN.lastIndex = 0;
+    while ((match = TOKEN.exec(line))) {
+      const token = match[1];
+      if (token === 'else' || token === '/if') continue;
+      const condition = /^#if (\w+)$/.exec(token);
+      if (condition) {
+        if (variables[condition[1]] !== 'boolean') problems.push(`{{#if ${condition[1]}}} needs one of the boolean variables of ${route}`);
+      } else if (/^\w+$/.test(token)) {
+        if (!variables[token]) problems.push(`unknown variable {{${token}}}`);
+      } else {
+        problems.push(`unknown tag {{${token}}}`);
+      }
+    }
+    if (/\{\{(#if |else\}\}|\/if\}\})/.test(line.replace(BLOCK, ''))) problems.push(`unclosed {{#if}} block in "${line}"`);
+  });
+  return problems;
+};
+
+// A template file's contents; throws listing everything wrong with it
+export const parsePromptTemplate = (value: unknown, source: string): PromptTemplate => {
+  const parsed = templateFileSchema.safeParse(value);
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map(issue => `${source}: ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw Object.assign(new Error(problems.join('; ')), { problems });
+  }
+  const { route, version, description, temperature, maxTokens, system, task } = parsed.data;
+  const problems = [...textProblems(system, route), ...textProblems(task, route)].map(problem => `${source}: ${problem}`);
+  if (problems.length) throw Object.assign(new Error(problems.join('; ')), { problems });
+  return {
+    route,
+    version,
+    description,
+    system,
+    task,
+    settings: {
+      ...(temperature !== undefined && { temperature }),
+      ...(maxTokens !== undefined && { maxTokens })
+    }
+  };
+};
+
+const fill = (text: string, values: Record<string, unknown>) => text
+  .split('\n')
+  .map(line => {
+    const filled = line
+      .replace(BLOCK, (_block, name: string, then: string, otherwise = '') => (values[name] ? then : otherwise))
+      .replace(VARIABLE, (_variable, name: string) => String(values[name]));
+    return filled === '' && line.indexOf('{{#if ') !== -1 ? null : filled;
+  })
+  .filter((line): line is string => line !== null)
+  .join('\n');
+
+// The messages of one AI call: the template filled in with the locale's wording and `variables`, then `data`
+// as the data block
+export const promptMessages = <R extends TemplateRoute>(
+  template: PromptTemplate<R>,
+  locale: Locale,
+  variables: PromptVariables<R>,
+  data: Record<string, unknown>
+): ChatMessage[] => {
+  const values = { ...localeVariables(locale), ...variables };
+  return buildMessages({ system: fill(template.system, values), task: fill(template.task, values), data });
+};
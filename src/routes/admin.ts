@@ -0,0 +1,104 @@
+import express from 'express';
+import { ResponseCache } from '../cache';
+import { findRole, TaxonomyEditor } from '../careers/taxonomy';
+import { sendError, sendInternalError } from '../http/errors';
+import { validate } from '../http/validate';
+import { logger } from '../observability/logger';
+import { PromptRegistry } from '../prompts/registry';
+import {
+  cacheInvalidateSchema,
+  taxonomyMatchQuerySchema,
+  taxonomyRoleBodySchema,
+  taxonomyRoleParamsSchema
+} from '../schemas/requests';
+
+// Consistency problems in the validation error format
+const problemDetails = (problems: string[]) => problems.map(message => ({ location: 'body', path: '', message }));
+
+export const createAdminRouter = (cache: ResponseCache, taxonomy: TaxonomyEditor, prompts: PromptRegistry) => {
+  const router = express.Router();
+
+  // Invalidate cached AI responses: { route?, input? }
+  // route + input removes one entry, route alone clears the route, an empty body clears everything
+  router.post('/cache/invalidate', validate({ body: cacheInvalidateSchema }), async (req, res) => {
+    try {
+      const { route, input } = req.body;
+      const invalidated = await cache.invalidate(route, input);
+      logger.info('Admin invalidated cache entries', { uid: req.user?.uid, invalidated, route, input });
+      res.json({ invalidated });
+    } catch (error) {
+      sendInternalError(res, 'Failed to invalidate cache', error);
+    }
+  });
+
+  // The career taxonomy in use: the curated version, the number of admin changes on top and every role
+  router.get('/taxonomy', (req, res) => {
+    res.json(taxonomy.state());
+  });
+
+  // Which role a title resolves to, for checking aliases before and after a change
+  router.get('/taxonomy/match', validate({ query: taxonomyMatchQuerySchema }), (req, res) => {
+    const { title } = req.query as any;
+    const match = findRole(title);
+    res.json({ title, match: match && { id: match.role.id, names: match.role.names, term: match.term, score: match.score } });
+  });
+
+  // Adds a role or replaces it entirely; its parent and next roles have to exist
+  router.put(
+    '/taxonomy/roles/:id',
+    validate({ params: taxonomyRoleParamsSchema, body: taxonomyRoleBodySchema }),
+    async (req, res) => {
+      try {
+        const role = { ...req.body, id: req.params.id };
+        const { created, problems } = await taxonomy.upsert(role, req.user?.uid as string);
+        if (problems.length) {
+          sendError(res, 400, 'VALIDATION_FAILED', 'The role does not fit the taxonomy', problemDetails(problems));
+          return;
+        }
+        logger.info(`Admin ${created ? 'added' : 'replaced'} taxonomy role`, { uid: req.user?.uid, role: role.id });
+        const { version, revision } = taxonomy.state();
+        res.status(created ? 201 : 200).json({ role, version, revision });
+      } catch (error) {
+        sendInternalError(res, 'Failed to save taxonomy role', error);
+      }
+    }
+  );
+
+  // Removes a role that no other role points at
+  router.delete('/taxonomy/roles/:id', validate({ params: taxonomyRoleParamsSchema }), async (req, res) => {
+    try {
+      const { found, problems } = await taxonomy.remove(req.params.id, req.user?.uid as string);
+      if (!found) {
+        sendError(res, 404, 'NOT_FOUND', `No taxonomy role "${req.params.id}"`);
+        return;
+      }
+      if (problems.length) {
+        sendError(res, 409, 'CONFLICT', 'Other roles still refer to this role', problems);
+        return;
+      }
+      logger.info('Admin removed taxonomy role', { uid: req.user?.uid, role: req.params.id });
+      res.status(204).end();
+    } catch (error) {
+      sendInternalError(res, 'Failed to remove taxonomy role', error);
+    }
+  });
+
+  // Prompt templates in use: where they come from, the active version per route, the experiments and every version
+  router.get('/prompts', (req, res) => {
+    res.json(prompts.state());
+  });
+
+  // Re-reads PROMPT_DIR; an invalid directory leaves the prompts in use unchanged
+  router.post('/prompts/reload', (req, res) => {
+    const problems = prompts.reload();
+    if (problems.length) {
+      sendError(res, 409, 'CONFLICT', 'The prompt templates have problems; the ones in use stay', problems);
+      return;
+    }
+    const state = prompts.state();
+    logger.info('Admin reloaded prompt templates', { uid: req.user?.uid, source: state.source, active: state.active });
+    res.json(state);
+  });
+
+  return router;
+};
@@ -0,0 +1,31 @@
+import express from 'express';
+import { CanContinue, expandGraph, SuggestTitles } from '../expansion/expand';
+import { sendInternalError } from '../http/errors';
+import { validate } from '../http/validate';
+import { expandGraphRequestSchema } from '../schemas/requests';
+
+// `suggest` produces related titles for a node label (the /api/suggestions logic, cached);
+// `canContinue` is checked between tiers
+export const createExpansionRouter = (suggest: SuggestTitles, canContinue?: CanContinue) => {
+  const router = express.Router();
+
+  // Expand a node of the client's current graph into a mergeable subgraph:
+  // { nodes, edges, nodeId, level?, breadth? } -> { parentId, nodes, edges, dataSource, truncated }
+  router.post('/', validate({ body: expandGraphRequestSchema }), async (req, res) => {
+    try {
+      const { nodes, edges, nodeId, level, breadth, locale } = req.body;
+      const expansion = await expandGraph(
+        { nodes, edges },
+        nodeId,
+        { level, breadth, locale },
+        suggest,
+        canContinue
+      );
+      res.json(expansion);
+    } catch (error) {
+      sendInternalError(res, 'Failed to expand graph', error);
+    }
+  });
+
+  return router;
+};
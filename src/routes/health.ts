@@ -0,0 +1,69 @@
+import express from 'express';
+import { Shutdown } from '../http/shutdown';
+import { LLMClient } from '../llm/client';
+import { logger } from '../observability/logger';
+import { Storage } from '../storage';
+
+type CheckResult = { status: 'ok' | 'failed'; latencyMs: number; error?: string };
+
+type HealthDependencies = {
+  storage: Pick<Storage, 'check'>;
+  llm: Pick<LLMClient, 'check'>;
+  shutdown: Pick<Shutdown, 'isShuttingDown'>;
+  // Per check; a slower backend counts as failed
+  timeoutMs: number;
+  // How long a successful model check is reused, so frequent probes do not each call the provider
+  llmCheckTtlMs?: number;
+  now?: () => number;
+};
+
+const runCheck = async (check: (signal: AbortSignal) => Promise<void>, timeoutMs: number, now: () => number): Promise<CheckResult> => {
+  const started = now();
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`Timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+  try {
+    await Promise.race([check(controller.signal), timeout]);
+    return { status: 'ok', latencyMs: now() - started };
+  } catch (error: any) {
+    return { status: 'failed', latencyMs: now() - started, error: error.message };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Unauthenticated probes for orchestrators: /healthz says the process is up, /readyz whether it can serve traffic
+export const createHealthRouter = ({ storage, llm, shutdown, timeoutMs, llmCheckTtlMs = 30000, now = Date.now }: HealthDependencies) => {
+  const router = express.Router();
+  const started = now();
+  let llmCheckedAt = -Infinity;
+
+  router.get('/healthz', (req, res) => {
+    res.json({ status: 'ok', uptimeSeconds: Math.round((now() - started) / 1000) });
+  });
+
+  router.get('/readyz', async (req, res) => {
+    const reuseLlm = now() - llmCheckedAt < llmCheckTtlMs;
+    const [storageResult, llmResult] = await Promise.all([
+      runCheck(() => storage.check(), timeoutMs, now),
+      reuseLlm ? Promise.resolve<CheckResult>({ status: 'ok', latencyMs: 0 }) : runCheck(signal => llm.check(signal), timeoutMs, now)
+    ]);
+    if (!reuseLlm && llmResult.status === 'ok') llmCheckedAt = now();
+
+    const checks = { storage: storageResult, llm: llmResult };
+    const ready = !shutdown.isShuttingDown() && storageResult.status === 'ok' && llmResult.status === 'ok';
+    if (!ready) logger.warn('Readiness check failed', { checks, shuttingDown: shutdown.isShuttingDown() });
+    res.status(ready ? 200 : 503).json({
+      status: ready ? 'ready' : 'not-ready',
+      ...(shutdown.isShuttingDown() && { shuttingDown: true }),
+      checks
+    });
+  });
+
+  return router;
+};
@@ -0,0 +1,132 @@
+import express from 'express';
+import { currentUser } from '../auth/middleware';
+import {
+  buildFallbackMindMap,
+  buildMindMapMessages,
+  fillMissingNodeLabels,
+  finalizeMindMap,
+  MindMapInput,
+  mindMapProblems,
+  personalityOf,
+  withRoleData
+} from '../careers/mindmap';
+import { validate } from '../http/validate';
+import { LLMClient } from '../llm/client';
+import { createArrayItemExtractor } from '../llm/streamingJson';
+import { correctionMessages, DataSource, generateStructured, validateContent } from '../llm/structured';
+import { logger } from '../observability/logger';
+import { aiParseFailures, recordAIResult } from '../observability/metrics';
+import { withRoleFit } from '../personality';
+import { choosePrompt } from '../prompts/registry';
+import { GenerateMindMapRequest, generateMindMapSchema } from '../schemas/requests';
+import { MindMap, mindMapNodeSchema, mindMapSchema } from '../schemas/responses';
+import { loadResume, ProfileStore } from '../profiles/store';
+import { openEventStream } from '../utils/sse';
+
+// Provisional placement while streaming; the `complete` event carries the real layout
+const PROVISIONAL_RADIUS = 300;
+const PROVISIONAL_SLOTS = 8;
+const provisionalPosition = (index: number) => {
+  if (index === 0) return { x: 0, y: 0 };
+  const angle = -Math.PI / 2 + ((index - 1) * Math.PI * 2) / PROVISIONAL_SLOTS;
+  return { x: Math.round(Math.cos(angle) * PROVISIONAL_RADIUS), y: Math.round(Math.sin(angle) * PROVISIONAL_RADIUS) };
+};
+
+// POST /api/generate-mindmap/stream — same body as /api/generate-mindmap, answered as Server-Sent Events:
+//   progress { stage }            started | generating | validating | reasking | fallback
+//   retry    { attempt, nextDelayMs }
+//   node     { node, edge? }      each node as soon as the model has written it
+//   complete { nodes, edges, dataSource, promptVersion }
+// Closing the connection cancels the upstream AI call.
+export const createMindMapStreamRouter = (llm: LLMClient, profiles: ProfileStore) => {
+  const router = express.Router();
+
+  router.post('/', validate({ body: generateMindMapSchema }), async (req, res) => {
+    const request: GenerateMindMapRequest = req.body;
+    const layoutMode = request.layout;
+    const uid = currentUser(req).uid;
+    const userData: MindMapInput = {
+      ...request,
+      resume: request.useProfile ? await loadResume(profiles, uid) : undefined
+    };
+    const { template } = choosePrompt('mindmap', uid);
+    const promptVersion = template.version;
+
+    const personality = personalityOf(userData);
+
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        logger.info('Client disconnected, aborting mind map generation');
+        controller.abort();
+      }
+    });
+    const stream = openEventStream(res);
+    const checks = { repair: fillMissingNodeLabels, check: mindMapProblems(userData) };
+    const callOptions = {
+      ...template.settings,
+      signal: controller.signal,
+      onRetry: (attempt: number, delay: number) => stream.send('retry', { attempt, nextDelayMs: delay })
+    };
+
+    try {
+      stream.send('progress', { stage: 'started' });
+      const messages = buildMindMapMessages(userData, request.locale, template);
+      const upstream = await llm.stream('mindmap', messages, callOptions);
+      stream.send('progress', { stage: 'generating' });
+
+      const extractor = createArrayItemExtractor('nodes');
+      const emitted: string[] = [];
+      for await (const chunk of upstream.chunks) {
+        extractor.push(chunk).forEach(item => {
+          const parsed = mindMapNodeSchema.safeParse(fillMissingNodeLabels({ nodes: [item] }).nodes[0]);
+          if (!parsed.success || emitted.indexOf(parsed.data.id) !== -1) return;
+          const rootId = emitted[0];
+          const [node] = withRoleFit(
+            withRoleData([{ ...parsed.data, position: provisionalPosition(emitted.length) }], request.locale),
+            rootId ?? parsed.data.id,
+            personality,
+            request.locale
+          );
+          stream.send('node', {
+            node,
+            ...(rootId && { edge: { id: `e${rootId}-${node.id}`, source: rootId, target: node.id } })
+          });
+          emitted.push(node.id);
+        });
+      }
+
+      stream.send('progress', { stage: 'validating' });
+      const result = validateContent(mindMapSchema, extractor.text(), checks);
+      let mindMap: MindMap | undefined = result.data;
+      let dataSource: DataSource = result.repaired ? 'ai-repaired' : 'ai-validated';
+      if (mindMap) {
+        recordAIResult('mindmap', dataSource);
+      } else {
+        // generateStructured records the outcome of the re-ask
+        aiParseFailures.inc({ route: 'mindmap' });
+        stream.send('progress', { stage: 'reasking', errors: result.errors });
+        const reasked = await generateStructured(
+          llm,
+          'mindmap',
+          correctionMessages(messages, extractor.text(), result.errors),
+          mindMapSchema,
+          { ...callOptions, ...checks }
+        );
+        mindMap = reasked.data;
+        dataSource = 'ai-repaired';
+      }
+      stream.send('complete', { ...finalizeMindMap(mindMap, layoutMode, request.locale, personality), dataSource, promptVersion });
+    } catch (aiError: any) {
+      if (controller.signal.aborted) return;
+      logger.error('AI service failed during streaming, using fallback', { route: 'mindmap', error: aiError });
+      recordAIResult('mindmap', 'fallback');
+      stream.send('progress', { stage: 'fallback' });
+      stream.send('complete', { ...buildFallbackMindMap(userData, layoutMode, request.locale), dataSource: 'fallback', promptVersion });
+    } finally {
+      stream.close();
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,395 @@
+import express, { Request, RequestHandler, Response } from 'express';
+import { currentUser } from '../auth/middleware';
+import { CollaborationHub } from '../collaboration';
+import { sendError, sendInternalError } from '../http/errors';
+import { validate } from '../http/validate';
+import { layoutMindMap } from '../layout';
+import { diffMindMaps } from '../mindmaps/diff';
+import { getFormat, PortableMindMap } from '../mindmaps/formats';
+import { isMember, MindMapContent, MindMapRepository, StoredMindMap } from '../mindmaps/repository';
+import {
+  AttachedSkillGap,
+  attachSkillGapSchema,
+  collaboratorsSchema,
+  diffQuerySchema,
+  exportQuerySchema,
+  importQuerySchema,
+  mindMapContentSchema,
+  MindMapContentRequest,
+  mindMapListQuerySchema,
+  mindMapParamsSchema,
+  mindMapPatchSchema,
+  nodeParamsSchema,
+  revisionParamsSchema,
+  skillGapItemParamsSchema,
+  skillGapProgressSchema
+} from '../schemas/requests';
+
+// Mounted behind requireAuth, so every request carries a verified user
+const getOwnerId = (req: Request): string => currentUser(req).uid;
+
+const MAX_IMPORT_BYTES = '2mb';
+
+// ASCII-only, so it is safe in a Content-Disposition header
+const fileNameOf = (title: string) =>
+  title.normalize('NFKD').replace(/[^\w\s-]/g, '').trim().replace(/\s+/g, '-').substring(0, 80);
+
+// `layoutLimit` (the per-user rate limit) applies to imports and to saves that ask for a re-layout
+export const createMindMapRouter = (
+  mindMaps: MindMapRepository,
+  collaboration: Pick<CollaborationHub, 'isLive' | 'dropNonMembers'>,
+  layoutLimit: RequestHandler
+) => {
+  const router = express.Router();
+
+  // Laying out a large map keeps the event loop busy, so only those saves count against the limit
+  const limitLayout: RequestHandler = (req, res, next) => {
+    if (req.body?.layout) layoutLimit(req, res, next);
+    else next();
+  };
+
+  // Sends 404/403 and returns null unless the caller owns the map (or, for reads, collaborates on it)
+  const loadMap = async (req: Request, res: Response, access: 'owner' | 'member'): Promise<StoredMindMap | null> => {
+    const uid = getOwnerId(req);
+    const map = await mindMaps.get(req.params.id);
+    if (!map) {
+      sendError(res, 404, 'NOT_FOUND', 'Mind map not found');
+      return null;
+    }
+    if (access === 'owner' ? map.ownerId !== uid : !isMember(map, uid)) {
+      sendError(res, 403, 'FORBIDDEN', 'You do not have access to this mind map');
+      return null;
+    }
+    return map;
+  };
+
+  // As loadMap for the owner, plus 409 while the map is open for live editing: the session would overwrite the change
+  const loadWritableMap = async (req: Request, res: Response): Promise<StoredMindMap | null> => {
+    const map = await loadMap(req, res, 'owner');
+    if (map && collaboration.isLive(map.id)) {
+      sendError(res, 409, 'CONFLICT', 'The mind map is being edited live; make changes through the live session');
+      return null;
+    }
+    return map;
+  };
+
+  // Applies the optional re-layout to a validated body
+  const readContent = (body: MindMapContentRequest): Partial<MindMapContent> => {
+    const { layout, ...content } = body;
+    if (layout && content.nodes) {
+      content.nodes = layoutMindMap({ nodes: content.nodes, edges: content.edges || [] }, { mode: layout }).nodes;
+    }
+    return content;
+  };
+
+  // Create a mind map
+  router.post('/', validate({ body: mindMapContentSchema }), limitLayout, async (req, res) => {
+    try {
+      const content = readContent(req.body);
+      const map = await mindMaps.create(getOwnerId(req), {
+        title: content.title ?? '',
+        nodes: content.nodes || [],
+        edges: content.edges || []
+      });
+      res.json({ id: map.id, version: map.version });
+    } catch (error) {
+      sendInternalError(res, 'Failed to save mind map', error);
+    }
+  });
+
+  // Create a mind map from an exported document: ?format=json|graphml|mermaid|opml|freemind|markdown.
+  // Ids are kept; if any node has no position, the map is laid out with ?layout=.
+  router.post(
+    '/import',
+    express.text({ type: () => true, limit: MAX_IMPORT_BYTES }),
+    validate({ query: importQuerySchema }),
+    // Parsing, and laying out documents without positions
+    layoutLimit,
+    async (req, res) => {
+      const { format: formatName, title, layout } = req.query as any;
+      // JSON bodies have already been parsed by the app-wide JSON parser
+      const text = typeof req.body === 'string'
+        ? req.body
+        : formatName === 'json' && req.body && typeof req.body === 'object' ? JSON.stringify(req.body) : undefined;
+      if (!text) {
+        sendError(res, 415, 'UNSUPPORTED_MEDIA_TYPE', `Send the ${formatName} document as the request body`);
+        return;
+      }
+
+      let imported: PortableMindMap;
+      try {
+        imported = getFormat(formatName).parse(text);
+      } catch (error: any) {
+        sendError(res, 400, 'VALIDATION_FAILED', `Could not read the ${formatName} document`, [
+          { location: 'body', path: '', message: error.message }
+        ]);
+        return;
+      }
+      const result = mindMapContentSchema.safeParse({ ...imported, title: title ?? imported.title });
+      if (!result.success) {
+        sendError(res, 400, 'VALIDATION_FAILED', 'The imported mind map is not valid', result.error.issues.map(issue => ({
+          location: 'body',
+          path: issue.path.join('.'),
+          message: issue.message
+        })));
+        return;
+      }
+
+      try {
+        const content = readContent({
+          ...result.data,
+          layout: result.data.nodes.some(node => !node.position) ? layout : undefined
+        });
+        const map = await mindMaps.create(getOwnerId(req), {
+          title: content.title ?? '',
+          nodes: content.nodes || [],
+          edges: content.edges || []
+        });
+        res.json(map);
+      } catch (error) {
+        sendInternalError(res, 'Failed to import mind map', error);
+      }
+    }
+  );
+
+  // List the caller's mind maps: ?limit=&cursor=&sort=createdAt|updatedAt&order=asc|desc
+  // The cursor for the next page is returned in the X-Next-Cursor header.
+  router.get('/', validate({ query: mindMapListQuerySchema }), async (req, res) => {
+    try {
+      const ownerId = getOwnerId(req);
+      const { limit: pageSize, cursor, sort, order } = req.query as any;
+
+      if (cursor) {
+        const cursorMap = await mindMaps.get(cursor);
+        if (!cursorMap || cursorMap.ownerId !== ownerId) {
+          sendError(res, 400, 'VALIDATION_FAILED', 'Invalid cursor', [{ location: 'query', path: 'cursor', message: 'Unknown cursor' }]);
+          return;
+        }
+      }
+
+      const page = await mindMaps.list({ ownerId, limit: pageSize, cursor, sort, order });
+      if (page.nextCursor) {
+        res.setHeader('X-Next-Cursor', page.nextCursor);
+      }
+      res.json(page.items);
+    } catch (error) {
+      sendInternalError(res, 'Failed to fetch mind maps', error);
+    }
+  });
+
+  router.get('/:id', validate({ params: mindMapParamsSchema }), async (req, res) => {
+    try {
+      const map = await loadMap(req, res, 'member');
+      if (!map) return;
+      res.json(map);
+    } catch (error) {
+      sendInternalError(res, 'Failed to fetch mind map', error);
+    }
+  });
+
+  // PUT replaces the whole map, PATCH only the fields that are sent
+  const update = (partial: boolean) => async (req: Request, res: Response) => {
+    try {
+      const map = await loadWritableMap(req, res);
+      if (!map) return;
+      const content = readContent(req.body);
+      if (!partial && content.title === undefined) content.title = '';
+      const saved = await mindMaps.saveRevision(map.id, getOwnerId(req), content);
+      res.json(saved);
+    } catch (error) {
+      sendInternalError(res, 'Failed to update mind map', error);
+    }
+  };
+  // Download in another format: ?format= as for /import (default json)
+  router.get('/:id/export', validate({ params: mindMapParamsSchema, query: exportQuerySchema }), async (req, res) => {
+    try {
+      const map = await loadMap(req, res, 'member');
+      if (!map) return;
+      const { title = '', nodes = [], edges = [] } = map;
+      const format = getFormat((req.query as any).format);
+      const filename = `${fileNameOf(title) || map.id}.${format.extension}`;
+      res.setHeader('Content-Type', `${format.contentType}; charset=utf-8`);
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(format.serialize({ title, nodes, edges }));
+    } catch (error) {
+      sendInternalError(res, 'Failed to export mind map', error);
+    }
+  });
+
+  router.put('/:id', validate({ params: mindMapParamsSchema, body: mindMapContentSchema }), limitLayout, update(false));
+  router.patch('/:id', validate({ params: mindMapParamsSchema, body: mindMapPatchSchema }), limitLayout, update(true));
+
+  // Share the map for live editing (/api/mindmap/:id/live) with other users; replaces the whole list
+  router.put('/:id/collaborators', validate({ params: mindMapParamsSchema, body: collaboratorsSchema }), async (req, res) => {
+    try {
+      const map = await loadMap(req, res, 'owner');
+      if (!map) return;
+      const uids = Array.from(new Set<string>(req.body.uids)).filter(uid => uid !== map.ownerId);
+      const saved = await mindMaps.setCollaborators(map.id, uids);
+      // Removed collaborators lose their live connection too
+      collaboration.dropNonMembers(saved);
+      res.json({ collaborators: saved.collaborators || [] });
+    } catch (error) {
+      sendInternalError(res, 'Failed to update collaborators', error);
+    }
+  });
+
+  router.delete('/:id', validate({ params: mindMapParamsSchema }), async (req, res) => {
+    try {
+      const map = await loadWritableMap(req, res);
+      if (!map) return;
+      await mindMaps.remove(map.id);
+      res.status(204).end();
+    } catch (error) {
+      sendInternalError(res, 'Failed to delete mind map', error);
+    }
+  });
+
+  // Rewrites one node's data as a new revision. `change` returns the new data, or a message for a 404.
+  const updateNodeData = async (
+    req: Request,
+    res: Response,
+    change: (data: Record<string, any>) => Record<string, any> | string
+  ) => {
+    const map = await loadWritableMap(req, res);
+    if (!map) return null;
+    const nodes: any[] = map.nodes || [];
+    const index = nodes.findIndex(node => String(node.id) === req.params.nodeId);
+    if (index === -1) {
+      sendError(res, 404, 'NOT_FOUND', 'Node not found');
+      return null;
+    }
+    const data = change(nodes[index].data || {});
+    if (typeof data === 'string') {
+      sendError(res, 404, 'NOT_FOUND', data);
+      return null;
+    }
+    const next = nodes.map((node, idx) => (idx === index ? { ...node, data } : node));
+    await mindMaps.saveRevision(map.id, getOwnerId(req), { nodes: next });
+    return data;
+  };
+
+  // Skill gaps (see /api/skill-gap) are kept on the node of the role they lead to, so progress can be tracked
+  router.put(
+    '/:id/nodes/:nodeId/skill-gap',
+    validate({ params: nodeParamsSchema, body: attachSkillGapSchema }),
+    async (req, res) => {
+      try {
+        const skillGap = { ...req.body, attachedAt: new Date().toISOString() };
+        const data = await updateNodeData(req, res, current => ({ ...current, skillGap }));
+        if (data) res.json(data.skillGap);
+      } catch (error) {
+        sendInternalError(res, 'Failed to attach skill gap', error);
+      }
+    }
+  );
+
+  router.patch(
+    '/:id/nodes/:nodeId/skill-gap/items/:itemId',
+    validate({ params: skillGapItemParamsSchema, body: skillGapProgressSchema }),
+    async (req, res) => {
+      try {
+        const data = await updateNodeData(req, res, current => {
+          const skillGap: AttachedSkillGap | undefined = current.skillGap;
+          if (!skillGap?.items.some(item => item.id === req.params.itemId)) return 'Skill gap item not found';
+          const items = skillGap.items.map(item =>
+            item.id === req.params.itemId ? { ...item, progress: req.body.progress } : item
+          );
+          return { ...current, skillGap: { ...skillGap, items } };
+        });
+        if (data) res.json(data.skillGap);
+      } catch (error) {
+        sendInternalError(res, 'Failed to update skill gap progress', error);
+      }
+    }
+  );
+
+  router.delete('/:id/nodes/:nodeId/skill-gap', validate({ params: nodeParamsSchema }), async (req, res) => {
+    try {
+      const data = await updateNodeData(req, res, current => {
+        if (!current.skillGap) return 'No skill gap attached to this node';
+        const { skillGap, ...rest } = current;
+        return rest;
+      });
+      if (data) res.status(204).end();
+    } catch (error) {
+      sendInternalError(res, 'Failed to remove skill gap', error);
+    }
+  });
+
+  // Revision history, newest first (summaries only)
+  router.get('/:id/revisions', validate({ params: mindMapParamsSchema }), async (req, res) => {
+    try {
+      const map = await loadMap(req, res, 'member');
+      if (!map) return;
+      const revisions = await mindMaps.listRevisions(map.id);
+      res.json(revisions.map(revision => ({
+        version: revision.version,
+        title: revision.title,
+        createdAt: revision.createdAt,
+        nodeCount: (revision.nodes || []).length,
+        edgeCount: (revision.edges || []).length,
+        ...(revision.restoredFrom !== undefined && { restoredFrom: revision.restoredFrom })
+      })));
+    } catch (error) {
+      sendInternalError(res, 'Failed to fetch revisions', error);
+    }
+  });
+
+  router.get('/:id/revisions/:version', validate({ params: revisionParamsSchema }), async (req, res) => {
+    try {
+      const map = await loadMap(req, res, 'member');
+      if (!map) return;
+      const revision = await mindMaps.getRevision(map.id, Number(req.params.version));
+      if (!revision) {
+        sendError(res, 404, 'NOT_FOUND', 'Revision not found');
+        return;
+      }
+      res.json(revision);
+    } catch (error) {
+      sendInternalError(res, 'Failed to fetch revision', error);
+    }
+  });
+
+  // Diff two revisions: ?from=<version>&to=<version> (to defaults to the latest)
+  router.get('/:id/diff', validate({ params: mindMapParamsSchema, query: diffQuerySchema }), async (req, res) => {
+    try {
+      const map = await loadMap(req, res, 'member');
+      if (!map) return;
+      const from = Number(req.query.from);
+      const to = Number(req.query.to ?? map.version);
+      const [before, after] = await Promise.all([mindMaps.getRevision(map.id, from), mindMaps.getRevision(map.id, to)]);
+      if (!before || !after) {
+        sendError(res, 404, 'NOT_FOUND', 'Revision not found');
+        return;
+      }
+      res.json({
+        from: before.version,
+        to: after.version,
+        ...diffMindMaps(before, after)
+      });
+    } catch (error) {
+      sendInternalError(res, 'Failed to diff revisions', error);
+    }
+  });
+
+  // Restoring never rewrites history: the old content becomes a new revision
+  router.post('/:id/revisions/:version/restore', validate({ params: revisionParamsSchema }), async (req, res) => {
+    try {
+      const map = await loadWritableMap(req, res);
+      if (!map) return;
+      const revision = await mindMaps.getRevision(map.id, Number(req.params.version));
+      if (!revision) {
+        sendError(res, 404, 'NOT_FOUND', 'Revision not found');
+        return;
+      }
+      const { title, nodes, edges, version } = revision;
+      const saved = await mindMaps.saveRevision(map.id, getOwnerId(req), { title, nodes, edges }, version);
+      res.json(saved);
+    } catch (error) {
+      sendInternalError(res, 'Failed to restore revision', error);
+    }
+  });
+
+  return router;
+};
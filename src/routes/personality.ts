@@ -0,0 +1,37 @@
+import express from 'express';
+import { sendError } from '../http/errors';
+import { validate } from '../http/validate';
+import { Answers, hollandCodeOf, QUESTIONS, questionnaire, scoreAnswers } from '../personality';
+import { personalityAnswersRequestSchema, questionnaireQuerySchema } from '../schemas/requests';
+
+// The built-in personality questionnaire. Nothing is stored: clients send the scored profile back as
+// `personality` when generating a mind map.
+export const createPersonalityRouter = () => {
+  const router = express.Router();
+
+  // GET /api/personality/questionnaire?locale= — the statements and the answer scale
+  router.get('/questionnaire', validate({ query: questionnaireQuerySchema }), (req, res) => {
+    const { locale } = req.query as any;
+    res.json(questionnaire(locale));
+  });
+
+  // POST /api/personality/score — { answers: { [questionId]: 1-5 } } → the profile they add up to
+  router.post('/score', validate({ body: personalityAnswersRequestSchema }), (req, res) => {
+    const answers: Answers = req.body.answers;
+    const personality = scoreAnswers(answers);
+    if (!personality.mbti && !personality.riasec && !personality.bigFive) {
+      sendError(res, 400, 'VALIDATION_FAILED', 'Request validation failed', [
+        { location: 'body', path: 'answers', message: 'Answer at least one question per part of riasec, bigFive or mbti' }
+      ]);
+      return;
+    }
+    res.json({
+      personality,
+      hollandCode: personality.riasec ? hollandCodeOf(personality.riasec) : null,
+      answered: Object.keys(answers).length,
+      total: QUESTIONS.length
+    });
+  });
+
+  return router;
+};
@@ -0,0 +1,103 @@
+import express from 'express';
+import { currentUser } from '../auth/middleware';
+import { sendError, sendInternalError } from '../http/errors';
+import { validate } from '../http/validate';
+import { LLMClient } from '../llm/client';
+import { extractResumeProfile, screenResume } from '../profiles/resume';
+import { ProfileStore } from '../profiles/store';
+import { RESUME_CONTENT_TYPES, resumeFormatOf, resumeText } from '../profiles/text';
+import { resumeQuerySchema } from '../schemas/requests';
+
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+// PUT /api/profile/resume — the resume as the raw body (text/plain, text/markdown or application/pdf), ?locale=
+// Extracts the structured profile, stores it for the caller and returns it. Mounted behind the AI route middleware.
+export const createResumeRouter = (store: ProfileStore, llm: LLMClient) => {
+  const router = express.Router();
+
+  router.put(
+    '/',
+    express.raw({ type: RESUME_CONTENT_TYPES, limit: MAX_UPLOAD_BYTES }),
+    validate({ query: resumeQuerySchema }),
+    async (req, res) => {
+      const format = resumeFormatOf(req.header('content-type'));
+      if (!format || !Buffer.isBuffer(req.body)) {
+        sendError(res, 415, 'UNSUPPORTED_MEDIA_TYPE', `Send the resume as ${RESUME_CONTENT_TYPES.join(', ')}`);
+        return;
+      }
+
+      let text: string;
+      try {
+        text = await resumeText(req.body, format);
+      } catch (error: any) {
+        sendError(res, 400, 'VALIDATION_FAILED', 'Could not read the resume', [
+          { location: 'body', path: '', message: error?.message || 'Unreadable document' }
+        ]);
+        return;
+      }
+      if (!text) {
+        sendError(res, 400, 'VALIDATION_FAILED', 'Request validation failed', [
+          { location: 'body', path: '', message: 'The resume contains no text' }
+        ]);
+        return;
+      }
+      const found = screenResume(text);
+      if (found.length) {
+        sendError(res, 400, 'VALIDATION_FAILED', 'Request validation failed', [
+          { location: 'body', path: '', message: `Looks like an instruction to the AI rather than a resume (${found.join(', ')})` }
+        ]);
+        return;
+      }
+
+      try {
+        const uid = currentUser(req).uid;
+        const { locale } = req.query as any;
+        const { profile, dataSource, promptVersion } = await extractResumeProfile(llm, text, locale);
+        const stored = {
+          uid,
+          resume: profile,
+          source: { format, characters: text.length, dataSource, promptVersion },
+          updatedAt: new Date().toISOString()
+        };
+        await store.save(stored);
+        res.json(stored);
+      } catch (error) {
+        sendInternalError(res, 'Failed to import resume', error);
+      }
+    }
+  );
+
+  return router;
+};
+
+// GET/DELETE /api/profile — the caller's stored profile. Mounted behind requireAuth.
+export const createProfileRouter = (store: ProfileStore) => {
+  const router = express.Router();
+
+  router.get('/', async (req, res) => {
+    try {
+      const profile = await store.get(currentUser(req).uid);
+      if (!profile) {
+        sendError(res, 404, 'NOT_FOUND', 'No profile has been imported yet');
+        return;
+      }
+      res.json(profile);
+    } catch (error) {
+      sendInternalError(res, 'Failed to load profile', error);
+    }
+  });
+
+  router.delete('/', async (req, res) => {
+    try {
+      if (!(await store.remove(currentUser(req).uid))) {
+        sendError(res, 404, 'NOT_FOUND', 'No profile has been imported yet');
+        return;
+      }
+      res.status(204).end();
+    } catch (error) {
+      sendInternalError(res, 'Failed to delete profile', error);
+    }
+  });
+
+  return router;
+};
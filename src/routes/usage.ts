@@ -0,0 +1,20 @@
+import express from 'express';
+import { currentUser } from '../auth/middleware';
+import { sendInternalError } from '../http/errors';
+import { getQuotaReport, QuotaLimits, UsageLedger } from '../usage';
+
+export const createUsageRouter = (ledger: UsageLedger, limits: QuotaLimits) => {
+  const router = express.Router();
+
+  // The caller's token consumption for the current UTC day and month, with quota and reset time
+  router.get('/', async (req, res) => {
+    try {
+      const uid = currentUser(req).uid;
+      res.json({ uid, ...(await getQuotaReport(ledger, limits, uid)) });
+    } catch (error) {
+      sendInternalError(res, 'Failed to load usage', error);
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,363 @@
+import { z } from 'zod';
+import { careerRoleSchema, hollandCodeSchema, roleIdSchema } from '../careers/taxonomy/schema';
+import { LAYOUT_MODES, LayoutMode } from '../layout';
+import { LLM_ROUTES } from '../llm/config';
+import { LLMRoute } from '../llm/types';
+import { DEFAULT_LOCALE, Locale, SUPPORTED_LOCALES } from '../locales';
+import { MINDMAP_FORMAT_NAMES, MindMapFormatName, resolveFormatName } from '../mindmaps/formats';
+import {
+  ANSWER_MAX,
+  ANSWER_MIN,
+  BIG_FIVE_TRAITS,
+  MBTI_AXES,
+  MBTI_TYPES,
+  mbtiProfile,
+  MbtiType,
+  PersonalityProfile,
+  QUESTION_IDS,
+  RIASEC_TYPES,
+  riasecFromCode
+} from '../personality';
+import { screenUserText } from '../prompts/screening';
+import { GAP_STATUSES } from './responses';
+
+// Runtime schemas for request bodies, queries and params (see src/http/validate.ts)
+
+const MAX_LABEL_LENGTH = 200;
+const MAX_TEXT_LENGTH = 500;
+export const MAX_GRAPH_NODES = 500;
+export const MAX_GRAPH_EDGES = 1000;
+
+// Text that ends up in an AI prompt is screened for injection attempts
+const screened = (schema: z.ZodString) => schema.superRefine((value, ctx) => {
+  const found = screenUserText(value);
+  if (found.length) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Looks like an instruction to the AI rather than profile data (${found.join(', ')})`
+    });
+  }
+});
+
+// Trimmed text; empty strings count as missing
+const optionalText = (max: number) => z.preprocess(
+  value => (typeof value === 'string' && value.trim() === '' ? undefined : value),
+  z.union([z.string(), z.number()]).transform(String).pipe(screened(z.string().trim().max(max))).optional()
+);
+const requiredText = (max: number) =>
+  z.union([z.string(), z.number()]).transform(String).pipe(screened(z.string().trim().min(1).max(max)));
+
+// Accepts "true"/"false" as well, since some clients send form-style values
+const flag = z.preprocess(
+  value => (value === 'true' ? true : value === 'false' ? false : value),
+  z.boolean()
+);
+
+const mbtiSchema = z.string().trim().toUpperCase().refine(
+  (value): value is MbtiType => (MBTI_TYPES as readonly string[]).indexOf(value) !== -1,
+  { message: 'mbti must be one of the 16 MBTI types, e.g. INTJ' }
+);
+
+// Every personality score is 0-100
+const scoreSchema = z.coerce.number().min(0).max(100);
+const scoresOf = <K extends string>(keys: readonly K[]) =>
+  z.object(keys.reduce((shape, key) => ({ ...shape, [key]: scoreSchema }), {} as Record<K, typeof scoreSchema>));
+
+// See src/personality/model.ts. RIASEC takes scores or a bare Holland code such as "IAS"
+export const personalitySchema = z.object({
+  mbti: z.object({
+    type: mbtiSchema,
+    // Omitted axes count as moderate
+    strengths: scoresOf(MBTI_AXES).partial().default({})
+  }).transform(({ type, strengths }) => mbtiProfile(type, strengths)).optional(),
+  riasec: z.union([hollandCodeSchema.transform(riasecFromCode), scoresOf(RIASEC_TYPES)]).optional(),
+  bigFive: scoresOf(BIG_FIVE_TRAITS).optional()
+}).refine(
+  value => value.mbti || value.riasec || value.bigFive,
+  { message: 'needs at least one of mbti, riasec or bigFive' }
+) as z.ZodType<PersonalityProfile, z.ZodTypeDef, unknown>;
+
+// Answers to the built-in questionnaire by question id; unanswered questions are left out
+const answersSchema = z.object(QUESTION_IDS.reduce(
+  (shape, id) => ({ ...shape, [id]: z.coerce.number().int().min(ANSWER_MIN).max(ANSWER_MAX).optional() }),
+  {} as Record<string, z.ZodOptional<z.ZodNumber>>
+)).strict();
+
+const layoutSchema = z.enum(LAYOUT_MODES as [LayoutMode, ...LayoutMode[]]);
+
+// Language, experience label format and salary region of generated content
+const localeSchema = z.enum(SUPPORTED_LOCALES as [Locale, ...Locale[]]).default(DEFAULT_LOCALE);
+
+const idSchema = z.union([z.string().trim().min(1).max(100), z.number()]).transform(String);
+
+export const profileSchema = z.object({
+  aim: optionalText(MAX_LABEL_LENGTH),
+  jobPath: optionalText(MAX_LABEL_LENGTH),
+  hobby: optionalText(MAX_LABEL_LENGTH),
+  mbti: z.preprocess(value => (value === '' || value === null ? undefined : value), mbtiSchema.optional()),
+  salary: optionalText(50),
+  roleModel: optionalText(MAX_LABEL_LENGTH),
+  // Fuller than mbti; when both are sent, personality.mbti wins
+  personality: personalitySchema.optional()
+});
+export type Profile = z.infer<typeof profileSchema>;
+
+export const generateMindMapSchema = profileSchema.extend({
+  layout: layoutSchema.default('radial'),
+  centerOnly: flag.optional(),
+  // Seed generation with the profile imported from the caller's resume, if there is one
+  useProfile: flag.default(true),
+  locale: localeSchema
+}).refine(
+  value => value.centerOnly || value.aim || value.jobPath || value.hobby,
+  { message: 'At least one of aim, jobPath or hobby is required', path: ['aim'] }
+);
+export type GenerateMindMapRequest = z.infer<typeof generateMindMapSchema>;
+
+export const questionnaireQuerySchema = z.object({
+  locale: localeSchema
+});
+
+export const personalityAnswersRequestSchema = z.object({
+  answers: answersSchema
+});
+
+export const suggestionsRequestSchema = z.object({
+  nodeContent: requiredText(MAX_LABEL_LENGTH),
+  locale: localeSchema
+});
+
+export const careerDetailsRequestSchema = z.object({
+  careerTitle: requiredText(MAX_LABEL_LENGTH),
+  locale: localeSchema
+});
+
+export const expandCareerRequestSchema = z.object({
+  careerTitle: requiredText(MAX_LABEL_LENGTH),
+  level: z.coerce.number().int().min(1).max(5).default(1),
+  locale: localeSchema
+});
+
+export const careerPathRequestSchema = z.object({
+  currentRole: requiredText(MAX_LABEL_LENGTH),
+  targetRole: requiredText(MAX_LABEL_LENGTH),
+  // A route reads best as a left-to-right chain
+  layout: layoutSchema.default('tree-lr'),
+  locale: localeSchema
+});
+
+// The resume itself is the raw request body (see src/routes/profile.ts)
+export const resumeQuerySchema = z.object({
+  locale: localeSchema
+});
+
+// A profile sent inline, in the shape extracted from resumes
+const profileInputSchema = z.object({
+  currentRole: optionalText(MAX_LABEL_LENGTH).transform(value => value ?? null),
+  yearsOfExperience: z.coerce.number().min(0).max(60).default(0),
+  skills: z.array(requiredText(MAX_LABEL_LENGTH)).max(50).default([]),
+  education: z.array(requiredText(MAX_LABEL_LENGTH)).max(20).default([]),
+  certifications: z.array(requiredText(MAX_LABEL_LENGTH)).max(30).default([])
+});
+
+// Without profile or profileId the caller's stored profile is used
+export const skillGapRequestSchema = z.object({
+  careerTitle: requiredText(MAX_LABEL_LENGTH),
+  profile: profileInputSchema.optional(),
+  // Stored profiles are keyed by uid
+  profileId: z.string().trim().min(1).max(128).optional(),
+  locale: localeSchema
+}).refine(
+  value => !(value.profile && value.profileId),
+  { message: 'Send either profile or profileId, not both', path: ['profileId'] }
+);
+
+// Graph shapes sent by the client; extra fields (style, type, ...) are kept as-is
+export const graphNodeSchema = z.object({
+  id: idSchema,
+  data: z.object({
+    label: z.string().max(MAX_LABEL_LENGTH)
+  }).passthrough(),
+  position: z.object({
+    x: z.number(),
+    y: z.number()
+  }).optional()
+}).passthrough();
+
+// Edge ids follow the e<source>-<target> convention when the client leaves them out
+export const graphEdgeSchema = z.object({
+  id: idSchema.optional(),
+  source: idSchema,
+  target: idSchema
+}).passthrough().transform(edge => ({ ...edge, id: edge.id ?? `e${edge.source}-${edge.target}` }));
+
+export const expandGraphRequestSchema = z.object({
+  nodes: z.array(graphNodeSchema).min(1).max(MAX_GRAPH_NODES),
+  edges: z.array(graphEdgeSchema).max(MAX_GRAPH_EDGES).default([]),
+  nodeId: idSchema,
+  level: z.coerce.number().int().min(1).max(3).default(1),
+  breadth: z.coerce.number().int().min(1).max(12).default(6),
+  locale: localeSchema
+}).refine(
+  value => value.nodes.some(node => node.id === value.nodeId),
+  value => ({ message: `Node "${value.nodeId}" is not in the graph`, path: ['nodeId'] })
+).superRefine((value, ctx) => {
+  // The target's label is sent to the model
+  const target = value.nodes.find(node => node.id === value.nodeId);
+  const found = screenUserText(target?.data.label || '');
+  if (found.length) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Node label looks like an instruction to the AI (${found.join(', ')})`,
+      path: ['nodeId']
+    });
+  }
+});
+
+// Saved mind maps: POST/PUT send the whole map, PATCH any subset
+const mindMapContentShape = {
+  title: z.string().trim().max(MAX_LABEL_LENGTH),
+  nodes: z.array(graphNodeSchema).max(MAX_GRAPH_NODES),
+  edges: z.array(graphEdgeSchema).max(MAX_GRAPH_EDGES),
+  layout: layoutSchema
+};
+const layoutNeedsNodes = {
+  check: (value: { nodes?: unknown; layout?: unknown }) => value.layout === undefined || value.nodes !== undefined,
+  message: { message: 'nodes are required to apply a layout', path: ['nodes'] }
+};
+
+export const mindMapContentSchema = z.object({
+  ...mindMapContentShape,
+  title: mindMapContentShape.title.optional(),
+  layout: mindMapContentShape.layout.optional()
+});
+export const mindMapPatchSchema = z.object(mindMapContentShape).partial()
+  .refine(layoutNeedsNodes.check, layoutNeedsNodes.message);
+export type MindMapContentRequest = z.infer<typeof mindMapPatchSchema>;
+
+export const mindMapListQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().min(1).max(100).optional(),
+  sort: z.enum(['createdAt', 'updatedAt']).default('updatedAt'),
+  order: z.enum(['asc', 'desc']).default('desc')
+});
+
+export const mindMapParamsSchema = z.object({
+  id: z.string().min(1).max(100)
+});
+
+export const revisionParamsSchema = mindMapParamsSchema.extend({
+  version: z.coerce.number().int().min(1)
+});
+
+export const nodeParamsSchema = mindMapParamsSchema.extend({
+  nodeId: z.string().min(1).max(100)
+});
+
+export const skillGapItemParamsSchema = nodeParamsSchema.extend({
+  itemId: z.string().min(1).max(100)
+});
+
+export const GAP_PROGRESS = ['todo', 'in-progress', 'done'] as const;
+export type GapProgress = typeof GAP_PROGRESS[number];
+
+// A /api/skill-gap result attached to a saved mind map node; progress defaults to done for met requirements
+export const attachSkillGapSchema = z.object({
+  careerTitle: z.string().trim().min(1).max(MAX_LABEL_LENGTH),
+  items: z.array(z.object({
+    id: z.string().min(1).max(100),
+    category: z.enum(['education', 'certifications', 'experience']),
+    requirement: z.string().max(MAX_TEXT_LENGTH),
+    status: z.enum(GAP_STATUSES),
+    evidence: z.string().max(MAX_TEXT_LENGTH).nullable().default(null),
+    learningWeeks: z.number().min(0).max(520),
+    nextSteps: z.array(z.string().max(MAX_TEXT_LENGTH)).max(10).default([]),
+    progress: z.enum(GAP_PROGRESS).optional()
+  }).transform(item => ({ ...item, progress: item.progress ?? (item.status === 'met' ? 'done' : 'todo') }))).max(100)
+});
+export type AttachedSkillGap = z.infer<typeof attachSkillGapSchema>;
+
+export const skillGapProgressSchema = z.object({
+  progress: z.enum(GAP_PROGRESS)
+});
+
+export const diffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1).optional()
+});
+
+// ?format= takes a format name or its file extension (md, mm, mmd)
+const formatSchema = z.preprocess(
+  resolveFormatName,
+  z.enum(MINDMAP_FORMAT_NAMES as [MindMapFormatName, ...MindMapFormatName[]])
+);
+
+export const exportQuerySchema = z.object({
+  format: formatSchema.default('json')
+});
+
+// The title overrides the document's; nodes without positions are laid out with `layout`
+export const importQuerySchema = z.object({
+  format: formatSchema,
+  title: z.string().trim().max(MAX_LABEL_LENGTH).optional(),
+  layout: layoutSchema.default('radial')
+});
+
+export const cacheInvalidateSchema = z.object({
+  route: z.enum(LLM_ROUTES as [LLMRoute, ...LLMRoute[]]).optional(),
+  input: z.unknown().optional()
+}).refine(
+  value => value.input === undefined || value.route !== undefined,
+  { message: 'route is required when input is given', path: ['route'] }
+);
+
+// Users who may open and edit a map live besides its owner
+export const collaboratorsSchema = z.object({
+  uids: z.array(z.string().trim().min(1).max(128)).max(20)
+});
+
+// Edits sent over the live editing socket (see src/collaboration)
+const positionSchema = z.object({ x: z.number(), y: z.number() });
+
+export const liveOperationSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('addNode'), node: graphNodeSchema.and(z.object({ position: positionSchema })) }),
+  z.object({ kind: z.literal('moveNode'), id: idSchema, position: positionSchema }),
+  // Merged into the node's data key by key
+  z.object({
+    kind: z.literal('updateNode'),
+    id: idSchema,
+    data: z.object({ label: z.string().max(MAX_LABEL_LENGTH).optional() }).passthrough()
+  }),
+  // Also removes the node's edges
+  z.object({ kind: z.literal('removeNode'), id: idSchema }),
+  z.object({ kind: z.literal('addEdge'), edge: graphEdgeSchema }),
+  z.object({ kind: z.literal('removeEdge'), id: idSchema }),
+  z.object({ kind: z.literal('setTitle'), title: z.string().trim().max(MAX_LABEL_LENGTH) })
+]);
+
+export type LiveOperation = z.infer<typeof liveOperationSchema>;
+
+export const liveClientMessageSchema = z.discriminatedUnion('type', [
+  // baseSeq is the last sequence number the client had applied when it made the edit
+  z.object({
+    type: z.literal('op'),
+    opId: z.string().min(1).max(100),
+    baseSeq: z.number().int().min(0),
+    op: liveOperationSchema
+  }),
+  // null when the pointer leaves the canvas
+  z.object({
+    type: z.literal('cursor'),
+    cursor: positionSchema.extend({ nodeId: idSchema.optional() }).nullable()
+  })
+]);
+
+export type LiveClientMessage = z.infer<typeof liveClientMessageSchema>;
+
+// PUT /api/admin/taxonomy/roles/:id; the id comes from the path
+export const taxonomyRoleParamsSchema = z.object({ id: roleIdSchema });
+export const taxonomyRoleBodySchema = careerRoleSchema.omit({ id: true });
+
+export const taxonomyMatchQuerySchema = z.object({
+  title: z.string().trim().min(1).max(MAX_LABEL_LENGTH)
+});
@@ -0,0 +1,92 @@
+import { z } from 'zod';
+
+// Runtime schemas for the shapes we ask the model to return
+
+// Models sometimes emit numeric ids; the client always works with strings
+const idSchema = z.union([z.string().min(1), z.number()]).transform(String);
+
+export const mindMapNodeSchema = z.object({
+  id: idSchema,
+  data: z.object({
+    label: z.string().trim().min(1)
+  }).passthrough(),
+  position: z.object({
+    x: z.number(),
+    y: z.number()
+  }).optional()
+}).passthrough();
+
+export const mindMapEdgeSchema = z.object({
+  id: idSchema,
+  source: idSchema,
+  target: idSchema
+}).passthrough();
+
+export const mindMapSchema = z.object({
+  nodes: z.array(mindMapNodeSchema).min(2),
+  edges: z.array(mindMapEdgeSchema).default([])
+});
+
+export const suggestionsSchema = z.array(z.string().trim().min(1)).min(1);
+
+export const careerDetailSchema = z.object({
+  title: z.string().min(1),
+  averageSalary: z.string().min(1),
+  requirements: z.object({
+    education: z.array(z.string()),
+    certifications: z.array(z.string()),
+    experience: z.array(z.string())
+  }),
+  description: z.string().min(1),
+  relatedCompanies: z.array(z.string()),
+  roleModels: z.array(z.string()),
+  // Level name -> time estimate, e.g. { "시니어": "경력 5-7년" }
+  timeToReach: z.record(z.string())
+});
+
+export const careerPathsSchema = z.array(z.string().trim().min(1)).min(1);
+
+// Route between two roles; the last step is the target role
+export const careerRouteSchema = z.object({
+  steps: z.array(z.object({
+    title: z.string().trim().min(1),
+    // Years from the previous step to this one
+    years: z.coerce.number().min(0).max(30),
+    // What to acquire on the way, in the shape of CareerDetail.requirements
+    requirements: careerDetailSchema.shape.requirements,
+    confidence: z.coerce.number().min(0).max(1)
+  })).min(1).max(8)
+});
+
+// Structured profile extracted from a resume
+export const resumeProfileSchema = z.object({
+  // Latest or current job title; null when the resume does not show one
+  currentRole: z.string().trim().min(1).nullable(),
+  yearsOfExperience: z.coerce.number().min(0).max(60),
+  skills: z.array(z.string().trim().min(1)).max(50),
+  education: z.array(z.string().trim().min(1)).max(20),
+  certifications: z.array(z.string().trim().min(1)).max(30)
+});
+
+export const GAP_STATUSES = ['met', 'partial', 'missing'] as const;
+
+// The model's verdict per requirement; requirement ids are the ones sent in the prompt
+export const skillGapAssessmentSchema = z.object({
+  items: z.array(z.object({
+    id: z.string().min(1),
+    status: z.enum(GAP_STATUSES),
+    // What in the profile the verdict is based on
+    evidence: z.string().trim().min(1).nullable().default(null),
+    learningWeeks: z.coerce.number().min(0).max(520),
+    nextSteps: z.array(z.string().trim().min(1)).max(5).default([])
+  })).min(1)
+});
+
+export type MindMapNode = z.infer<typeof mindMapNodeSchema>;
+export type MindMapEdge = z.infer<typeof mindMapEdgeSchema>;
+export type MindMap = z.infer<typeof mindMapSchema>;
+export type CareerDetail = z.infer<typeof careerDetailSchema>;
+export type CareerRoute = z.infer<typeof careerRouteSchema>;
+export type ResumeProfile = z.infer<typeof resumeProfileSchema>;
+export type GapStatus = typeof GAP_STATUSES[number];
+export type SkillGapAssessment = z.infer<typeof skillGapAssessmentSchema>;
@@ -0,0 +1,67 @@
+import { constants, existsSync, mkdirSync, readFileSync } from 'fs';
+import { access, mkdir, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { createMemoryTaxonomyStore, TaxonomyOverlay } from '../careers/taxonomy';
+import { createMemoryMindMapRepository, MindMapSnapshot } from '../mindmaps/memoryRepository';
+import { logger } from '../observability/logger';
+import { createMemoryProfileStore, StoredProfile } from '../profiles/store';
+
+type FileContents = {
+  mindMaps: MindMapSnapshot;
+  profiles: Record<string, StoredProfile>;
+  taxonomy: TaxonomyOverlay | null;
+};
+
+const readContents = (path: string): FileContents => {
+  if (!existsSync(path)) return { mindMaps: {}, profiles: {}, taxonomy: null };
+  try {
+    const parsed = JSON.parse(readFileSync(path, 'utf8'));
+    return { mindMaps: parsed.mindMaps || {}, profiles: parsed.profiles || {}, taxonomy: parsed.taxonomy || null };
+  } catch (error: any) {
+    throw new Error(`STORAGE_FILE ${path} could not be read: ${error.message}`);
+  }
+};
+
+// The in-memory stores, loaded from one JSON file at startup and written back after every change.
+// Meant for a single local process: concurrent servers on the same file overwrite each other.
+export const createFileStores = (path: string) => {
+  const contents = readContents(path);
+  mkdirSync(dirname(path), { recursive: true });
+
+  // Writes are chained so they land in order; each writes the state at the time it runs
+  let writing = Promise.resolve();
+  // The last write's failure, until a write succeeds
+  let writeError: Error | null = null;
+  const persist = () => {
+    writing = writing
+      .then(async () => {
+        await mkdir(dirname(path), { recursive: true });
+        await writeFile(`${path}.tmp`, JSON.stringify(contents));
+        await rename(`${path}.tmp`, path);
+        writeError = null;
+      })
+      .catch(error => {
+        writeError = error;
+        logger.error('Failed to write storage file', { path, error: error.message });
+      });
+  };
+
+  const check = async () => {
+    if (writeError) throw new Error(`Last write to ${path} failed: ${writeError.message}`);
+    await access(dirname(path), constants.W_OK);
+  };
+
+  const mindMaps = createMemoryMindMapRepository(contents.mindMaps, snapshot => {
+    contents.mindMaps = snapshot;
+    persist();
+  });
+  const profiles = createMemoryProfileStore(contents.profiles, snapshot => {
+    contents.profiles = snapshot;
+    persist();
+  });
+  const taxonomy = createMemoryTaxonomyStore(contents.taxonomy, overlay => {
+    contents.taxonomy = overlay;
+    persist();
+  });
+  return { mindMaps, profiles, taxonomy, flush: () => writing, check };
+};
@@ -0,0 +1,26 @@
+import { FirebaseOptions, initializeApp } from 'firebase/app';
+import { doc, Firestore, getDoc, getFirestore } from 'firebase/firestore';
+import { EnvReader } from '../config/env';
+
+// Firebase web config from FIREBASE_* variables; API key and project id are required
+export const readFirebaseConfig = (read: EnvReader, purpose: string): FirebaseOptions => {
+  const apiKey = read.optionalText('FIREBASE_API_KEY');
+  const projectId = read.optionalText('FIREBASE_PROJECT_ID');
+  read.require(Boolean(apiKey && projectId), `FIREBASE_API_KEY and FIREBASE_PROJECT_ID are required for ${purpose}`);
+  return {
+    apiKey,
+    authDomain: read.optionalText('FIREBASE_AUTH_DOMAIN'),
+    projectId,
+    storageBucket: read.optionalText('FIREBASE_STORAGE_BUCKET'),
+    messagingSenderId: read.optionalText('FIREBASE_MESSAGING_SENDER_ID'),
+    appId: read.optionalText('FIREBASE_APP_ID'),
+    measurementId: read.optionalText('FIREBASE_MEASUREMENT_ID')
+  };
+};
+
+export const connectFirestore = (options: FirebaseOptions): Firestore => getFirestore(initializeApp(options));
+
+// Readiness: one document read proves the project is reachable and the rules let the server in
+export const checkFirestore = async (db: Firestore) => {
+  await getDoc(doc(db, 'health', 'readiness'));
+};
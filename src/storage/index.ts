@@ -0,0 +1,76 @@
+import { FirebaseOptions } from 'firebase/app';
+import { Firestore } from 'firebase/firestore';
+import { createFirestoreTaxonomyStore, createMemoryTaxonomyStore, TaxonomyStore } from '../careers/taxonomy';
+import { createEnvReader, Env } from '../config/env';
+import { createFirestoreMindMapRepository } from '../mindmaps/firestoreRepository';
+import { createMemoryMindMapRepository } from '../mindmaps/memoryRepository';
+import { MindMapRepository } from '../mindmaps/repository';
+import { createFirestoreProfileStore, createMemoryProfileStore, ProfileStore } from '../profiles/store';
+import { createFileStores } from './file';
+import { checkFirestore, connectFirestore, readFirebaseConfig } from './firestore';
+
+export const STORAGE_BACKENDS = ['firestore', 'memory', 'file'] as const;
+export type StorageBackend = typeof STORAGE_BACKENDS[number];
+
+export type Storage = {
+  backend: StorageBackend;
+  mindMaps: MindMapRepository;
+  profiles: ProfileStore;
+  // Admin changes to the career taxonomy
+  taxonomy: TaxonomyStore;
+  // Set only for the firestore backend; CACHE_BACKEND/USAGE_BACKEND=firestore use it
+  firestore: Firestore | null;
+  // Resolves once pending writes are done (the file backend writes in the background)
+  flush: () => Promise<void>;
+  // Rejects when the backend cannot be used (readiness checks)
+  check: () => Promise<void>;
+};
+
+export type StorageConfig = {
+  backend: StorageBackend;
+  // File backend
+  file: string;
+  // Firestore backend
+  firebase: FirebaseOptions | null;
+};
+
+const DEFAULT_STORAGE_FILE = './data/growgraph.json';
+
+// STORAGE_BACKEND=firestore (default when FIREBASE_API_KEY is set) | memory | file (STORAGE_FILE)
+export const loadStorageConfig = (env: Env = process.env): StorageConfig => {
+  const read = createEnvReader(env);
+  const backend = read.oneOf('STORAGE_BACKEND', STORAGE_BACKENDS, env.FIREBASE_API_KEY ? 'firestore' : 'memory');
+  const firebase = backend === 'firestore' ? readFirebaseConfig(read, 'STORAGE_BACKEND=firestore') : null;
+  const file = read.text('STORAGE_FILE', DEFAULT_STORAGE_FILE);
+  read.done();
+  return { backend, file, firebase };
+};
+
+export const createStorage = ({ backend, file, firebase }: StorageConfig): Storage => {
+  switch (backend) {
+    case 'firestore': {
+      const db = connectFirestore(firebase as FirebaseOptions);
+      return {
+        backend,
+        mindMaps: createFirestoreMindMapRepository(db),
+        profiles: createFirestoreProfileStore(db),
+        taxonomy: createFirestoreTaxonomyStore(db),
+        firestore: db,
+        flush: async () => undefined,
+        check: () => checkFirestore(db)
+      };
+    }
+    case 'memory':
+      return {
+        backend,
+        mindMaps: createMemoryMindMapRepository(),
+        profiles: createMemoryProfileStore(),
+        taxonomy: createMemoryTaxonomyStore(),
+        firestore: null,
+        flush: async () => undefined,
+        check: async () => undefined
+      };
+    case 'file':
+      return { backend, ...createFileStores(file), firestore: null };
+  }
+};
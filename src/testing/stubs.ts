@@ -0,0 +1,136 @@
+import { createApp } from '../app';
+import { TokenVerifier } from '../auth/types';
+import { createResponseCacheFromConfig, loadCacheConfig } from '../cache';
+import { BUNDLED_TAXONOMY, createMemoryTaxonomyStore, createTaxonomyEditor } from '../careers/taxonomy';
+import { createCollaborationHub } from '../collaboration';
+import { createShutdown } from '../http/shutdown';
+import { createLLMClient } from '../llm/client';
+import { loadLLMConfig } from '../llm/config';
+import { createMockProvider } from '../llm/mockProvider';
+import { CompletionRequest, CompletionResult, LLMProvider, LLMRoute } from '../llm/types';
+import { createMemoryMindMapRepository } from '../mindmaps/memoryRepository';
+import { createMemoryProfileStore } from '../profiles/store';
+import { createPromptRegistry } from '../prompts/registry';
+import { recordUsageTo, UsageSettings } from '../usage';
+import { createMemoryUsageLedger } from '../usage/memoryLedger';
+
+// Test doubles for the app's dependencies (used by the *.test.ts suites)
+
+// Stands in for the retry timer: waits are recorded and resolve at once
+export const createFakeClock = () => {
+  const sleeps: number[] = [];
+  const sleep = (ms: number, signal?: AbortSignal) => {
+    if (signal?.aborted) return Promise.reject(Object.assign(new Error('Request aborted'), { name: 'AbortError' }));
+    sleeps.push(ms);
+    return Promise.resolve();
+  };
+  return { sleep, sleeps, elapsed: () => sleeps.reduce((total, ms) => total + ms, 0) };
+};
+
+// A queued model reply: the raw completion text, or an upstream failure with its HTTP status
+export type StubReply = string | { status: number; message?: string };
+
+// Answers from per-route queues, then like the offline mock provider
+export const createStubProvider = () => {
+  const mock = createMockProvider();
+  const queues: Partial<Record<LLMRoute, StubReply[]>> = {};
+  const requests: CompletionRequest[] = [];
+
+  const complete = async (request: CompletionRequest): Promise<CompletionResult> => {
+    requests.push(request);
+    const reply = queues[request.route]?.shift();
+    if (reply === undefined) return mock.complete(request);
+    if (typeof reply !== 'string') {
+      throw Object.assign(new Error(reply.message || `Upstream error ${reply.status}`), { status: reply.status });
+    }
+    return { content: reply, model: request.model, provider: 'stub' };
+  };
+
+  const provider: LLMProvider = {
+    name: 'stub',
+    complete,
+    stream: async request => {
+      const result = await complete(request);
+      return {
+        model: result.model,
+        provider: result.provider,
+        usage: result.usage,
+        chunks: (async function* () {
+          yield result.content;
+        })()
+      };
+    }
+  };
+
+  const reply = (route: LLMRoute, ...replies: StubReply[]) => {
+    queues[route] = (queues[route] || []).concat(replies);
+  };
+
+  return { provider, requests, reply };
+};
+
+// Bearer tokens are the uid itself; "admin" gets the admin claim
+export const stubVerifier: TokenVerifier = async token => ({
+  uid: token,
+  claims: token === 'admin' ? { admin: true } : {}
+});
+
+export const bearer = (uid = 'user-1') => ({ Authorization: `Bearer ${uid}` });
+
+type TestAppOptions = {
+  usage?: Partial<UsageSettings>;
+  // Extra LLM_* variables, e.g. { LLM_MAX_REASKS: '0' }
+  env?: Record<string, string>;
+  metricsToken?: string;
+  // PROMPT_DIR: extra template versions and experiments
+  promptDir?: string;
+};
+
+// The whole API on in-memory storage, a stub model and a fake clock; quotas and rate limits are off
+export const createTestApp = (options: TestAppOptions = {}) => {
+  const stub = createStubProvider();
+  const clock = createFakeClock();
+  const ledger = createMemoryUsageLedger();
+  const usage: UsageSettings = {
+    ledger,
+    limits: { day: 0, month: 0 },
+    rateLimits: { ip: { windowSeconds: 60, max: 0 }, user: { windowSeconds: 60, max: 0 } },
+    ...options.usage
+  };
+  const config = loadLLMConfig({
+    LLM_PROVIDER: 'mock',
+    LLM_RETRY_MAX: '3',
+    LLM_RETRY_INITIAL_DELAY_MS: '1000',
+    LLM_MAX_REASKS: '1',
+    ...options.env
+  });
+  const llm = createLLMClient(config, { mock: stub.provider }, { onUsage: recordUsageTo(usage.ledger), sleep: clock.sleep });
+  const storage = {
+    mindMaps: createMemoryMindMapRepository(),
+    profiles: createMemoryProfileStore(),
+    taxonomy: createMemoryTaxonomyStore(),
+    check: async () => undefined
+  };
+  const cache = createResponseCacheFromConfig(null, loadCacheConfig({ CACHE_BACKEND: 'memory' }));
+  // Starts from the bundled taxonomy, undoing changes an earlier test app made
+  const taxonomy = createTaxonomyEditor(BUNDLED_TAXONOMY, storage.taxonomy);
+  // Starts from the bundled prompts (plus promptDir), undoing an earlier test app's
+  const prompts = createPromptRegistry(options.promptDir);
+  // Live edits are saved on flush() and when the last client leaves, never on a timer
+  const collaboration = createCollaborationHub({ mindMaps: storage.mindMaps, verifier: stubVerifier, saveIntervalMs: 0 });
+  const shutdown = createShutdown();
+  const app = createApp({
+    llm,
+    storage,
+    cache,
+    usage,
+    taxonomy,
+    prompts,
+    collaboration,
+    verifier: stubVerifier,
+    adminUids: [],
+    metricsToken: options.metricsToken,
+    shutdown
+  });
+  return { app, stub, clock, storage, usage, cache, taxonomy, prompts, collaboration, shutdown };
+};
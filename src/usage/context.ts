@@ -0,0 +1,29 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { NextFunction, Request, Response } from 'express';
+import { LLMRoute, TokenUsage } from '../llm/types';
+import { logger } from '../observability/logger';
+import { UsageLedger } from './types';
+
+// Carries the authenticated user through a request, so token usage reported deep
+// inside the LLM client can be charged to them without threading the uid everywhere.
+const storage = new AsyncLocalStorage<{ uid: string }>();
+
+export const currentUsageUser = (): string | undefined => storage.getStore()?.uid;
+
+// Mount after requireAuth
+export const usageContext = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    next();
+    return;
+  }
+  storage.run({ uid: req.user.uid }, next);
+};
+
+// LLM client hook that charges the tokens of every AI call to the user whose request made it
+export const recordUsageTo = (ledger: UsageLedger) => (route: LLMRoute, tokens: TokenUsage) => {
+  const uid = currentUsageUser();
+  if (!uid) return;
+  ledger.record(uid, route, tokens).catch(error => {
+    logger.error('Failed to record token usage', { uid, route, error: error.message });
+  });
+};
@@ -0,0 +1,42 @@
+import { doc, Firestore, getDoc, increment, setDoc } from 'firebase/firestore';
+import { LLMRoute, TokenUsage } from '../llm/types';
+import { periodKey } from './periods';
+import { emptyTotals, UsageLedger, UsagePeriod } from './types';
+
+const USAGE = 'usage';
+
+// One document per user and period, e.g. usage/{uid}_day_2025-06-01, updated with atomic increments
+export const createFirestoreUsageLedger = (db: Firestore): UsageLedger => {
+  const ref = (uid: string, period: UsagePeriod, at: Date) => doc(db, USAGE, `${uid}_${period}_${periodKey(period, at)}`);
+
+  const add = (uid: string, period: UsagePeriod, at: Date, route: LLMRoute, usage: TokenUsage) =>
+    setDoc(ref(uid, period, at), {
+      uid,
+      period,
+      key: periodKey(period, at),
+      promptTokens: increment(usage.promptTokens),
+      completionTokens: increment(usage.completionTokens),
+      totalTokens: increment(usage.totalTokens),
+      requests: increment(1),
+      routes: { [route]: increment(usage.totalTokens) }
+    }, { merge: true });
+
+  const record = async (uid: string, route: LLMRoute, usage: TokenUsage, at: Date = new Date()) => {
+    await Promise.all([add(uid, 'day', at, route, usage), add(uid, 'month', at, route, usage)]);
+  };
+
+  const totals = async (uid: string, period: UsagePeriod, at: Date = new Date()) => {
+    const snapshot = await getDoc(ref(uid, period, at));
+    if (!snapshot.exists()) return emptyTotals();
+    const data = snapshot.data();
+    return {
+      promptTokens: data.promptTokens || 0,
+      completionTokens: data.completionTokens || 0,
+      totalTokens: data.totalTokens || 0,
+      requests: data.requests || 0,
+      routes: data.routes || {}
+    };
+  };
+
+  return { record, totals };
+};
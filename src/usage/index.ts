@@ -0,0 +1,57 @@
+import { Firestore } from 'firebase/firestore';
+import { createEnvReader, Env } from '../config/env';
+import { createFirestoreUsageLedger } from './firestoreLedger';
+import { createMemoryUsageLedger } from './memoryLedger';
+import { QuotaLimits } from './quota';
+import { RateLimitRule } from './rateLimit';
+import { UsageLedger } from './types';
+
+export { usageContext, currentUsageUser, recordUsageTo } from './context';
+export { createEnforceQuota, getQuotaReport, hasQuotaLeft, QuotaLimits } from './quota';
+export { createRateLimit } from './rateLimit';
+export { UsageLedger } from './types';
+
+export const USAGE_BACKENDS = ['memory', 'firestore'] as const;
+
+export type UsageSettings = {
+  ledger: UsageLedger;
+  limits: QuotaLimits;
+  rateLimits: Record<'ip' | 'user', RateLimitRule>;
+};
+
+export type UsageConfig = Omit<UsageSettings, 'ledger'> & { backend: typeof USAGE_BACKENDS[number] };
+
+// USAGE_BACKEND=memory (default) | firestore
+// USAGE_DAILY_TOKENS / USAGE_MONTHLY_TOKENS: per-user quotas, 0 = unlimited
+// RATE_LIMIT_WINDOW_SECONDS, RATE_LIMIT_IP_MAX, RATE_LIMIT_USER_MAX: requests per window on the AI routes, 0 = off
+export const loadUsageConfig = (env: Env = process.env): UsageConfig => {
+  const read = createEnvReader(env);
+  const count = (name: string, fallback: number) => read.number(name, fallback, { min: 0, integer: true });
+  const backend = read.oneOf('USAGE_BACKEND', USAGE_BACKENDS, 'memory');
+  const limits: QuotaLimits = {
+    day: count('USAGE_DAILY_TOKENS', 200000),
+    month: count('USAGE_MONTHLY_TOKENS', 2000000)
+  };
+  const windowSeconds = read.number('RATE_LIMIT_WINDOW_SECONDS', 60, { min: 1, integer: true });
+  const rateLimits: Record<'ip' | 'user', RateLimitRule> = {
+    ip: { windowSeconds, max: count('RATE_LIMIT_IP_MAX', 60) },
+    user: { windowSeconds, max: count('RATE_LIMIT_USER_MAX', 20) }
+  };
+  read.done();
+  return { backend, limits, rateLimits };
+};
+
+// The firestore backend needs the Firestore of STORAGE_BACKEND=firestore
+export const createUsageFromConfig = (db: Firestore | null, { backend, limits, rateLimits }: UsageConfig): UsageSettings => {
+  let ledger: UsageLedger;
+  switch (backend) {
+    case 'memory':
+      ledger = createMemoryUsageLedger();
+      break;
+    case 'firestore':
+      if (!db) throw new Error('USAGE_BACKEND=firestore needs STORAGE_BACKEND=firestore');
+      ledger = createFirestoreUsageLedger(db);
+      break;
+  }
+  return { ledger, limits, rateLimits };
+};
@@ -0,0 +1,29 @@
+import { LLMRoute, TokenUsage } from '../llm/types';
+import { periodKey } from './periods';
+import { emptyTotals, UsageLedger, UsagePeriod, UsageTotals } from './types';
+
+export const createMemoryUsageLedger = (): UsageLedger => {
+  const totalsByKey = new Map<string, UsageTotals>();
+
+  const add = (key: string, route: LLMRoute, usage: TokenUsage) => {
+    const totals = totalsByKey.get(key) || emptyTotals();
+    totals.promptTokens += usage.promptTokens;
+    totals.completionTokens += usage.completionTokens;
+    totals.totalTokens += usage.totalTokens;
+    totals.requests += 1;
+    totals.routes[route] = (totals.routes[route] || 0) + usage.totalTokens;
+    totalsByKey.set(key, totals);
+  };
+
+  const record = async (uid: string, route: LLMRoute, usage: TokenUsage, at: Date = new Date()) => {
+    add(`${uid}:${periodKey('day', at)}`, route, usage);
+    add(`${uid}:${periodKey('month', at)}`, route, usage);
+  };
+
+  const totals = async (uid: string, period: UsagePeriod, at: Date = new Date()) => {
+    const found = totalsByKey.get(`${uid}:${periodKey(period, at)}`);
+    return found ? { ...found, routes: { ...found.routes } } : emptyTotals();
+  };
+
+  return { record, totals };
+};
@@ -0,0 +1,12 @@
+import { UsagePeriod } from './types';
+
+// Quotas reset at UTC midnight / the first of the month (UTC)
+export const periodKey = (period: UsagePeriod, at: Date = new Date()): string => {
+  const iso = at.toISOString();
+  return period === 'day' ? iso.substring(0, 10) : iso.substring(0, 7);
+};
+
+export const periodResetsAt = (period: UsagePeriod, at: Date = new Date()): Date =>
+  period === 'day'
+    ? new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate() + 1))
+    : new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth() + 1, 1));
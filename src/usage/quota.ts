@@ -0,0 +1,72 @@
+import { NextFunction, Request, Response } from 'express';
+import { sendError } from '../http/errors';
+import { logger } from '../observability/logger';
+import { periodResetsAt } from './periods';
+import { UsageLedger, UsagePeriod } from './types';
+
+// Total tokens per user; 0 means unlimited
+export type QuotaLimits = Record<UsagePeriod, number>;
+
+const PERIODS: UsagePeriod[] = ['day', 'month'];
+
+export const getQuotaReport = async (ledger: UsageLedger, limits: QuotaLimits, uid: string, at: Date = new Date()) => {
+  const reports = await Promise.all(PERIODS.map(async period => {
+    const used = await ledger.totals(uid, period, at);
+    const limit = limits[period];
+    return {
+      period,
+      ...used,
+      limit: limit > 0 ? limit : null,
+      remaining: limit > 0 ? Math.max(limit - used.totalTokens, 0) : null,
+      exhausted: limit > 0 && used.totalTokens >= limit,
+      resetsAt: periodResetsAt(period, at).toISOString()
+    };
+  }));
+  return { day: reports[0], month: reports[1] };
+};
+
+// Whether the user may still make AI calls; true when the ledger is unavailable, as for createEnforceQuota
+export const hasQuotaLeft = async (ledger: UsageLedger, limits: QuotaLimits, uid?: string) => {
+  if (!uid || (limits.day <= 0 && limits.month <= 0)) return true;
+  try {
+    const report = await getQuotaReport(ledger, limits, uid);
+    return !report.day.exhausted && !report.month.exhausted;
+  } catch (error: any) {
+    logger.error('Failed to check usage quota, allowing request', { error: error.message });
+    return true;
+  }
+};
+
+// Rejects AI requests once the caller has used up their daily or monthly token quota.
+// Mount after requireAuth. The check is made before the call, so a single request may overshoot slightly.
+export const createEnforceQuota = (ledger: UsageLedger, limits: QuotaLimits) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user || (limits.day <= 0 && limits.month <= 0)) {
+      next();
+      return;
+    }
+    let report: Awaited<ReturnType<typeof getQuotaReport>>;
+    try {
+      report = await getQuotaReport(ledger, limits, req.user.uid);
+    } catch (error: any) {
+      // Don't lock users out because the ledger is unavailable
+      logger.error('Failed to check usage quota, allowing request', { error: error.message });
+      next();
+      return;
+    }
+    // When both are exhausted the monthly quota is the one that matters
+    const exhausted = [report.month, report.day].find(period => period.exhausted);
+    if (!exhausted) {
+      next();
+      return;
+    }
+    const retryAfter = Math.max(Math.ceil((Date.parse(exhausted.resetsAt) - Date.now()) / 1000), 1);
+    res.setHeader('Retry-After', retryAfter);
+    sendError(res, 429, 'QUOTA_EXCEEDED', `${exhausted.period === 'day' ? 'Daily' : 'Monthly'} AI token quota exhausted`, {
+      period: exhausted.period,
+      used: exhausted.totalTokens,
+      limit: exhausted.limit,
+      resetsAt: exhausted.resetsAt,
+      retryAfter
+    });
+  };
@@ -0,0 +1,76 @@
+import { NextFunction, Request, Response } from 'express';
+import { sendError } from '../http/errors';
+
+export type RateLimitRule = {
+  windowSeconds: number;
+  // Requests allowed per key and window; 0 disables the limit
+  max: number;
+};
+
+type Window = { count: number; resetAt: number };
+
+const SWEEP_THRESHOLD = 10000;
+
+// Fixed-window counter kept in process memory
+export const createRateLimiter = (rule: RateLimitRule, now: () => number = Date.now) => {
+  const windows = new Map<string, Window>();
+
+  const sweep = (time: number) => {
+    windows.forEach((window, key) => {
+      if (window.resetAt <= time) windows.delete(key);
+    });
+  };
+
+  const consume = (key: string) => {
+    const time = now();
+    if (windows.size > SWEEP_THRESHOLD) sweep(time);
+
+    let window = windows.get(key);
+    if (!window || window.resetAt <= time) {
+      window = { count: 0, resetAt: time + rule.windowSeconds * 1000 };
+      windows.set(key, window);
+    }
+    window.count++;
+    return {
+      allowed: window.count <= rule.max,
+      remaining: Math.max(rule.max - window.count, 0),
+      resetAt: window.resetAt,
+      retryAfterSeconds: Math.max(Math.ceil((window.resetAt - time) / 1000), 1)
+    };
+  };
+
+  return { consume };
+};
+
+export type RateLimitScope = 'ip' | 'user';
+
+const keyFor = (scope: RateLimitScope, req: Request) =>
+  scope === 'ip' ? req.ip || req.socket.remoteAddress || 'unknown' : req.user?.uid;
+
+// Per-IP limits can run before requireAuth; per-user limits must be mounted after it
+export const createRateLimit = (scope: RateLimitScope, rule: RateLimitRule) => {
+  const limiter = createRateLimiter(rule);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = keyFor(scope, req);
+    if (rule.max <= 0 || !key) {
+      next();
+      return;
+    }
+    const result = limiter.consume(`${scope}:${key}`);
+    res.setHeader('X-RateLimit-Limit', rule.max);
+    res.setHeader('X-RateLimit-Remaining', result.remaining);
+    res.setHeader('X-RateLimit-Reset', Math.ceil(result.resetAt / 1000));
+    if (!result.allowed) {
+      res.setHeader('Retry-After', result.retryAfterSeconds);
+      sendError(res, 429, 'RATE_LIMITED', 'Too many requests', {
+        scope,
+        limit: rule.max,
+        windowSeconds: rule.windowSeconds,
+        retryAfter: result.retryAfterSeconds
+      });
+      return;
+    }
+    next();
+  };
+};
@@ -0,0 +1,23 @@
+import { LLMRoute, TokenUsage } from '../llm/types';
+
+export type UsagePeriod = 'day' | 'month';
+
+export type UsageTotals = TokenUsage & {
+  requests: number;
+  // Total tokens per AI route
+  routes: Partial<Record<LLMRoute, number>>;
+};
+
+// Append-only token accounting per user, aggregated by UTC day and month
+export type UsageLedger = {
+  record: (uid: string, route: LLMRoute, usage: TokenUsage, at?: Date) => Promise<void>;
+  totals: (uid: string, period: UsagePeriod, at?: Date) => Promise<UsageTotals>;
+};
+
+export const emptyTotals = (): UsageTotals => ({
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  requests: 0,
+  routes: {}
+});